@@ -49,11 +49,11 @@ async function main() {
 		try {
 			const ob = await client.marketsInfo.getOrderbookSnapshot(market.name);
 			if (ob.data) {
-				if (ob.data.asks && ob.data.asks.length > 0 && ob.data.asks[0].length > 0) {
-					bestAsk = new Decimal(ob.data.asks[0][0]);
+				if (ob.data.ask && ob.data.ask.length > 0) {
+					bestAsk = ob.data.ask[0].price;
 				}
-				if (ob.data.bids && ob.data.bids.length > 0 && ob.data.bids[0].length > 0) {
-					bestBid = new Decimal(ob.data.bids[0][0]);
+				if (ob.data.bid && ob.data.bid.length > 0) {
+					bestBid = ob.data.bid[0].price;
 				}
 				// Use mid price if available
 				if (bestBid && bestAsk && bestBid.gt(0) && bestAsk.gt(0)) {
@@ -1,6 +1,6 @@
 /**
  * Market order example using environment variables
- * Uses IOC (Immediate or Cancel) time in force to create market orders
+ * Uses placeMarketOrder, which caps the price at the allowed slippage and sends an IOC MARKET order
  */
 
 import {
@@ -9,7 +9,6 @@ import {
   MAINNET_CONFIG,
   PerpetualTradingClient,
   OrderSide,
-  TimeInForce,
 } from '../src/index';
 import { getX10EnvConfig } from '../src/utils/env';
 import Decimal from 'decimal.js';
@@ -27,34 +26,17 @@ async function main() {
 
   try {
     const marketName = 'BTC-USD';
-    
-    // Get current market price for reference
-    let referencePrice = new Decimal('60000'); // Fallback
-    try {
-      const orderbook = await client.marketsInfo.getOrderbookSnapshot(marketName);
-      if (orderbook.data) {
-        if (orderbook.data.asks && orderbook.data.asks.length > 0 && orderbook.data.asks[0].length > 0) {
-          referencePrice = new Decimal(orderbook.data.asks[0][0]); // Use best ask for buy orders
-        }
-      }
-    } catch (e) {
-      console.log('Could not fetch orderbook, using fallback price');
-    }
-
     const qty = new Decimal('0.0001'); // Very small size to minimize cost
     console.log(`\nPlacing MARKET BUY order on ${marketName}...`);
-    console.log(`Quantity: ${qty.toString()}, Reference price: ${referencePrice.toString()}`);
-    console.log('Note: Market orders use IOC (Immediate or Cancel) time in force');
-    
-    // Market order: Use IOC time in force and reference price
-    // The order will execute immediately at market price or cancel
-    const order = await client.placeOrder({
+    console.log(`Quantity: ${qty.toString()}, max slippage: 50 bps`);
+
+    // The price is derived from the current best ask plus the slippage cap,
+    // and the order is sent as MARKET with IOC time in force
+    const order = await client.placeMarketOrder({
       marketName,
-      amountOfSynthetic: qty,
-      price: referencePrice, // Reference price for market orders
       side: OrderSide.BUY,
-      timeInForce: TimeInForce.IOC, // IOC makes it a market order
-      reduceOnly: false,
+      qty,
+      maxSlippageBps: 50,
     });
 
     if (order.data) {
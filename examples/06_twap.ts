@@ -1,6 +1,6 @@
 /**
- * Simple TWAP executor with optional TP/SL (env-based)
- * Note: native TWAP order type is not exposed; this script slices orders over time.
+ * TWAP execution with the SDK's client-side TwapExecutor (env-based)
+ * Slices the total quantity into slippage-capped market orders over the duration.
  */
 
 import {
@@ -9,18 +9,11 @@ import {
   MAINNET_CONFIG,
   PerpetualTradingClient,
   OrderSide,
-  OrderTpslType,
-  OrderTriggerPriceType,
-  OrderPriceType,
-  TimeInForce,
+  TwapExecutor,
 } from '../src/index';
 import { getX10EnvConfig } from '../src/utils/env';
 import Decimal from 'decimal.js';
 
-async function sleep(ms: number) {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
 async function main() {
   console.log('Initializing WASM...');
   await initWasm();
@@ -32,52 +25,28 @@ async function main() {
   const client = new PerpetualTradingClient(config, account);
 
   try {
-    const marketName = 'BTC-USD';
-    const totalQty = new Decimal('0.001'); // Single slice to fit balance
-    const slices = 1; // Single slice for demonstration
-    const delayMs = 2_000;
-    const sliceQty = totalQty;
-    const referencePrice = new Decimal('60000');
-
-    console.log(`\nExecuting TWAP: ${slices} slice(s) of ${sliceQty.toString()}...`);
-    console.log('Note: Full TWAP would place multiple slices over time. This demonstrates a single slice.');
-    const orderIds: number[] = [];
-    for (let i = 0; i < slices; i++) {
-      const res = await client.placeOrder({
-        marketName,
-        amountOfSynthetic: sliceQty,
-        price: referencePrice,
-        side: OrderSide.BUY,
-        timeInForce: TimeInForce.GTT,
-        postOnly: true,
-        tpSlType: OrderTpslType.ORDER,
-        takeProfit: {
-          triggerPrice: referencePrice.mul(1.01),
-          triggerPriceType: OrderTriggerPriceType.MARK,
-          price: referencePrice.mul(1.01),
-          priceType: OrderPriceType.LIMIT,
-        },
-        stopLoss: {
-          triggerPrice: referencePrice.mul(0.99),
-          triggerPriceType: OrderTriggerPriceType.MARK,
-          price: referencePrice.mul(0.99),
-          priceType: OrderPriceType.LIMIT,
-        },
-      } as any);
-      if (res.data) {
-        const orderId = typeof res.data.id === 'string' ? parseInt(res.data.id, 10) : res.data.id;
-        orderIds.push(orderId);
-        console.log(`Slice ${i + 1}/${slices} placed. ID: ${orderId}`);
-      }
-      if (i < slices - 1) {
-        await sleep(delayMs);
-      }
-    }
-    // Cancel last order
-    if (orderIds.length > 0) {
-      await client.orders.cancelOrder(orderIds[orderIds.length - 1]);
-      console.log('TWAP order completed and canceled');
-    }
+    const twap = new TwapExecutor(client, {
+      marketName: 'BTC-USD',
+      side: OrderSide.BUY,
+      totalQty: new Decimal('0.003'),
+      durationMs: 30_000,
+      slices: 3,
+      randomization: 0.2,
+      maxSlippageBps: 30,
+      priceLimit: new Decimal('100000'),
+    });
+
+    twap.on('slice', (slice) => {
+      const outcome = slice.error ? `rejected: ${slice.error.message}` : slice.status;
+      console.log(`Slice ${slice.index + 1}: ${slice.qty.toString()} (${outcome})`);
+    });
+
+    // Press Ctrl+C to stop placing further slices
+    process.once('SIGINT', () => twap.cancel());
+
+    console.log('\nExecuting TWAP: 3 slices over 30 seconds...');
+    const result = await twap.start();
+    console.log(`TWAP ${result.status}: submitted ${result.submittedQty.toString()} of 0.003`);
   } finally {
     await client.close();
   }
@@ -87,5 +56,3 @@ main().catch((e) => {
   console.error(e);
   process.exit(1);
 });
-
-
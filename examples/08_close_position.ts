@@ -8,6 +8,7 @@ import {
   MAINNET_CONFIG,
   PerpetualTradingClient,
   OrderSide,
+  PositionSide,
 } from '../src/index';
 import { getX10EnvConfig } from '../src/utils/env';
 import Decimal from 'decimal.js';
@@ -27,18 +28,15 @@ async function main() {
 
     const positionsResponse = await client.account.getPositions();
     const positions = positionsResponse.data || [];
-    const pos = positions.find((p: any) => {
-      const base = new Decimal(p.positionBase);
-      return p.market === marketName && !base.eq(0);
-    });
+    const pos = positions.find((p) => p.market === marketName && !p.size.eq(0));
     if (!pos) {
       console.log('No open position found on', marketName);
       return;
     }
 
-    const size = new Decimal(pos.positionBase).abs();
-    const side = new Decimal(pos.positionBase).gt(0) ? OrderSide.SELL : OrderSide.BUY;
-    const referencePrice = new Decimal(pos.markPrice || pos.indexPrice || 60000);
+    const size = pos.size.abs();
+    const side = pos.side === PositionSide.LONG ? OrderSide.SELL : OrderSide.BUY;
+    const referencePrice = pos.markPrice || new Decimal(60000);
 
     console.log(`Closing position ${marketName}, size=${size.toString()}, side=${side}`);
     const res = await client.placeOrder({
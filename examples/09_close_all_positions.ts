@@ -8,6 +8,7 @@ import {
   MAINNET_CONFIG,
   PerpetualTradingClient,
   OrderSide,
+  PositionSide,
 } from '../src/index';
 import { getX10EnvConfig } from '../src/utils/env';
 import Decimal from 'decimal.js';
@@ -31,12 +32,11 @@ async function main() {
     }
 
     for (const p of positions) {
-      const base = new Decimal(p.positionBase);
-      if (base.eq(0)) continue;
+      if (p.size.eq(0)) continue;
       const marketName = p.market;
-      const size = base.abs();
-      const side = base.gt(0) ? OrderSide.SELL : OrderSide.BUY;
-      const referencePrice = new Decimal(p.markPrice || p.indexPrice || 60000);
+      const size = p.size.abs();
+      const side = p.side === PositionSide.LONG ? OrderSide.SELL : OrderSide.BUY;
+      const referencePrice = p.markPrice || new Decimal(60000);
       console.log(`Closing ${marketName} position size=${size.toString()} side=${side}`);
       const res = await client.placeOrder({
         marketName,
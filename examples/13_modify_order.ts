@@ -1,5 +1,5 @@
 /**
- * Modify order by cancel+replace pattern using externalId linkage
+ * Modify order by atomic replace (the new order references the old one via cancelId)
  */
 
 import {
@@ -42,24 +42,14 @@ async function main() {
     if (!placeRes.data) {
       throw new Error('Failed to place original order');
     }
-    const orderId = typeof placeRes.data.id === 'string' ? parseInt(placeRes.data.id, 10) : placeRes.data.id;
-    console.log('Original order ID:', orderId);
+    console.log('Original order ID:', placeRes.data.id);
 
-    console.log('Canceling original order...');
-    await client.orders.cancelOrder(orderId);
-
-    console.log('Placing replacement order with new price...');
+    console.log('Replacing order with new price...');
     const newPrice = price.mul(0.999); // slightly better
-    const replaceRes = await client.placeOrder({
-      marketName,
-      amountOfSynthetic: qty,
+    const replaceRes = await client.replaceOrder(externalId, {
       price: newPrice,
-      side: OrderSide.BUY,
-      timeInForce: TimeInForce.GTT,
-      postOnly: true,
-      previousOrderId: externalId, // server may link modification by external ID
       externalId: `${externalId}-r`,
-    } as any);
+    });
 
     if (replaceRes.data) {
       console.log('Replacement order ID:', replaceRes.data.id);
@@ -22,12 +22,12 @@ async function main() {
   });
 
   console.log('Subscribing to public trades for BTC-USD...');
-  const tradesStream = streamClient.subscribeToPublicTrades('BTC-USD');
+  const tradesStream = streamClient.subscribeToPublicTradesTyped('BTC-USD');
   await tradesStream.connect();
   console.log('Connected. Listening for public trades...');
 
   for await (const trade of tradesStream) {
-    console.log('Trade:', JSON.stringify(trade));
+    console.log(`Trade ${trade.id}: ${trade.side} ${trade.qty.toString()} @ ${trade.price.toString()}`);
   }
 }
 
@@ -2,7 +2,8 @@
  * Configuration constants for the X10 SDK
  */
 
-export const DEFAULT_REQUEST_TIMEOUT_SECONDS = 500;
+/** Timeout of each REST request attempt; retries get a fresh timeout */
+export const DEFAULT_REQUEST_TIMEOUT_MS = 30_000;
 export const SDK_VERSION = '0.0.1';
 export const USER_AGENT = `X10TypeScriptTradingClient/${SDK_VERSION}`;
 
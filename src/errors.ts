@@ -1,3 +1,6 @@
+import { OrderStatusReason } from './perpetual/orders';
+import { OrderValidationViolation } from './perpetual/order-validation';
+
 /**
  * Base error class for all X10 SDK errors
  */
@@ -5,46 +8,220 @@ export class X10Error extends Error {
   constructor(message: string) {
     super(message);
     this.name = 'X10Error';
-    Object.setPrototypeOf(this, X10Error.prototype);
+    Object.setPrototypeOf(this, new.target.prototype);
   }
 }
 
 /**
- * Error thrown when rate limit is exceeded
+ * Details of a failed API request
  */
-export class RateLimitException extends X10Error {
-  constructor(message: string) {
+export interface ApiErrorDetails {
+  /** Request URL */
+  url?: string;
+  /** HTTP status code */
+  status?: number;
+  /** Error code from the `ResponseError` body */
+  code?: number;
+  /** Error message from the `ResponseError` body */
+  errorMessage?: string;
+  debugInfo?: string;
+}
+
+/**
+ * Base error class for error responses from the X10 API
+ */
+export class X10ApiException extends X10Error {
+  url?: string;
+  status?: number;
+  code?: number;
+  errorMessage?: string;
+  debugInfo?: string;
+
+  constructor(message: string, details: ApiErrorDetails = {}) {
     super(message);
+    this.name = 'X10ApiException';
+    this.url = details.url;
+    this.status = details.status;
+    this.code = details.code;
+    this.errorMessage = details.errorMessage;
+    this.debugInfo = details.debugInfo;
+  }
+}
+
+/**
+ * Error thrown when rate limit is exceeded
+ */
+export class RateLimitException extends X10ApiException {
+  /** Wait requested by the `Retry-After` response header */
+  retryAfterMs?: number;
+
+  constructor(message: string, details: ApiErrorDetails & { retryAfterMs?: number } = {}) {
+    super(message, details);
     this.name = 'RateLimitException';
+    this.retryAfterMs = details.retryAfterMs;
   }
 }
 
 /**
  * Error thrown when authentication fails
  */
-export class NotAuthorizedException extends X10Error {
-  constructor(message: string) {
-    super(message);
+export class NotAuthorizedException extends X10ApiException {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, details);
     this.name = 'NotAuthorizedException';
   }
 }
 
 /**
- * Error thrown when a sub-account already exists
+ * Error thrown when the account balance or margin is insufficient for the request
  */
-export class SubAccountExists extends X10Error {
+export class InsufficientFundsException extends X10ApiException {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, details);
+    this.name = 'InsufficientFundsException';
+  }
+}
+
+/**
+ * Error thrown when the requested market does not exist
+ */
+export class MarketNotFoundException extends X10ApiException {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, details);
+    this.name = 'MarketNotFoundException';
+  }
+}
+
+/**
+ * Error thrown when the API fails with a 5xx status
+ */
+export class ServerException extends X10ApiException {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, details);
+    this.name = 'ServerException';
+  }
+}
+
+/**
+ * Error thrown when the exchange rejects an order
+ */
+export class InvalidOrderException extends X10ApiException {
+  statusReason?: OrderStatusReason;
+
+  constructor(message: string, details: ApiErrorDetails & { statusReason?: OrderStatusReason } = {}) {
+    super(message, details);
+    this.name = 'InvalidOrderException';
+    this.statusReason = details.statusReason;
+  }
+}
+
+/**
+ * Error thrown when a request does not complete within its timeout
+ */
+export class RequestTimeoutException extends X10Error {
   constructor(message: string) {
     super(message);
-    this.name = 'SubAccountExists';
+    this.name = 'RequestTimeoutException';
   }
 }
 
+/**
+ * Error thrown when an API response does not match the expected model schema
+ */
+export class DeserializationException extends X10Error {
+  /** Path of the offending field, e.g. `PositionModel[0].size` */
+  path: string;
 
+  constructor(message: string, path: string) {
+    super(message);
+    this.name = 'DeserializationException';
+    this.path = path;
+  }
+}
+
+/**
+ * Error thrown by a stream consumer that fell too far behind its buffer limit
+ */
+export class StreamOverflowException extends X10Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StreamOverflowException';
+  }
+}
+
+/**
+ * Error thrown when an awaited order update does not arrive within its timeout
+ */
+export class OrderWaitTimeoutException extends X10Error {
+  externalId: string;
 
+  constructor(message: string, externalId: string) {
+    super(message);
+    this.name = 'OrderWaitTimeoutException';
+    this.externalId = externalId;
+  }
+}
 
+/**
+ * Error thrown when a sub-account already exists
+ */
+export class SubAccountExists extends X10Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubAccountExists';
+  }
+}
 
+/**
+ * Error thrown when the exchange rejects an order replacement (amend via `cancelId`)
+ */
+export class OrderReplaceException extends InvalidOrderException {
+  constructor(message: string, statusReason: OrderStatusReason, details: ApiErrorDetails = {}) {
+    super(message, { ...details, statusReason });
+    this.name = 'OrderReplaceException';
+  }
+}
 
+/**
+ * Error thrown when the order being replaced does not exist or is no longer open
+ */
+export class PreviousOrderNotFoundException extends OrderReplaceException {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, OrderStatusReason.PREV_ORDER_NOT_FOUND, details);
+    this.name = 'PreviousOrderNotFoundException';
+  }
+}
 
+/**
+ * Error thrown when the order being replaced has already been triggered
+ */
+export class PreviousOrderTriggeredException extends OrderReplaceException {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, OrderStatusReason.PREV_ORDER_TRIGGERED, details);
+    this.name = 'PreviousOrderTriggeredException';
+  }
+}
 
+/**
+ * Error thrown when the replacement conflicts with the order being replaced
+ * (e.g. different market or side)
+ */
+export class PreviousOrderConflictException extends OrderReplaceException {
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, OrderStatusReason.PREV_ORDER_CONFLICT, details);
+    this.name = 'PreviousOrderConflictException';
+  }
+}
 
+/**
+ * Error thrown when an order fails pre-trade validation, before it is signed
+ */
+export class OrderValidationException extends X10Error {
+  violations: OrderValidationViolation[];
 
+  constructor(message: string, violations: OrderValidationViolation[]) {
+    super(message);
+    this.name = 'OrderValidationException';
+    this.violations = violations;
+  }
+}
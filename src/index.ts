@@ -27,19 +27,39 @@ export {
   SelfTradeProtectionLevel,
   OrderPriceType,
   OrderTriggerPriceType,
+  OrderTriggerDirection,
   NewOrderModel,
   PlacedOrderModel,
   OpenOrderModel,
   CreateOrderTpslTriggerModel,
+  CreateOrderConditionalTriggerModel,
 } from './perpetual/orders';
 
 // Trading Client
-export { PerpetualTradingClient } from './perpetual/trading-client/trading-client';
+export { PerpetualTradingClient, PlaceOrderOptions, PlaceOrderResult } from './perpetual/trading-client/trading-client';
 export { AccountModule } from './perpetual/trading-client/account-module';
 export { OrderManagementModule } from './perpetual/trading-client/order-management-module';
 export { MarketsInformationModule } from './perpetual/trading-client/markets-information-module';
 export { InfoModule } from './perpetual/trading-client/info-module';
 export { TestnetModule } from './perpetual/trading-client/testnet-module';
+export { TwapExecutor, TwapOptions, TwapSlice, TwapProgress, TwapStatus } from './perpetual/trading-client/twap-executor';
+export {
+  OrderTracker,
+  OrderTrackerOptions,
+  TrackedOrder,
+  OrderStateSource,
+  ReconcileResult,
+} from './perpetual/trading-client/order-tracker';
+export {
+  PositionTracker,
+  PositionTrackerOptions,
+  PositionMetrics,
+  AccountMetrics,
+  PositionThresholds,
+  PositionThresholdType,
+  PositionThresholdEvent,
+  MarketStatsSource,
+} from './perpetual/trading-client/position-tracker';
 
 // User Client
 export { UserClient } from './perpetual/user-client/user-client';
@@ -47,16 +67,71 @@ export { OnBoardedAccount, StarkKeyPair } from './perpetual/user-client/onboardi
 
 // Stream Client
 export { PerpetualStreamClient } from './perpetual/stream-client/stream-client';
-export { PerpetualStreamConnection } from './perpetual/stream-client/perpetual-stream-connection';
-export { OrderbookSubscription, OrderbookEntry, FullOrderbookSnapshot } from './perpetual/stream-client/orderbook-subscription';
-export { AccountSubscription, AccountOrder, AccountPosition, AccountBalance, FullAccountSnapshot } from './perpetual/stream-client/account-subscription';
+export {
+  StreamMultiplexer,
+  MultiplexedStream,
+  StreamChannel,
+  OverflowPolicy,
+  StreamMultiplexerOptions,
+} from './perpetual/stream-client/stream-multiplexer';
+export {
+  PerpetualStreamConnection,
+  ConnectionState,
+  ReconnectPolicy,
+  DEFAULT_RECONNECT_POLICY,
+  StreamConnection,
+  StreamConnectionOptions,
+} from './perpetual/stream-client/perpetual-stream-connection';
+export {
+  OrderbookSubscription,
+  FullOrderbookSnapshot,
+  OrderbookResyncReason,
+  OrderbookResyncEvent,
+  OrderbookSnapshotSource,
+  OrderbookSubscriptionOptions,
+} from './perpetual/stream-client/orderbook-subscription';
+export { OrderbookLevels, OrderbookEntry, OrderbookSide } from './perpetual/stream-client/orderbook-levels';
+export {
+  OrderbookSides,
+  OrderbookDepth,
+  DepthLimit,
+  MarketOrderEstimate,
+  getSpread,
+  getSpreadBps,
+  getMicroprice,
+  getCumulativeDepth,
+  estimateMarketOrder,
+  getImbalance,
+} from './perpetual/stream-client/orderbook-analytics';
+export {
+  AccountSubscription,
+  AccountSubscriptionOptions,
+  AccountOrderSource,
+  AccountOrder,
+  AccountPosition,
+  AccountBalance,
+  AccountTrade,
+  FullAccountSnapshot,
+  OrderChangeEvent,
+  OrderFillEvent,
+  OrderCancelledEvent,
+  PositionChangeEvent,
+  BalanceChangeEvent,
+} from './perpetual/stream-client/account-subscription';
+export { StreamSubscription } from './perpetual/stream-client/stream-subscription';
+export { PublicTradesSubscription } from './perpetual/stream-client/public-trades-subscription';
+export { FundingRateSubscription } from './perpetual/stream-client/funding-rate-subscription';
+export { CandleSubscription, CandleSubscriptionOptions, CandleUpdate } from './perpetual/stream-client/candle-subscription';
 
 // Positions & Trades
 export { PositionModel, PositionHistoryModel, PositionSide, PositionStatus, ExitType } from './perpetual/positions';
 export { AccountTradeModel, PublicTradeModel, TradeType } from './perpetual/trades';
+export { FundingRateModel } from './perpetual/funding-rates';
+export { CandleModel, CandleType, CandleInterval } from './perpetual/candles';
 
 // Order Objects
-export { createOrderObject, OrderTpslTriggerParam } from './perpetual/order-object';
+export { createOrderObject, OrderTpslTriggerParam, OrderConditionalTriggerParam } from './perpetual/order-object';
+export { validateOrder, OrderValidationViolation } from './perpetual/order-validation';
 
 // Markets
 export { MarketModel, MarketStatsModel, TradingConfigModel } from './perpetual/markets';
@@ -68,12 +143,76 @@ export { Asset, AssetOperationType, AssetOperationStatus } from './perpetual/ass
 export { TradingFeeModel, DEFAULT_FEES } from './perpetual/fees';
 
 // Errors
-export { X10Error, RateLimitException, NotAuthorizedException, SubAccountExists } from './errors';
+export {
+  X10Error,
+  X10ApiException,
+  ApiErrorDetails,
+  RateLimitException,
+  NotAuthorizedException,
+  InsufficientFundsException,
+  MarketNotFoundException,
+  ServerException,
+  InvalidOrderException,
+  RequestTimeoutException,
+  DeserializationException,
+  StreamOverflowException,
+  OrderWaitTimeoutException,
+  SubAccountExists,
+  OrderReplaceException,
+  PreviousOrderNotFoundException,
+  PreviousOrderTriggeredException,
+  PreviousOrderConflictException,
+  OrderValidationException,
+} from './errors';
 
 // Utils
-export { WrappedApiResponse, WrappedStreamResponse, StreamDataType } from './utils/http';
+export { WrappedApiResponse, WrappedStreamResponse, StreamDataType, createOrderRejectedException } from './utils/http';
+export {
+  RetryPolicy,
+  RetryOptions,
+  DEFAULT_RETRY_POLICY,
+  NO_RETRY_POLICY,
+  withRetry,
+} from './utils/retry';
+export {
+  HttpTransport,
+  HttpRequest,
+  HttpResponse,
+  HttpMethod,
+  FetchFunction,
+  FetchTransport,
+  UndiciTransport,
+  UndiciTransportOptions,
+  createDefaultHttpTransport,
+  getDefaultHttpTransport,
+  setDefaultHttpTransport,
+} from './utils/http-transport';
+export {
+  RateLimiter,
+  EndpointGroup,
+  TokenBucketConfig,
+  RateLimiterConfig,
+  RateLimiterMetrics,
+  DEFAULT_RATE_LIMITS,
+} from './utils/rate-limiter';
+export { deserialize, ModelType, ModelSchema, FieldType, FieldSpec } from './utils/deserialize';
+export {
+  paginate,
+  PaginationOptions,
+  TimeRangeOptions,
+  PaginateOptions,
+  PageFetcher,
+} from './utils/pagination';
 export { X10BaseModel, SettlementSignatureModel } from './utils/model';
-export { generateNonce } from './utils/nonce';
+export {
+  generateNonce,
+  NonceProvider,
+  CryptoRandomNonceProvider,
+  MonotonicNonceProvider,
+  FileNonceProvider,
+  getDefaultNonceProvider,
+  setDefaultNonceProvider,
+} from './utils/nonce';
 export { utcNow, toEpochMillis } from './utils/date';
 
 // Market utilities
@@ -4,8 +4,11 @@
 
 import Decimal from 'decimal.js';
 import { X10BaseModel } from '../utils/model';
+import { ModelSchema } from '../utils/deserialize';
 import { isHexString } from '../utils/string';
 import { sign as wasmSign } from './crypto/signer';
+import { TradingFeeModel } from './fees';
+import { NonceProvider, getDefaultNonceProvider } from '../utils/nonce';
 
 /**
  * Stark Perpetual Account
@@ -16,9 +19,16 @@ export class StarkPerpetualAccount {
   private privateKey: bigint;
   private publicKey: bigint;
   private apiKey: string;
-  private tradingFee: Map<string, any> = new Map();
+  private tradingFee: Map<string, TradingFeeModel> = new Map();
+  private nonceProvider?: NonceProvider;
 
-  constructor(vault: number | string, privateKey: string, publicKey: string, apiKey: string) {
+  constructor(
+    vault: number | string,
+    privateKey: string,
+    publicKey: string,
+    apiKey: string,
+    nonceProvider?: NonceProvider
+  ) {
     if (!isHexString(privateKey)) {
       throw new Error('Invalid private key format');
     }
@@ -39,6 +49,7 @@ export class StarkPerpetualAccount {
     this.privateKey = BigInt('0x' + cleanPrivateKey);
     this.publicKey = BigInt('0x' + cleanPublicKey);
     this.apiKey = apiKey;
+    this.nonceProvider = nonceProvider;
   }
 
   getVault(): number {
@@ -57,14 +68,35 @@ export class StarkPerpetualAccount {
     return this.apiKey;
   }
 
-  getTradingFee(): Map<string, any> {
+  /**
+   * Get cached trading fees by market name
+   */
+  getTradingFee(): Map<string, TradingFeeModel> {
     return this.tradingFee;
   }
 
-  setTradingFee(market: string, fee: any): void {
+  /**
+   * Get cached trading fee for a market, if known
+   */
+  getTradingFeeForMarket(market: string): TradingFeeModel | undefined {
+    return this.tradingFee.get(market);
+  }
+
+  setTradingFee(market: string, fee: TradingFeeModel): void {
     this.tradingFee.set(market, fee);
   }
 
+  /**
+   * Get the nonce provider used for orders, transfers and withdrawals signed by this account
+   */
+  getNonceProvider(): NonceProvider {
+    return this.nonceProvider || getDefaultNonceProvider();
+  }
+
+  setNonceProvider(nonceProvider: NonceProvider): void {
+    this.nonceProvider = nonceProvider;
+  }
+
   /**
    * Sign a message hash
    * Returns [r, s] tuple
@@ -78,6 +110,17 @@ export class StarkPerpetualAccount {
  * Account model
  */
 export class AccountModel extends X10BaseModel {
+  static schema: ModelSchema = {
+    id: 'number',
+    description: { type: 'string', optional: true },
+    accountIndex: { type: 'number', optional: true },
+    status: { type: 'string', optional: true },
+    l2Key: { type: 'string', optional: true },
+    l2Vault: { type: 'number', optional: true },
+    bridgeStarknetAddress: { type: 'string', optional: true },
+    apiKeys: { type: 'string', array: true, optional: true },
+  };
+
   id: number;
   description: string;
   accountIndex: number;
@@ -113,6 +156,11 @@ export class AccountModel extends X10BaseModel {
  * Account leverage model
  */
 export class AccountLeverage extends X10BaseModel {
+  static schema: ModelSchema = {
+    market: 'string',
+    leverage: 'decimal',
+  };
+
   market: string;
   leverage: Decimal;
 
@@ -151,6 +199,18 @@ export class ApiKeyRequestModel extends X10BaseModel {
  * Balance model
  */
 export class BalanceModel extends X10BaseModel {
+  static schema: ModelSchema = {
+    collateralName: { type: 'string', optional: true },
+    balance: 'decimal',
+    equity: 'decimal',
+    availableForTrade: 'decimal',
+    availableForWithdrawal: { type: 'decimal', optional: true },
+    unrealisedPnl: { type: 'decimal', optional: true },
+    initialMargin: { type: 'decimal', optional: true },
+    marginRatio: { type: 'decimal', optional: true },
+    updatedTime: { type: 'number', optional: true },
+  };
+
   collateralName: string;
   balance: Decimal;
   equity: Decimal;
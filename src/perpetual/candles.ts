@@ -4,6 +4,7 @@
 
 import Decimal from 'decimal.js';
 import { X10BaseModel } from '../utils/model';
+import { ModelSchema } from '../utils/deserialize';
 
 /**
  * Candle type
@@ -19,6 +20,15 @@ export type CandleInterval = 'PT1M' | 'PT5M' | 'PT15M' | 'PT30M' | 'PT1H' | 'PT2
  * Candle model
  */
 export class CandleModel extends X10BaseModel {
+  static schema: ModelSchema = {
+    open: 'decimal',
+    low: 'decimal',
+    high: 'decimal',
+    close: 'decimal',
+    volume: { type: 'decimal', optional: true },
+    timestamp: 'number',
+  };
+
   open: Decimal;
   low: Decimal;
   high: Decimal;
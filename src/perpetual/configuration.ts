@@ -2,6 +2,8 @@
  * Configuration types and constants for X10 Perpetual API
  */
 
+import { HttpTransport } from '../utils/http-transport';
+
 /**
  * StarkNet domain configuration
  */
@@ -34,6 +36,8 @@ export class EndpointConfig {
   collateralDecimals: number;
   collateralAssetId: string;
   starknetDomain: StarknetDomain;
+  /** Transport for REST requests of clients using this config; see `PerpetualTradingClient` options */
+  httpTransport?: HttpTransport;
 
   constructor(
     chainRpcUrl: string,
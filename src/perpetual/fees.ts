@@ -4,11 +4,19 @@
 
 import Decimal from 'decimal.js';
 import { X10BaseModel } from '../utils/model';
+import { ModelSchema } from '../utils/deserialize';
 
 /**
  * Trading fee model
  */
 export class TradingFeeModel extends X10BaseModel {
+  static schema: ModelSchema = {
+    market: 'string',
+    makerFeeRate: 'decimal',
+    takerFeeRate: 'decimal',
+    builderFeeRate: { type: 'decimal', optional: true },
+  };
+
   market: string;
   makerFeeRate: Decimal;
   takerFeeRate: Decimal;
@@ -4,11 +4,18 @@
 
 import Decimal from 'decimal.js';
 import { X10BaseModel } from '../utils/model';
+import { ModelSchema } from '../utils/deserialize';
 
 /**
  * Funding rate model
  */
 export class FundingRateModel extends X10BaseModel {
+  static schema: ModelSchema = {
+    market: 'string',
+    fundingRate: 'decimal',
+    timestamp: 'number',
+  };
+
   market: string;
   fundingRate: Decimal;
   timestamp: number;
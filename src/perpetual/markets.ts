@@ -4,12 +4,18 @@
 
 import Decimal from 'decimal.js';
 import { X10BaseModel } from '../utils/model';
+import { ModelSchema } from '../utils/deserialize';
 import { Asset } from './assets';
 
 /**
  * Risk factor config
  */
 export class RiskFactorConfig extends X10BaseModel {
+  static schema: ModelSchema = {
+    upperBound: 'decimal',
+    riskFactor: 'decimal',
+  };
+
   upperBound: Decimal;
   riskFactor: Decimal;
 
@@ -22,6 +28,23 @@ export class RiskFactorConfig extends X10BaseModel {
  * Market stats model
  */
 export class MarketStatsModel extends X10BaseModel {
+  static schema: ModelSchema = {
+    dailyVolume: { type: 'decimal', optional: true },
+    dailyVolumeBase: { type: 'decimal', optional: true },
+    dailyPriceChange: { type: 'decimal', optional: true },
+    dailyLow: { type: 'decimal', optional: true },
+    dailyHigh: { type: 'decimal', optional: true },
+    lastPrice: { type: 'decimal', optional: true },
+    askPrice: { type: 'decimal', optional: true },
+    bidPrice: { type: 'decimal', optional: true },
+    markPrice: { type: 'decimal', optional: true },
+    indexPrice: { type: 'decimal', optional: true },
+    fundingRate: { type: 'decimal', optional: true },
+    nextFundingRate: { type: 'number', optional: true },
+    openInterest: { type: 'decimal', optional: true },
+    openInterestBase: { type: 'decimal', optional: true },
+  };
+
   dailyVolume: Decimal;
   dailyVolumeBase: Decimal;
   dailyPriceChange: Decimal;
@@ -42,6 +65,20 @@ export class MarketStatsModel extends X10BaseModel {
  * Trading config model
  */
 export class TradingConfigModel extends X10BaseModel {
+  static schema: ModelSchema = {
+    minOrderSize: 'decimal',
+    minOrderSizeChange: 'decimal',
+    minPriceChange: 'decimal',
+    maxMarketOrderValue: { type: 'decimal', optional: true },
+    maxLimitOrderValue: { type: 'decimal', optional: true },
+    maxPositionValue: { type: 'decimal', optional: true },
+    maxLeverage: { type: 'decimal', optional: true },
+    maxNumOrders: { type: 'number', optional: true },
+    limitPriceCap: { type: 'decimal', optional: true },
+    limitPriceFloor: { type: 'decimal', optional: true },
+    riskFactorConfig: { type: RiskFactorConfig, array: true, optional: true },
+  };
+
   minOrderSize: Decimal;
   minOrderSizeChange: Decimal;
   minPriceChange: Decimal;
@@ -105,6 +142,14 @@ export class TradingConfigModel extends X10BaseModel {
  * L2 config model
  */
 export class L2ConfigModel extends X10BaseModel {
+  static schema: ModelSchema = {
+    type: { type: 'string', optional: true },
+    collateralId: 'string',
+    collateralResolution: 'number',
+    syntheticId: 'string',
+    syntheticResolution: 'number',
+  };
+
   type: string;
   collateralId: string;
   collateralResolution: number;
@@ -116,6 +161,18 @@ export class L2ConfigModel extends X10BaseModel {
  * Market model
  */
 export class MarketModel extends X10BaseModel {
+  static schema: ModelSchema = {
+    name: 'string',
+    assetName: 'string',
+    assetPrecision: 'number',
+    collateralAssetName: { type: 'string', optional: true },
+    collateralAssetPrecision: { type: 'number', optional: true },
+    active: { type: 'boolean', optional: true },
+    marketStats: { type: MarketStatsModel, optional: true },
+    tradingConfig: TradingConfigModel,
+    l2Config: L2ConfigModel,
+  };
+
   name: string;
   assetName: string;
   assetPrecision: number;
@@ -124,12 +124,15 @@ export function hashOrder(
 
 /**
  * Create order settlement data
+ *
+ * The max fee is signed with `feeRate` (taker rate by default) plus the builder fee.
  */
 export function createOrderSettlementData(
   side: OrderSide,
   syntheticAmount: Decimal,
   price: Decimal,
-  ctx: SettlementDataCtx
+  ctx: SettlementDataCtx,
+  feeRate: Decimal = ctx.fees.takerFeeRate
 ): OrderSettlementData {
   const isBuyingSynthetic = side === OrderSide.BUY;
   const roundingContext = isBuyingSynthetic ? ROUNDING_BUY_CONTEXT : ROUNDING_SELL_CONTEXT;
@@ -140,7 +143,7 @@ export function createOrderSettlementData(
     ctx.market.collateralAsset
   );
 
-  const totalFee = ctx.fees.takerFeeRate.plus(ctx.builderFee || new Decimal(0));
+  const totalFee = feeRate.plus(ctx.builderFee || new Decimal(0));
   const feeAmountHuman = new HumanReadableAmount(
     totalFee.mul(collateralAmountHuman.value),
     ctx.market.collateralAsset
@@ -10,12 +10,14 @@ import {
   OrderSide,
   OrderTpslType,
   OrderTriggerPriceType,
+  OrderTriggerDirection,
   OrderPriceType,
   SelfTradeProtectionLevel,
   TimeInForce,
   OrderType,
   NewOrderModel,
   CreateOrderTpslTriggerModel,
+  CreateOrderConditionalTriggerModel,
   StarkSettlementModel,
 } from './orders';
 import {
@@ -23,12 +25,16 @@ import {
   SettlementDataCtx,
   createOrderSettlementData,
 } from './order-object-settlement';
-import { generateNonce } from '../utils/nonce';
 import { utcNow, toEpochMillis } from '../utils/date';
 import { DEFAULT_FEES } from './fees';
+import { validateOrder } from './order-validation';
+import { OrderValidationException } from '../errors';
 
 /**
  * Order TPSL trigger parameter
+ *
+ * For `MARKET` price type, `price` is the worst acceptable execution price and is
+ * still used to sign the trigger leg.
  */
 export class OrderTpslTriggerParam {
   triggerPrice: Decimal;
@@ -49,6 +55,28 @@ export class OrderTpslTriggerParam {
   }
 }
 
+/**
+ * Conditional order trigger parameter
+ */
+export class OrderConditionalTriggerParam {
+  triggerPrice: Decimal;
+  triggerPriceType: OrderTriggerPriceType;
+  direction: OrderTriggerDirection;
+  executionPriceType: OrderPriceType;
+
+  constructor(
+    triggerPrice: Decimal,
+    triggerPriceType: OrderTriggerPriceType,
+    direction: OrderTriggerDirection,
+    executionPriceType: OrderPriceType
+  ) {
+    this.triggerPrice = triggerPrice;
+    this.triggerPriceType = triggerPriceType;
+    this.direction = direction;
+    this.executionPriceType = executionPriceType;
+  }
+}
+
 /**
  * Get opposite order side
  */
@@ -75,6 +103,10 @@ function createOrderTpslTriggerModel(
 
 /**
  * Create an order object to be placed on the exchange
+ *
+ * With `validate`, the order is checked by `validateOrder` (using `markPrice` for
+ * the limit price cap/floor when given) and an `OrderValidationException` is thrown
+ * before anything is signed.
  */
 export function createOrderObject(
   account: StarkPerpetualAccount,
@@ -98,6 +130,9 @@ export function createOrderObject(
     tpSlType?: OrderTpslType;
     takeProfit?: OrderTpslTriggerParam;
     stopLoss?: OrderTpslTriggerParam;
+    trigger?: OrderConditionalTriggerParam;
+    validate?: boolean;
+    markPrice?: Decimal;
   } = {}
 ): NewOrderModel {
   const {
@@ -115,6 +150,9 @@ export function createOrderObject(
     tpSlType,
     takeProfit,
     stopLoss,
+    trigger,
+    validate = false,
+    markPrice,
   } = options;
 
   let finalExpireTime = expireTime;
@@ -135,19 +173,50 @@ export function createOrderObject(
 
   // Validate TPSL
   if (tpSlType === OrderTpslType.POSITION) {
-    throw new Error('`POSITION` TPSL type is not supported yet');
+    if (orderType !== OrderType.TPSL) {
+      throw new Error('`POSITION` TPSL type requires `TPSL` order type');
+    }
+    if (!takeProfit && !stopLoss) {
+      throw new Error('`POSITION` TPSL order requires a take profit or a stop loss');
+    }
   }
 
-  if (
-    (takeProfit && takeProfit.priceType === OrderPriceType.MARKET) ||
-    (stopLoss && stopLoss.priceType === OrderPriceType.MARKET)
-  ) {
-    throw new Error('TPSL `MARKET` price type is not supported yet');
+  // Validate conditional trigger
+  if (orderType === OrderType.CONDITIONAL) {
+    if (!trigger) {
+      throw new Error('`CONDITIONAL` order requires a trigger');
+    }
+    if (trigger.direction !== OrderTriggerDirection.UP && trigger.direction !== OrderTriggerDirection.DOWN) {
+      throw new Error(`Unexpected trigger direction value: ${trigger.direction}`);
+    }
+  } else if (trigger) {
+    throw new Error('Trigger is only supported for `CONDITIONAL` orders');
   }
 
-  const finalNonce = nonce || generateNonce();
-  const fees = (account.getTradingFee().get(market.name) as any) || DEFAULT_FEES;
-  const feeRate = fees.takerFeeRate;
+  // Validate against market trading config before signing
+  if (validate) {
+    const executesAsMarket =
+      orderType === OrderType.MARKET || trigger?.executionPriceType === OrderPriceType.MARKET;
+    const violations = validateOrder(market, {
+      side,
+      qty: amountOfSynthetic,
+      price,
+      orderType: executesAsMarket ? OrderType.MARKET : OrderType.LIMIT,
+      markPrice,
+      tpSlType,
+    });
+    if (violations.length > 0) {
+      throw new OrderValidationException(
+        `Invalid order for ${market.name}: ${violations.map((v) => v.message).join('; ')}`,
+        violations
+      );
+    }
+  }
+
+  const finalNonce = nonce || account.getNonceProvider().next();
+  // Post-only orders can only execute as maker; everything else may take liquidity
+  const fees = account.getTradingFeeForMarket(market.name) || DEFAULT_FEES;
+  const feeRate = postOnly ? fees.makerFeeRate : fees.takerFeeRate;
 
   const settlementDataCtx = new SettlementDataCtx(
     market,
@@ -165,13 +234,18 @@ export function createOrderObject(
     side,
     amountOfSynthetic,
     price,
-    settlementDataCtx
+    settlementDataCtx,
+    feeRate
   );
 
+  // Order TPSL legs close the position opened by the parent order, while position
+  // TPSL orders are already on the closing side and their legs cover the full position
+  const triggerSide = tpSlType === OrderTpslType.POSITION ? side : getOppositeSide(side);
+
   let tpTriggerModel: CreateOrderTpslTriggerModel | undefined;
   if (takeProfit) {
     const tpSettlementData = createOrderSettlementData(
-      getOppositeSide(side),
+      triggerSide,
       amountOfSynthetic,
       takeProfit.price,
       settlementDataCtx
@@ -182,7 +256,7 @@ export function createOrderObject(
   let slTriggerModel: CreateOrderTpslTriggerModel | undefined;
   if (stopLoss) {
     const slSettlementData = createOrderSettlementData(
-      getOppositeSide(side),
+      triggerSide,
       amountOfSynthetic,
       stopLoss.price,
       settlementDataCtx
@@ -212,7 +286,15 @@ export function createOrderObject(
     tpTriggerModel,
     slTriggerModel,
     builderFee,
-    builderId
+    builderId,
+    trigger
+      ? new CreateOrderConditionalTriggerModel(
+          trigger.triggerPrice,
+          trigger.triggerPriceType,
+          trigger.direction,
+          trigger.executionPriceType
+        )
+      : undefined
   );
 
   return order;
@@ -0,0 +1,117 @@
+/**
+ * Pre-trade order validation against market trading config
+ */
+
+import Decimal from 'decimal.js';
+import { MarketModel } from './markets';
+import { OrderSide, OrderStatusReason, OrderTpslType, OrderType } from './orders';
+
+/**
+ * Single order validation violation. `reason` matches the status reason the
+ * exchange would reject the order with.
+ */
+export interface OrderValidationViolation {
+  reason: OrderStatusReason;
+  field: 'qty' | 'price' | 'value';
+  message: string;
+}
+
+/**
+ * Validate order parameters against the market trading config
+ *
+ * Checks quantity against `minOrderSize` / `minOrderSizeChange`, price against
+ * `minPriceChange` and, when `markPrice` is given, against `limitPriceCap` (buy) /
+ * `limitPriceFloor` (sell), and order value against `maxMarketOrderValue` or
+ * `maxLimitOrderValue`. The value check is skipped for `POSITION` TP/SL orders,
+ * which close the whole position whatever its value. Returns an empty list when
+ * the order is valid.
+ */
+export function validateOrder(
+  market: MarketModel,
+  order: {
+    side: OrderSide;
+    qty: Decimal;
+    price: Decimal;
+    orderType?: OrderType;
+    markPrice?: Decimal;
+    tpSlType?: OrderTpslType;
+  }
+): OrderValidationViolation[] {
+  const config = market.tradingConfig;
+  const violations: OrderValidationViolation[] = [];
+  const { side, qty, price, orderType = OrderType.LIMIT, markPrice, tpSlType } = order;
+
+  if (qty.lte(0)) {
+    violations.push({
+      reason: OrderStatusReason.INVALID_QTY,
+      field: 'qty',
+      message: `Quantity must be positive, got ${qty.toString()}`,
+    });
+  } else {
+    if (qty.lt(config.minOrderSize)) {
+      violations.push({
+        reason: OrderStatusReason.INVALID_QTY,
+        field: 'qty',
+        message: `Quantity ${qty.toString()} is below min order size ${config.minOrderSize.toString()}`,
+      });
+    }
+    if (!qty.mod(config.minOrderSizeChange).isZero()) {
+      violations.push({
+        reason: OrderStatusReason.INVALID_QTY,
+        field: 'qty',
+        message: `Quantity ${qty.toString()} is not a multiple of min order size change ${config.minOrderSizeChange.toString()}`,
+      });
+    }
+  }
+
+  if (price.lte(0)) {
+    violations.push({
+      reason: OrderStatusReason.INVALID_PRICE,
+      field: 'price',
+      message: `Price must be positive, got ${price.toString()}`,
+    });
+  } else {
+    if (!price.mod(config.minPriceChange).isZero()) {
+      violations.push({
+        reason: OrderStatusReason.INVALID_PRICE,
+        field: 'price',
+        message: `Price ${price.toString()} is not a multiple of min price change ${config.minPriceChange.toString()}`,
+      });
+    }
+
+    if (markPrice && orderType !== OrderType.MARKET) {
+      if (side === OrderSide.BUY && config.limitPriceCap) {
+        const maxPrice = markPrice.mul(new Decimal(1).plus(config.limitPriceCap));
+        if (price.gt(maxPrice)) {
+          violations.push({
+            reason: OrderStatusReason.INVALID_PRICE,
+            field: 'price',
+            message: `Buy price ${price.toString()} is above limit price cap ${maxPrice.toString()}`,
+          });
+        }
+      }
+      if (side === OrderSide.SELL && config.limitPriceFloor) {
+        const minPrice = markPrice.mul(new Decimal(1).minus(config.limitPriceFloor));
+        if (price.lt(minPrice)) {
+          violations.push({
+            reason: OrderStatusReason.INVALID_PRICE,
+            field: 'price',
+            message: `Sell price ${price.toString()} is below limit price floor ${minPrice.toString()}`,
+          });
+        }
+      }
+    }
+  }
+
+  const value = qty.mul(price);
+  const maxValue = orderType === OrderType.MARKET ? config.maxMarketOrderValue : config.maxLimitOrderValue;
+  if (maxValue && tpSlType !== OrderTpslType.POSITION && value.gt(maxValue)) {
+    violations.push({
+      reason: OrderStatusReason.INVALID_VALUE,
+      field: 'value',
+      message: `Order value ${value.toString()} exceeds max ${orderType === OrderType.MARKET ? 'market' : 'limit'} order value ${maxValue.toString()}`,
+    });
+  }
+
+  return violations;
+}
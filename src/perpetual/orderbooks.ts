@@ -4,11 +4,17 @@
 
 import Decimal from 'decimal.js';
 import { X10BaseModel } from '../utils/model';
+import { ModelSchema } from '../utils/deserialize';
 
 /**
  * Orderbook quantity model
  */
 export class OrderbookQuantityModel extends X10BaseModel {
+  static schema: ModelSchema = {
+    qty: 'decimal',
+    price: 'decimal',
+  };
+
   qty: Decimal;
   price: Decimal;
 
@@ -23,6 +29,12 @@ export class OrderbookQuantityModel extends X10BaseModel {
  * Orderbook update model
  */
 export class OrderbookUpdateModel extends X10BaseModel {
+  static schema: ModelSchema = {
+    market: 'string',
+    bid: { type: OrderbookQuantityModel, array: true, optional: true },
+    ask: { type: OrderbookQuantityModel, array: true, optional: true },
+  };
+
   market: string;
   bid: OrderbookQuantityModel[];
   ask: OrderbookQuantityModel[];
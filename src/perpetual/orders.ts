@@ -4,6 +4,7 @@
 
 import Decimal from 'decimal.js';
 import { X10BaseModel, SettlementSignatureModel } from '../utils/model';
+import { ModelSchema } from '../utils/deserialize';
 
 /**
  * Time in force
@@ -183,6 +184,29 @@ export class CreateOrderTpslTriggerModel extends X10BaseModel {
   }
 }
 
+/**
+ * Conditional order trigger model
+ */
+export class CreateOrderConditionalTriggerModel extends X10BaseModel {
+  triggerPrice: Decimal;
+  triggerPriceType: OrderTriggerPriceType;
+  direction: OrderTriggerDirection;
+  executionPriceType: OrderPriceType;
+
+  constructor(
+    triggerPrice: Decimal,
+    triggerPriceType: OrderTriggerPriceType,
+    direction: OrderTriggerDirection,
+    executionPriceType: OrderPriceType
+  ) {
+    super();
+    this.triggerPrice = triggerPrice;
+    this.triggerPriceType = triggerPriceType;
+    this.direction = direction;
+    this.executionPriceType = executionPriceType;
+  }
+}
+
 /**
  * New order model
  */
@@ -208,6 +232,7 @@ export class NewOrderModel extends X10BaseModel {
   builderFee?: Decimal;
   builderId?: number;
   reduceOnly: boolean;
+  trigger?: CreateOrderConditionalTriggerModel;
 
   constructor(
     id: string,
@@ -230,7 +255,8 @@ export class NewOrderModel extends X10BaseModel {
     takeProfit?: CreateOrderTpslTriggerModel,
     stopLoss?: CreateOrderTpslTriggerModel,
     builderFee?: Decimal,
-    builderId?: number
+    builderId?: number,
+    trigger?: CreateOrderConditionalTriggerModel
   ) {
     super();
     this.id = id;
@@ -254,6 +280,7 @@ export class NewOrderModel extends X10BaseModel {
     this.builderFee = builderFee;
     this.builderId = builderId;
     this.reduceOnly = reduceOnly;
+    this.trigger = trigger;
   }
 }
 
@@ -261,6 +288,30 @@ export class NewOrderModel extends X10BaseModel {
  * Open order model
  */
 export class OpenOrderModel extends X10BaseModel {
+  static schema: ModelSchema = {
+    id: 'number',
+    accountId: { type: 'number', optional: true },
+    externalId: { type: 'string', optional: true },
+    market: 'string',
+    type: 'string',
+    side: 'string',
+    status: 'string',
+    statusReason: { type: 'string', optional: true },
+    price: { type: 'decimal', optional: true },
+    averagePrice: { type: 'decimal', optional: true },
+    qty: 'decimal',
+    filledQty: { type: 'decimal', optional: true },
+    reduceOnly: { type: 'boolean', optional: true },
+    postOnly: { type: 'boolean', optional: true },
+    timeInForce: { type: 'string', optional: true },
+    selfTradeProtectionLevel: { type: 'string', optional: true },
+    createdTime: { type: 'number', optional: true },
+    updatedTime: { type: 'number', optional: true },
+    expiryTime: { type: 'number', optional: true },
+    builderFee: { type: 'decimal', optional: true },
+    builderId: { type: 'number', optional: true },
+  };
+
   id: number;
   accountId: number;
   externalId: string;
@@ -275,9 +326,13 @@ export class OpenOrderModel extends X10BaseModel {
   filledQty?: Decimal;
   reduceOnly: boolean;
   postOnly: boolean;
+  timeInForce?: TimeInForce;
+  selfTradeProtectionLevel?: SelfTradeProtectionLevel;
   createdTime: number;
   updatedTime: number;
   expiryTime?: number;
+  builderFee?: Decimal;
+  builderId?: number;
 }
 
 /**
@@ -285,6 +340,7 @@ export class OpenOrderModel extends X10BaseModel {
  */
 export class PlacedOrderModel extends X10BaseModel {
   id: string;
+  externalId?: string;
   market: string;
   type: OrderType;
   side: OrderSide;
@@ -4,6 +4,7 @@
 
 import Decimal from 'decimal.js';
 import { X10BaseModel } from '../utils/model';
+import { ModelSchema } from '../utils/deserialize';
 
 /**
  * Exit type
@@ -34,6 +35,25 @@ export enum PositionStatus {
  * Position model
  */
 export class PositionModel extends X10BaseModel {
+  static schema: ModelSchema = {
+    id: { type: 'number', optional: true },
+    accountId: { type: 'number', optional: true },
+    market: 'string',
+    status: { type: 'string', optional: true },
+    side: 'string',
+    leverage: { type: 'decimal', optional: true },
+    size: 'decimal',
+    value: { type: 'decimal', optional: true },
+    openPrice: { type: 'decimal', optional: true },
+    markPrice: { type: 'decimal', optional: true },
+    liquidationPrice: { type: 'decimal', optional: true },
+    unrealisedPnl: { type: 'decimal', optional: true },
+    realisedPnl: { type: 'decimal', optional: true },
+    tpPrice: { type: 'decimal', optional: true },
+    slPrice: { type: 'decimal', optional: true },
+    adl: { type: 'number', optional: true },
+  };
+
   id: number;
   accountId: number;
   market: string;
@@ -58,6 +78,13 @@ export class PositionModel extends X10BaseModel {
  * Realised PnL breakdown model
  */
 export class RealisedPnlBreakdownModel extends X10BaseModel {
+  static schema: ModelSchema = {
+    tradePnl: { type: 'decimal', optional: true },
+    fundingFees: { type: 'decimal', optional: true },
+    openFees: { type: 'decimal', optional: true },
+    closeFees: { type: 'decimal', optional: true },
+  };
+
   tradePnl: Decimal;
   fundingFees: Decimal;
   openFees: Decimal;
@@ -81,6 +108,23 @@ export class RealisedPnlBreakdownModel extends X10BaseModel {
  * Position history model
  */
 export class PositionHistoryModel extends X10BaseModel {
+  static schema: ModelSchema = {
+    id: { type: 'number', optional: true },
+    accountId: { type: 'number', optional: true },
+    market: 'string',
+    side: 'string',
+    size: 'decimal',
+    maxPositionSize: { type: 'decimal', optional: true },
+    leverage: { type: 'decimal', optional: true },
+    openPrice: { type: 'decimal', optional: true },
+    exitPrice: { type: 'decimal', optional: true },
+    realisedPnl: { type: 'decimal', optional: true },
+    realisedPnlBreakdown: { type: RealisedPnlBreakdownModel, optional: true },
+    createdTime: { type: 'number', optional: true },
+    exitType: { type: 'string', optional: true },
+    closedTime: { type: 'number', optional: true },
+  };
+
   id: number;
   accountId: number;
   market: string;
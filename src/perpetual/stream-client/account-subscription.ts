@@ -2,12 +2,15 @@
  * Account subscription with full state management
  * 
  * This subscription maintains the full account state (positions, orders, balance)
- * internally and emits complete snapshots on every update.
+ * internally and emits complete snapshots on every update, plus typed change events.
  */
 
-import { PerpetualStreamConnection } from './perpetual-stream-connection';
-import { WrappedStreamResponse } from '../../utils/http';
-import { OrderStatus } from '../orders';
+import { EventEmitter } from 'events';
+import Decimal from 'decimal.js';
+import { StreamConnection, ConnectionState } from './perpetual-stream-connection';
+import { WrappedApiResponse, WrappedStreamResponse } from '../../utils/http';
+import { OrderWaitTimeoutException } from '../../errors';
+import { OpenOrderModel, OrderStatus } from '../orders';
 
 export interface AccountOrder {
   id: number;
@@ -17,7 +20,9 @@ export interface AccountOrder {
   type: string;
   side: string;
   status: OrderStatus;
+  statusReason?: string;
   price: string;
+  averagePrice?: string;
   qty: string;
   filledQty: string;
   cancelledQty: string;
@@ -68,6 +73,21 @@ export interface AccountBalance {
   leverage: string;
 }
 
+export interface AccountTrade {
+  id: number;
+  accountId: number;
+  market: string;
+  orderId: number;
+  side: string;
+  price: string;
+  qty: string;
+  value: string;
+  fee: string;
+  isTaker: boolean;
+  tradeType: string;
+  createdTime: number;
+}
+
 export interface FullAccountSnapshot {
   positions: AccountPosition[];
   orders: AccountOrder[];
@@ -76,14 +96,126 @@ export interface FullAccountSnapshot {
   sequence: number;
 }
 
-export class AccountSubscription {
-  private connection: PerpetualStreamConnection<any>;
+/**
+ * Order change with the order before it, `null` for an order not seen before
+ */
+export interface OrderChangeEvent {
+  order: AccountOrder;
+  previous: AccountOrder | null;
+}
+
+export interface OrderFillEvent extends OrderChangeEvent {
+  /** Quantity filled since the previous update */
+  fillQty: Decimal;
+}
+
+export interface OrderCancelledEvent extends OrderChangeEvent {
+  statusReason?: string;
+}
+
+/**
+ * Position change with the position before it, `null` for a position not seen before
+ */
+export interface PositionChangeEvent {
+  position: AccountPosition;
+  previous: AccountPosition | null;
+}
+
+export interface BalanceChangeEvent {
+  balance: AccountBalance;
+  previous: AccountBalance | null;
+}
+
+/**
+ * REST source of orders by ID, such as `AccountModule`
+ */
+export interface AccountOrderSource {
+  getOrderById(orderId: number): Promise<WrappedApiResponse<OpenOrderModel>>;
+}
+
+export interface AccountSubscriptionOptions {
+  /** Orders that reached a terminal status kept for lookups, oldest dropped first (default 1000) */
+  maxTerminalOrders?: number;
+  /** Source of the final state of open orders that closed while the stream was disconnected */
+  orderSource?: AccountOrderSource;
+}
+
+const DEFAULT_MAX_TERMINAL_ORDERS = 1000;
+
+type SnapshotType = 'ORDER' | 'POSITION' | 'BALANCE';
+
+const SNAPSHOT_TYPES: SnapshotType[] = ['ORDER', 'POSITION', 'BALANCE'];
+
+const TERMINAL_ORDER_STATUSES = new Set([
+  OrderStatus.FILLED,
+  OrderStatus.CANCELLED,
+  OrderStatus.EXPIRED,
+  OrderStatus.REJECTED,
+]);
+
+export interface AccountSubscription {
+  on(event: 'orderUpdated', listener: (event: OrderChangeEvent) => void): this;
+  on(event: 'orderCreated', listener: (event: OrderChangeEvent) => void): this;
+  on(event: 'orderPartiallyFilled', listener: (event: OrderFillEvent) => void): this;
+  on(event: 'orderFilled', listener: (event: OrderFillEvent) => void): this;
+  on(event: 'orderCancelled', listener: (event: OrderCancelledEvent) => void): this;
+  on(event: 'positionOpened', listener: (event: PositionChangeEvent) => void): this;
+  on(event: 'positionChanged', listener: (event: PositionChangeEvent) => void): this;
+  on(event: 'positionClosed', listener: (event: PositionChangeEvent) => void): this;
+  on(event: 'balanceChanged', listener: (event: BalanceChangeEvent) => void): this;
+  on(event: 'tradeExecuted', listener: (trade: AccountTrade) => void): this;
+  once(event: 'orderUpdated', listener: (event: OrderChangeEvent) => void): this;
+  once(event: 'orderCreated', listener: (event: OrderChangeEvent) => void): this;
+  once(event: 'orderPartiallyFilled', listener: (event: OrderFillEvent) => void): this;
+  once(event: 'orderFilled', listener: (event: OrderFillEvent) => void): this;
+  once(event: 'orderCancelled', listener: (event: OrderCancelledEvent) => void): this;
+  once(event: 'positionOpened', listener: (event: PositionChangeEvent) => void): this;
+  once(event: 'positionChanged', listener: (event: PositionChangeEvent) => void): this;
+  once(event: 'positionClosed', listener: (event: PositionChangeEvent) => void): this;
+  once(event: 'balanceChanged', listener: (event: BalanceChangeEvent) => void): this;
+  once(event: 'tradeExecuted', listener: (trade: AccountTrade) => void): this;
+}
+
+/**
+ * Account subscription
+ *
+ * Events are emitted while the subscription is iterated, before the snapshot reflecting
+ * the change is yielded:
+ * - `orderUpdated` - any order update, including orders reaching a terminal status
+ * - `orderCreated` - an order was seen for the first time
+ * - `orderPartiallyFilled` / `orderFilled` - the filled quantity of an order increased
+ * - `orderCancelled` - an order was cancelled, expired or rejected, with its status reason
+ * - `positionOpened` / `positionChanged` / `positionClosed` - position lifecycle
+ * - `balanceChanged` - the balance was updated
+ * - `tradeExecuted` - a trade of the account was executed
+ *
+ * The first snapshot of each kind initialises state without events; snapshots after a
+ * reconnect are compared with the state kept, so changes missed while disconnected are
+ * still reported. Positions missing from such a snapshot are reported as closed. Open
+ * orders missing from it are looked up with the `orderSource` option; without one, or when
+ * the lookup fails, they are reported through `orderUpdated` and `orderCancelled` with
+ * status `UNKNOWN`.
+ *
+ * A snapshot is yielded after every message that changes state. Messages are processed as
+ * the subscription is iterated, so `ready()` and `waitForOrder()` resolve only while it is
+ * being consumed.
+ */
+export class AccountSubscription extends EventEmitter {
+  private connection: StreamConnection<any>;
   private positions: Map<number, AccountPosition> = new Map();
   private orders: Map<number, AccountOrder> = new Map();
   private balance: AccountBalance | null = null;
   private lastSequence: number = 0;
   private lastTimestamp: number = 0;
-
+  private ordersInitialised: boolean = false;
+  private positionsInitialised: boolean = false;
+  // Terminal orders by ID, oldest first
+  private terminalOrders: Map<number, AccountOrder> = new Map();
+  private maxTerminalOrders: number;
+  private orderSource?: AccountOrderSource;
+  private receivedSnapshots: Set<SnapshotType> = new Set();
+  private readyWaiters: Array<{ resolve: (snapshot: FullAccountSnapshot) => void; reject: (error: Error) => void }> = [];
+  private orderWaiters: Set<(error: Error) => void> = new Set();
 
   // Order statuses to keep in the list
   private readonly ACTIVE_ORDER_STATUSES = new Set([
@@ -92,8 +224,15 @@ export class AccountSubscription {
     OrderStatus.PARTIALLY_FILLED,
   ]);
 
-  constructor(connection: PerpetualStreamConnection<any>) {
+  constructor(connection: StreamConnection<any>, options: AccountSubscriptionOptions = {}) {
+    super();
     this.connection = connection;
+    this.maxTerminalOrders = options.maxTerminalOrders ?? DEFAULT_MAX_TERMINAL_ORDERS;
+    this.orderSource = options.orderSource;
+    // State is kept until the fresh snapshots of the new connection replace it
+    this.connection.on('reconnected', () => {
+      this.lastSequence = 0;
+    });
   }
 
   async connect(): Promise<this> {
@@ -109,52 +248,260 @@ export class AccountSubscription {
     return this.connection.isClosed();
   }
 
-  private handleOrderSnapshot(orders: AccountOrder[]): void {
-    this.orders.clear();
-    for (const order of orders) {
-      if (this.ACTIVE_ORDER_STATUSES.has(order.status)) {
-        this.orders.set(order.id, order);
+  getConnectionState(): ConnectionState {
+    return this.connection.getState();
+  }
+
+  /**
+   * Register a listener for connection state changes. Returns a function that removes the listener.
+   */
+  onConnectionStateChange(listener: (state: ConnectionState, error?: Error) => void): () => void {
+    this.connection.on('stateChange', listener);
+    return () => {
+      this.connection.off('stateChange', listener);
+    };
+  }
+
+  /**
+   * Resolves with the account state once the order, position and balance snapshots have
+   * all been received. Rejects if the stream ends first.
+   */
+  ready(): Promise<FullAccountSnapshot> {
+    if (this.isReady()) {
+      return Promise.resolve(this.buildSnapshot());
+    }
+    return new Promise((resolve, reject) => {
+      this.readyWaiters.push({ resolve, reject });
+    });
+  }
+
+  isReady(): boolean {
+    return this.receivedSnapshots.size === SNAPSHOT_TYPES.length;
+  }
+
+  /**
+   * Wait for an order with `externalId` matching `predicate`, such as reaching a terminal
+   * status. Without a predicate, resolves with the first known state of the order.
+   * Known orders, including recent terminal ones, are checked first.
+   *
+   * @throws OrderWaitTimeoutException when no matching update arrives within `timeoutMs`
+   */
+  waitForOrder(
+    externalId: string,
+    predicate: (order: AccountOrder) => boolean = () => true,
+    timeoutMs?: number
+  ): Promise<AccountOrder> {
+    const known = this.getOrderByExternalId(externalId);
+    if (known && predicate(known)) {
+      return Promise.resolve(known);
+    }
+
+    return new Promise((resolve, reject) => {
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+      const cleanup = () => {
+        clearTimeout(timeoutId);
+        this.off('orderUpdated', onOrderUpdated);
+        this.orderWaiters.delete(fail);
+      };
+      const fail = (error: Error) => {
+        cleanup();
+        reject(error);
+      };
+      const onOrderUpdated = ({ order }: OrderChangeEvent) => {
+        if (order.externalId !== externalId) {
+          return;
+        }
+        try {
+          if (predicate(order)) {
+            cleanup();
+            resolve(order);
+          }
+        } catch (error) {
+          fail(error as Error);
+        }
+      };
+
+      this.on('orderUpdated', onOrderUpdated);
+      this.orderWaiters.add(fail);
+      if (timeoutMs !== undefined) {
+        timeoutId = setTimeout(
+          () => fail(new OrderWaitTimeoutException(`Timed out after ${timeoutMs}ms waiting for order ${externalId}`, externalId)),
+          timeoutMs
+        );
       }
+    });
+  }
+
+  private async handleOrderSnapshot(orders: AccountOrder[]): Promise<void> {
+    const previousOrders = orders.map((order) => this.findOrder(order.id));
+    const snapshotIds = new Set(orders.map((order) => order.id));
+    const missingOrders = this.ordersInitialised
+      ? Array.from(this.orders.values()).filter((order) => !snapshotIds.has(order.id))
+      : [];
+    const closedOrders = await Promise.all(missingOrders.map((order) => this.resolveMissingOrder(order)));
+
+    this.orders = new Map();
+    for (const order of orders) {
+      this.storeOrder(order);
+    }
+    orders.forEach((order, index) => this.emitOrderEvents(order, previousOrders[index], this.ordersInitialised));
+    closedOrders.forEach((order, index) => {
+      this.storeOrder(order);
+      this.emitOrderEvents(order, missingOrders[index], true);
+    });
+    this.ordersInitialised = true;
+  }
+
+  /**
+   * Final state of an open order missing from a snapshot after a reconnect, `UNKNOWN` if it
+   * cannot be looked up
+   */
+  private async resolveMissingOrder(order: AccountOrder): Promise<AccountOrder> {
+    let found: OpenOrderModel | undefined;
+    try {
+      found = (await this.orderSource?.getOrderById(order.id))?.data ?? undefined;
+    } catch {
+      found = undefined;
+    }
+    if (!found || this.ACTIVE_ORDER_STATUSES.has(found.status)) {
+      return { ...order, status: OrderStatus.UNKNOWN };
     }
+    return {
+      ...order,
+      status: found.status,
+      statusReason: found.statusReason ?? order.statusReason,
+      averagePrice: found.averagePrice?.toString() ?? order.averagePrice,
+      filledQty: found.filledQty?.toString() ?? order.filledQty,
+      updatedTime: found.updatedTime ?? order.updatedTime,
+    };
   }
 
   private handleOrderUpdate(orders: AccountOrder[]): void {
+    const previousOrders = orders.map((order) => this.findOrder(order.id));
     for (const order of orders) {
-      if (this.ACTIVE_ORDER_STATUSES.has(order.status)) {
-        this.orders.set(order.id, order);
-      } else {
-        // Remove completed/cancelled/rejected orders
-        this.orders.delete(order.id);
-      }
+      this.storeOrder(order);
+    }
+    orders.forEach((order, index) => this.emitOrderEvents(order, previousOrders[index], true));
+  }
+
+  private findOrder(id: number): AccountOrder | null {
+    return this.orders.get(id) ?? this.terminalOrders.get(id) ?? null;
+  }
+
+  /**
+   * Keep an active order in the open orders, or move a completed/cancelled/rejected
+   * order to the bounded terminal history
+   */
+  private storeOrder(order: AccountOrder): void {
+    if (this.ACTIVE_ORDER_STATUSES.has(order.status)) {
+      this.orders.set(order.id, order);
+      this.terminalOrders.delete(order.id);
+      return;
+    }
+
+    this.orders.delete(order.id);
+    this.terminalOrders.delete(order.id);
+    this.terminalOrders.set(order.id, order);
+    if (this.terminalOrders.size > this.maxTerminalOrders) {
+      this.terminalOrders.delete(this.terminalOrders.keys().next().value!);
+    }
+  }
+
+  /**
+   * Emit `orderUpdated`, then the lifecycle events of the change from `previous`
+   */
+  private emitOrderEvents(order: AccountOrder, previous: AccountOrder | null, lifecycle: boolean): void {
+    this.emit('orderUpdated', { order, previous });
+    if (!lifecycle) {
+      return;
+    }
+
+    if (!previous) {
+      this.emit('orderCreated', { order, previous });
+    } else if (previous.status === order.status && previous.filledQty === order.filledQty) {
+      return;
+    }
+
+    const fillQty = new Decimal(order.filledQty || 0).minus(previous?.filledQty || 0);
+    if (order.status === OrderStatus.FILLED) {
+      this.emit('orderFilled', { order, previous, fillQty });
+    } else if (fillQty.greaterThan(0)) {
+      this.emit('orderPartiallyFilled', { order, previous, fillQty });
+    }
+
+    if (
+      (TERMINAL_ORDER_STATUSES.has(order.status) && order.status !== OrderStatus.FILLED) ||
+      order.status === OrderStatus.UNKNOWN
+    ) {
+      this.emit('orderCancelled', { order, previous, statusReason: order.statusReason });
     }
   }
 
   private handlePositionSnapshot(positions: AccountPosition[]): void {
-    this.positions.clear();
+    const previousPositions = this.positions;
+    this.positions = new Map();
     for (const position of positions) {
       if (position.status !== 'CLOSED') {
         this.positions.set(position.id, position);
       }
     }
+    if (this.positionsInitialised) {
+      for (const position of positions) {
+        this.emitPositionEvents(position, previousPositions.get(position.id) ?? null);
+      }
+      // Positions closed while the stream was disconnected
+      const snapshotIds = new Set(positions.map((position) => position.id));
+      for (const previous of previousPositions.values()) {
+        if (!snapshotIds.has(previous.id)) {
+          this.emitPositionEvents({ ...previous, status: 'CLOSED' }, previous);
+        }
+      }
+    }
+    this.positionsInitialised = true;
   }
 
   private handlePositionUpdate(positions: AccountPosition[]): void {
     for (const position of positions) {
+      const previous = this.positions.get(position.id) ?? null;
       if (position.status === 'CLOSED') {
         // Remove closed positions
         this.positions.delete(position.id);
       } else {
         this.positions.set(position.id, position);
       }
+      this.emitPositionEvents(position, previous);
+    }
+  }
+
+  private emitPositionEvents(position: AccountPosition, previous: AccountPosition | null): void {
+    if (position.status === 'CLOSED') {
+      this.emit('positionClosed', { position, previous });
+    } else if (!previous) {
+      this.emit('positionOpened', { position, previous });
+    } else {
+      this.emit('positionChanged', { position, previous });
     }
   }
 
   private handleBalanceSnapshot(balance: AccountBalance): void {
+    const previous = this.balance;
     this.balance = balance;
+    if (previous) {
+      this.emit('balanceChanged', { balance, previous });
+    }
   }
 
   private handleBalanceUpdate(balance: AccountBalance): void {
+    const previous = this.balance;
     this.balance = balance;
+    this.emit('balanceChanged', { balance, previous });
+  }
+
+  private handleTrades(trades: AccountTrade[]): void {
+    for (const trade of trades) {
+      this.emit('tradeExecuted', trade);
+    }
   }
 
   private buildSnapshot(): FullAccountSnapshot {
@@ -167,55 +514,89 @@ export class AccountSubscription {
     };
   }
 
+  private markSnapshotReceived(type: SnapshotType): void {
+    if (this.isReady()) {
+      return;
+    }
+    this.receivedSnapshots.add(type);
+    if (this.isReady()) {
+      const snapshot = this.buildSnapshot();
+      for (const waiter of this.readyWaiters.splice(0)) {
+        waiter.resolve(snapshot);
+      }
+    }
+  }
+
+  /**
+   * Reject pending `ready()` and `waitForOrder()` calls once the stream has ended
+   */
+  private rejectWaiters(): void {
+    const error = new Error('Account stream closed');
+    for (const waiter of this.readyWaiters.splice(0)) {
+      waiter.reject(error);
+    }
+    for (const fail of Array.from(this.orderWaiters)) {
+      fail(error);
+    }
+  }
+
   async *[Symbol.asyncIterator](): AsyncIterator<FullAccountSnapshot> {
-    while (!this.isClosed()) {
+    while (true) {
+      let event: WrappedStreamResponse<any>;
       try {
-        const event: WrappedStreamResponse<any> = await this.connection.recv();
+        event = await this.connection.recv();
+      } catch (error) {
+        this.rejectWaiters();
+        break;
+      }
 
-        if (event.ts) {
-          this.lastTimestamp = event.ts;
-        }
-        if (event.seq) {
-          this.lastSequence = event.seq;
-        }
+      if (event.ts) {
+        this.lastTimestamp = event.ts;
+      }
+      if (event.seq) {
+        this.lastSequence = event.seq;
+      }
 
-        if (!event.data) {
-          continue;
-        }
+      if (!event.data) {
+        continue;
+      }
 
-        const isSnapshot = event.data.isSnapshot === true;
+      const isSnapshot = event.data.isSnapshot === true;
 
-        // Handle different event types
-        if (event.type === 'ORDER') {
-          const orders = event.data.orders || [];
-          if (isSnapshot) {
-            this.handleOrderSnapshot(orders);
-          } else {
-            this.handleOrderUpdate(orders);
-            yield this.buildSnapshot();
-          }
-        } else if (event.type === 'POSITION') {
-          const positions = event.data.positions || [];
-          if (isSnapshot) {
-            this.handlePositionSnapshot(positions);
-            yield this.buildSnapshot();
-          } else {
-            this.handlePositionUpdate(positions);
-            yield this.buildSnapshot();
-          }
-        } else if (event.type === 'BALANCE') {
-          const balance = event.data.balance;
+      // Handle different event types
+      if (event.type === 'ORDER') {
+        const orders = event.data.orders || [];
+        if (isSnapshot) {
+          await this.handleOrderSnapshot(orders);
+          this.markSnapshotReceived('ORDER');
+        } else {
+          this.handleOrderUpdate(orders);
+        }
+        yield this.buildSnapshot();
+      } else if (event.type === 'POSITION') {
+        const positions = event.data.positions || [];
+        if (isSnapshot) {
+          this.handlePositionSnapshot(positions);
+          this.markSnapshotReceived('POSITION');
+        } else {
+          this.handlePositionUpdate(positions);
+        }
+        yield this.buildSnapshot();
+      } else if (event.type === 'BALANCE') {
+        const balance = event.data.balance;
+        if (isSnapshot) {
           if (balance) {
-            if (isSnapshot) {
-              this.handleBalanceSnapshot(balance);
-            } else {
-              this.handleBalanceUpdate(balance);
-              yield this.buildSnapshot();
-            }
+            this.handleBalanceSnapshot(balance);
           }
+          // An account without collateral may have no balance yet
+          this.markSnapshotReceived('BALANCE');
+          yield this.buildSnapshot();
+        } else if (balance) {
+          this.handleBalanceUpdate(balance);
+          yield this.buildSnapshot();
         }
-      } catch (error) {
-        break;
+      } else if (event.type === 'TRADE') {
+        this.handleTrades(event.data.trades || []);
       }
     }
   }
@@ -239,4 +620,23 @@ export class AccountSubscription {
   getOrdersByMarket(market: string): AccountOrder[] {
     return Array.from(this.orders.values()).filter(o => o.market === market);
   }
+
+  /**
+   * Orders that recently reached a terminal status, oldest first
+   */
+  getRecentTerminalOrders(): AccountOrder[] {
+    return Array.from(this.terminalOrders.values());
+  }
+
+  /**
+   * Open or recently terminal order with `externalId`
+   */
+  getOrderByExternalId(externalId: string): AccountOrder | undefined {
+    for (const order of this.orders.values()) {
+      if (order.externalId === externalId) {
+        return order;
+      }
+    }
+    return Array.from(this.terminalOrders.values()).reverse().find(o => o.externalId === externalId);
+  }
 }
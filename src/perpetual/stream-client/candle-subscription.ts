@@ -0,0 +1,131 @@
+/**
+ * Candles subscription maintaining a rolling candle series
+ */
+
+import { StreamSubscription } from './stream-subscription';
+import { StreamConnection } from './perpetual-stream-connection';
+import { CandleModel } from '../candles';
+import { deserialize } from '../../utils/deserialize';
+import { WrappedStreamResponse } from '../../utils/http';
+
+export interface CandleSubscriptionOptions {
+  /** Candles kept in memory, oldest dropped first (default 1000) */
+  maxCandles?: number;
+}
+
+/**
+ * One candle received from the stream
+ */
+export interface CandleUpdate {
+  /** The received candle, as stored in the series */
+  candle: CandleModel;
+  /** The previous current candle, when `candle` opened a new interval and closed it */
+  closedCandle: CandleModel | null;
+}
+
+const DEFAULT_MAX_CANDLES = 1000;
+
+/**
+ * Candles subscription
+ *
+ * The stream repeatedly sends the in-progress candle of the current interval. Updates of
+ * a known interval replace its candle in place; a candle of a newer interval closes the
+ * current one. The last candle of the series is the in-progress one, all others are closed.
+ */
+export class CandleSubscription extends StreamSubscription<CandleUpdate> {
+  // Sorted by timestamp, oldest first
+  private candles: CandleModel[] = [];
+  private maxCandles: number;
+
+  constructor(connection: StreamConnection<any>, options: CandleSubscriptionOptions = {}) {
+    super(connection);
+    this.maxCandles = options.maxCandles ?? DEFAULT_MAX_CANDLES;
+  }
+
+  /**
+   * All candles kept, oldest first, ending with the in-progress candle
+   */
+  getCandles(): CandleModel[] {
+    return this.candles.slice();
+  }
+
+  /**
+   * Closed candles, oldest first
+   */
+  getClosedCandles(): CandleModel[] {
+    return this.candles.slice(0, -1);
+  }
+
+  /**
+   * The in-progress candle of the current interval
+   */
+  getCurrentCandle(): CandleModel | null {
+    return this.candles.length > 0 ? this.candles[this.candles.length - 1] : null;
+  }
+
+  protected handleMessage(message: WrappedStreamResponse<any>): CandleUpdate[] {
+    const items = Array.isArray(message.data) ? message.data : [message.data];
+    const candles = items
+      .map((item: any, index: number) =>
+        deserialize(
+          CandleModel,
+          {
+            open: item.o,
+            low: item.l,
+            high: item.h,
+            close: item.c,
+            volume: item.v,
+            timestamp: item.T,
+          },
+          Array.isArray(message.data) ? `data[${index}]` : 'data'
+        )
+      )
+      .sort((a: CandleModel, b: CandleModel) => a.timestamp - b.timestamp);
+
+    return candles.map((candle: CandleModel) => this.merge(candle));
+  }
+
+  private merge(candle: CandleModel): CandleUpdate {
+    const current = this.getCurrentCandle();
+
+    if (!current || candle.timestamp > current.timestamp) {
+      this.candles.push(candle);
+      this.trim();
+      return { candle, closedCandle: current };
+    }
+
+    // Update of the current interval, or a late update of an earlier one
+    const index = this.search(candle.timestamp);
+    if (index < this.candles.length && this.candles[index].timestamp === candle.timestamp) {
+      this.candles[index] = candle;
+    } else {
+      this.candles.splice(index, 0, candle);
+      this.trim();
+    }
+    return { candle, closedCandle: null };
+  }
+
+  private trim(): void {
+    if (this.candles.length > this.maxCandles) {
+      this.candles.splice(0, this.candles.length - this.maxCandles);
+    }
+  }
+
+  /**
+   * Index of the candle with `timestamp`, or where it would be inserted
+   */
+  private search(timestamp: number): number {
+    let low = 0;
+    let high = this.candles.length;
+
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.candles[mid].timestamp < timestamp) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+}
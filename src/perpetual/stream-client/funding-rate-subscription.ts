@@ -0,0 +1,28 @@
+/**
+ * Funding rates subscription yielding typed funding rate models
+ */
+
+import { StreamSubscription } from './stream-subscription';
+import { FundingRateModel } from '../funding-rates';
+import { deserialize } from '../../utils/deserialize';
+import { WrappedStreamResponse } from '../../utils/http';
+
+/**
+ * Funding rates subscription
+ */
+export class FundingRateSubscription extends StreamSubscription<FundingRateModel> {
+  protected handleMessage(message: WrappedStreamResponse<any>): FundingRateModel[] {
+    const data = message.data;
+    return [
+      deserialize(
+        FundingRateModel,
+        {
+          market: data.m,
+          fundingRate: data.f,
+          timestamp: data.T,
+        },
+        'data'
+      ),
+    ];
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * Orderbook analytics for execution decisions
+ *
+ * All functions take the levels of each side best first, such as a `FullOrderbookSnapshot`
+ * or the live levels of an `OrderbookSubscription`.
+ */
+
+import Decimal from 'decimal.js';
+import { OrderSide } from '../orders';
+import { OrderbookEntry, OrderbookSide } from './orderbook-levels';
+
+const BPS = new Decimal(10_000);
+
+/**
+ * Both sides of an orderbook, best level first
+ */
+export interface OrderbookSides {
+  bids: Iterable<OrderbookEntry>;
+  asks: Iterable<OrderbookEntry>;
+}
+
+/**
+ * Cumulative size of the levels up to a limit
+ */
+export interface OrderbookDepth {
+  qty: Decimal;
+  notional: Decimal;
+  /** Number of levels included, counting a partially included last level */
+  levels: number;
+}
+
+export interface DepthLimit {
+  /** Include levels at this price or better */
+  price?: Decimal;
+  /** Stop once this notional is reached, including part of the last level */
+  notional?: Decimal;
+}
+
+/**
+ * Estimated execution of a market order against the visible book
+ */
+export interface MarketOrderEstimate {
+  /** Quantity the visible book can fill, at most the requested quantity */
+  filledQty: Decimal;
+  notional: Decimal;
+  /** Volume-weighted average fill price */
+  averagePrice: Decimal | null;
+  /** Price of the last level reached */
+  worstPrice: Decimal | null;
+  /** Adverse move of the average price from the best price, in basis points */
+  slippageBps: Decimal | null;
+  fullyFilled: boolean;
+}
+
+function first(levels: Iterable<OrderbookEntry>): OrderbookEntry | null {
+  for (const level of levels) {
+    return level;
+  }
+  return null;
+}
+
+/**
+ * Best ask minus best bid
+ */
+export function getSpread(book: OrderbookSides): Decimal | null {
+  const bid = first(book.bids);
+  const ask = first(book.asks);
+  if (!bid || !ask) {
+    return null;
+  }
+  return ask.price.minus(bid.price);
+}
+
+/**
+ * Spread relative to the mid price, in basis points
+ */
+export function getSpreadBps(book: OrderbookSides): Decimal | null {
+  const bid = first(book.bids);
+  const ask = first(book.asks);
+  if (!bid || !ask) {
+    return null;
+  }
+  const mid = bid.price.plus(ask.price).dividedBy(2);
+  if (mid.isZero()) {
+    return null;
+  }
+  return ask.price.minus(bid.price).dividedBy(mid).times(BPS);
+}
+
+/**
+ * Mid price weighted by the opposite top-of-book quantities, leaning towards the side
+ * with less size: (bid * askQty + ask * bidQty) / (bidQty + askQty)
+ */
+export function getMicroprice(book: OrderbookSides): Decimal | null {
+  const bid = first(book.bids);
+  const ask = first(book.asks);
+  if (!bid || !ask) {
+    return null;
+  }
+  const totalQty = bid.qty.plus(ask.qty);
+  if (totalQty.isZero()) {
+    return null;
+  }
+  return bid.price.times(ask.qty).plus(ask.price.times(bid.qty)).dividedBy(totalQty);
+}
+
+/**
+ * Cumulative quantity and notional of one side, up to a price and/or a notional.
+ * Without a limit, the whole side is included.
+ */
+export function getCumulativeDepth(book: OrderbookSides, side: OrderbookSide, limit: DepthLimit = {}): OrderbookDepth {
+  const levels = side === 'bid' ? book.bids : book.asks;
+  let qty = new Decimal(0);
+  let notional = new Decimal(0);
+  let count = 0;
+
+  for (const level of levels) {
+    if (limit.price) {
+      const beyond = side === 'bid' ? level.price.lessThan(limit.price) : level.price.greaterThan(limit.price);
+      if (beyond) {
+        break;
+      }
+    }
+
+    const levelNotional = level.price.times(level.qty);
+    if (limit.notional && notional.plus(levelNotional).greaterThanOrEqualTo(limit.notional)) {
+      const remaining = limit.notional.minus(notional);
+      qty = qty.plus(remaining.dividedBy(level.price));
+      notional = limit.notional;
+      count++;
+      break;
+    }
+
+    qty = qty.plus(level.qty);
+    notional = notional.plus(levelNotional);
+    count++;
+  }
+
+  return { qty, notional, levels: count };
+}
+
+/**
+ * Average fill price and slippage of a market order of `qty`, walking the opposite side
+ */
+export function estimateMarketOrder(book: OrderbookSides, side: OrderSide, qty: Decimal): MarketOrderEstimate {
+  const levels = side === OrderSide.BUY ? book.asks : book.bids;
+  let filledQty = new Decimal(0);
+  let notional = new Decimal(0);
+  let bestPrice: Decimal | null = null;
+  let worstPrice: Decimal | null = null;
+
+  for (const level of levels) {
+    if (filledQty.greaterThanOrEqualTo(qty)) {
+      break;
+    }
+    bestPrice = bestPrice ?? level.price;
+    worstPrice = level.price;
+
+    const take = Decimal.min(level.qty, qty.minus(filledQty));
+    filledQty = filledQty.plus(take);
+    notional = notional.plus(take.times(level.price));
+  }
+
+  if (filledQty.isZero() || !bestPrice) {
+    return { filledQty, notional, averagePrice: null, worstPrice: null, slippageBps: null, fullyFilled: false };
+  }
+
+  const averagePrice = notional.dividedBy(filledQty);
+  const move = side === OrderSide.BUY ? averagePrice.minus(bestPrice) : bestPrice.minus(averagePrice);
+
+  return {
+    filledQty,
+    notional,
+    averagePrice,
+    worstPrice,
+    slippageBps: move.dividedBy(bestPrice).times(BPS),
+    fullyFilled: filledQty.greaterThanOrEqualTo(qty),
+  };
+}
+
+/**
+ * Order book imbalance (bidQty - askQty) / (bidQty + askQty) over the best `depth` levels
+ * of each side (all levels by default), from -1 (all asks) to 1 (all bids)
+ */
+export function getImbalance(book: OrderbookSides, depth?: number): Decimal | null {
+  const sum = (levels: Iterable<OrderbookEntry>): Decimal => {
+    let total = new Decimal(0);
+    let count = 0;
+    for (const level of levels) {
+      if (depth !== undefined && count >= depth) {
+        break;
+      }
+      total = total.plus(level.qty);
+      count++;
+    }
+    return total;
+  };
+
+  const bidQty = sum(book.bids);
+  const askQty = sum(book.asks);
+  const totalQty = bidQty.plus(askQty);
+  if (totalQty.isZero()) {
+    return null;
+  }
+  return bidQty.minus(askQty).dividedBy(totalQty);
+}
@@ -0,0 +1,115 @@
+/**
+ * Sorted price levels of one side of an orderbook
+ */
+
+import Decimal from 'decimal.js';
+
+export interface OrderbookEntry {
+  price: Decimal;
+  qty: Decimal;
+}
+
+export type OrderbookSide = 'bid' | 'ask';
+
+/**
+ * Price levels kept in a sorted array with binary search lookups.
+ *
+ * Levels are ordered from the worst to the best price, so the best level sits at the end
+ * of the array: top-of-book reads are O(1), and updates near the top of the book (the
+ * common case) shift few elements. Entries are replaced rather than mutated, so arrays
+ * returned by `toArray` and `top` are never changed by later updates.
+ */
+export class OrderbookLevels implements Iterable<OrderbookEntry> {
+  private levels: OrderbookEntry[] = [];
+  private side: OrderbookSide;
+
+  constructor(side: OrderbookSide) {
+    this.side = side;
+  }
+
+  get size(): number {
+    return this.levels.length;
+  }
+
+  clear(): void {
+    this.levels = [];
+  }
+
+  /**
+   * Set the quantity of a level, removing it when the quantity is not positive
+   */
+  set(price: Decimal, qty: Decimal): void {
+    const index = this.search(price);
+    const found = index < this.levels.length && this.levels[index].price.equals(price);
+
+    if (qty.isZero() || qty.isNegative()) {
+      if (found) {
+        this.levels.splice(index, 1);
+      }
+    } else if (found) {
+      this.levels[index] = { price, qty };
+    } else {
+      this.levels.splice(index, 0, { price, qty });
+    }
+  }
+
+  /**
+   * Add a relative quantity change to a level
+   */
+  apply(price: Decimal, qtyDelta: Decimal): void {
+    const existing = this.get(price);
+    this.set(price, existing ? existing.qty.plus(qtyDelta) : qtyDelta);
+  }
+
+  get(price: Decimal): OrderbookEntry | undefined {
+    const index = this.search(price);
+    return index < this.levels.length && this.levels[index].price.equals(price) ? this.levels[index] : undefined;
+  }
+
+  best(): OrderbookEntry | null {
+    return this.levels.length > 0 ? this.levels[this.levels.length - 1] : null;
+  }
+
+  /**
+   * The best `n` levels, best first
+   */
+  top(n: number): OrderbookEntry[] {
+    return this.levels.slice(Math.max(0, this.levels.length - n)).reverse();
+  }
+
+  /**
+   * All levels, best first
+   */
+  toArray(): OrderbookEntry[] {
+    return this.levels.slice().reverse();
+  }
+
+  /**
+   * Iterate over levels best first without copying
+   */
+  *[Symbol.iterator](): Iterator<OrderbookEntry> {
+    for (let i = this.levels.length - 1; i >= 0; i--) {
+      yield this.levels[i];
+    }
+  }
+
+  /**
+   * Index of the level with `price`, or where it would be inserted
+   */
+  private search(price: Decimal): number {
+    // Bids ascend towards the best (highest) price, asks descend towards the best (lowest)
+    const direction = this.side === 'bid' ? 1 : -1;
+    let low = 0;
+    let high = this.levels.length;
+
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.levels[mid].price.comparedTo(price) * direction < 0) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+}
@@ -6,15 +6,26 @@
  * to manually apply delta updates.
  */
 
+import { EventEmitter } from 'events';
 import Decimal from 'decimal.js';
-import { PerpetualStreamConnection } from './perpetual-stream-connection';
+import { StreamConnection, ConnectionState } from './perpetual-stream-connection';
 import { OrderbookUpdateModel, OrderbookQuantityModel } from '../orderbooks';
-import { WrappedStreamResponse } from '../../utils/http';
-
-export interface OrderbookEntry {
-  price: Decimal;
-  qty: Decimal;
-}
+import { OrderbookEntry, OrderbookLevels, OrderbookSide } from './orderbook-levels';
+import {
+  DepthLimit,
+  MarketOrderEstimate,
+  OrderbookDepth,
+  estimateMarketOrder,
+  getCumulativeDepth,
+  getImbalance,
+  getMicroprice,
+  getSpread,
+  getSpreadBps,
+} from './orderbook-analytics';
+import { OrderSide } from '../orders';
+import { WrappedApiResponse, WrappedStreamResponse } from '../../utils/http';
+
+export { OrderbookEntry } from './orderbook-levels';
 
 export interface FullOrderbookSnapshot {
   market: string;
@@ -24,19 +35,82 @@ export interface FullOrderbookSnapshot {
   sequence: number;
 }
 
-export class OrderbookSubscription {
-  private connection: PerpetualStreamConnection<any>;
-  private bidLevels: Map<string, OrderbookEntry> = new Map();
-  private askLevels: Map<string, OrderbookEntry> = new Map();
+/**
+ * Why the orderbook had to be resynchronised
+ */
+export enum OrderbookResyncReason {
+  /** A delta was missed: its sequence number is not the previous one plus one */
+  SEQUENCE_GAP = 'SEQUENCE_GAP',
+  /** Best bid at or above best ask after applying a delta */
+  CROSSED_BOOK = 'CROSSED_BOOK',
+}
+
+export interface OrderbookResyncEvent {
+  market: string;
+  reason: OrderbookResyncReason;
+  expectedSequence?: number;
+  receivedSequence?: number;
+}
+
+/**
+ * REST source of orderbook snapshots, such as `MarketsInformationModule`
+ */
+export interface OrderbookSnapshotSource {
+  getOrderbookSnapshot(marketName: string): Promise<WrappedApiResponse<OrderbookUpdateModel>>;
+}
+
+export interface OrderbookSubscriptionOptions {
+  /**
+   * Rebuild a stale book from this REST source instead of reconnecting. Deltas in flight
+   * during the request may be reflected twice or not at all, so reconnecting is exact
+   * while the REST rebuild is faster.
+   */
+  snapshotSource?: OrderbookSnapshotSource;
+  /** Treat a crossed book as corrupted (default true) */
+  checkCrossedBook?: boolean;
+  /** Yield only the best `topN` levels of each side instead of the full book */
+  topN?: number;
+}
+
+export interface OrderbookSubscription {
+  on(event: 'resync', listener: (event: OrderbookResyncEvent) => void): this;
+  once(event: 'resync', listener: (event: OrderbookResyncEvent) => void): this;
+}
+
+/**
+ * Orderbook subscription
+ *
+ * Deltas must arrive with contiguous sequence numbers. On a gap or a crossed book the
+ * book is marked stale, a `resync` event is emitted and updates are withheld until the
+ * book is rebuilt from a fresh snapshot.
+ */
+export class OrderbookSubscription extends EventEmitter {
+  private connection: StreamConnection<any>;
+  private bidLevels: OrderbookLevels = new OrderbookLevels('bid');
+  private askLevels: OrderbookLevels = new OrderbookLevels('ask');
   private marketName: string;
   private lastSequence: number = 0;
   private lastTimestamp: number = 0;
   private snapshotReceived: boolean = false;
-  private bufferedDeltas: OrderbookUpdateModel[] = [];
-
-  constructor(connection: PerpetualStreamConnection<any>, marketName: string) {
+  private bufferedDeltas: Array<{ sequence?: number; data: OrderbookUpdateModel }> = [];
+  private stale: boolean = false;
+  private snapshotSource?: OrderbookSnapshotSource;
+  private checkCrossedBook: boolean;
+  private topN?: number;
+
+  constructor(
+    connection: StreamConnection<any>,
+    marketName: string,
+    options: OrderbookSubscriptionOptions = {}
+  ) {
+    super();
     this.connection = connection;
     this.marketName = marketName;
+    this.snapshotSource = options.snapshotSource;
+    this.checkCrossedBook = options.checkCrossedBook ?? true;
+    this.topN = options.topN;
+    // The server sends a fresh SNAPSHOT on every connection
+    this.connection.on('reconnected', () => this.resetOrderbook());
   }
 
   async connect(): Promise<this> {
@@ -52,87 +126,136 @@ export class OrderbookSubscription {
     return this.connection.isClosed();
   }
 
-  private initOrderbook(data: OrderbookUpdateModel): void {
+  getConnectionState(): ConnectionState {
+    return this.connection.getState();
+  }
+
+  /**
+   * Register a listener for connection state changes. Returns a function that removes the listener.
+   */
+  onConnectionStateChange(listener: (state: ConnectionState, error?: Error) => void): () => void {
+    this.connection.on('stateChange', listener);
+    return () => {
+      this.connection.off('stateChange', listener);
+    };
+  }
+
+  /**
+   * Whether the book is known to be out of sync and awaiting a fresh snapshot
+   */
+  isStale(): boolean {
+    return this.stale;
+  }
+
+  private resetOrderbook(): void {
     this.bidLevels.clear();
     this.askLevels.clear();
+    this.snapshotReceived = false;
+    this.bufferedDeltas = [];
+    this.lastSequence = 0;
+    this.stale = false;
+  }
 
-    for (const bid of data.bid) {
-      this.bidLevels.set(bid.price.toString(), {
-        price: bid.price,
-        qty: bid.qty,
+  /**
+   * Mark the book stale and rebuild it from the snapshot source, or from the snapshot
+   * the server sends on a new connection
+   */
+  private markStale(event: Omit<OrderbookResyncEvent, 'market'>): void {
+    this.stale = true;
+    this.emit('resync', { market: this.marketName, ...event });
+
+    if (this.snapshotSource) {
+      this.resyncFromSnapshotSource().catch((error) => {
+        this.connection.restart(error);
       });
+    } else {
+      this.connection.restart(new Error(`Orderbook ${this.marketName} out of sync: ${event.reason}`));
     }
+  }
 
-    for (const ask of data.ask) {
-      this.askLevels.set(ask.price.toString(), {
-        price: ask.price,
-        qty: ask.qty,
-      });
+  private async resyncFromSnapshotSource(): Promise<void> {
+    const response = await this.snapshotSource!.getOrderbookSnapshot(this.marketName);
+    if (!response.data) {
+      throw new Error(`Empty orderbook snapshot for ${this.marketName}`);
     }
+    // A stream snapshot may have arrived in the meantime
+    if (!this.stale) {
+      return;
+    }
+    this.initOrderbook(response.data);
+    this.bufferedDeltas = [];
+    this.snapshotReceived = true;
+    this.stale = false;
   }
 
-  private updateOrderbook(data: OrderbookUpdateModel): void {
-    // Deltas are RELATIVE changes (add/subtract from existing levels)
-    for (const bid of data.bid) {
-      const priceKey = bid.price.toString();
-      const existing = this.bidLevels.get(priceKey);
-
-      if (existing) {
-        // Add delta to existing level
-        const newQty = existing.qty.plus(bid.qty);
-        if (newQty.isZero() || newQty.isNegative()) {
-          // Remove level when it reaches zero or goes negative
-          this.bidLevels.delete(priceKey);
-        } else {
-          existing.qty = newQty;
+  /**
+   * Apply deltas buffered before the snapshot, dropping those the snapshot already includes.
+   * Returns false, with the book marked stale, when the remaining deltas do not follow on
+   * from the snapshot sequence.
+   */
+  private replayBufferedDeltas(snapshotSequence?: number): boolean {
+    let previousSequence = snapshotSequence;
+    for (const { sequence, data } of this.bufferedDeltas) {
+      if (sequence && previousSequence) {
+        if (sequence <= previousSequence) {
+          continue;
         }
-      } else {
-        // New level - only add if qty is positive
-        if (!bid.qty.isZero() && !bid.qty.isNegative()) {
-          this.bidLevels.set(priceKey, {
-            price: bid.price,
-            qty: bid.qty,
+        if (sequence !== previousSequence + 1) {
+          this.bufferedDeltas = [];
+          this.markStale({
+            reason: OrderbookResyncReason.SEQUENCE_GAP,
+            expectedSequence: previousSequence + 1,
+            receivedSequence: sequence,
           });
+          return false;
         }
       }
+      this.updateOrderbook(data);
+      if (sequence) {
+        previousSequence = sequence;
+        this.lastSequence = sequence;
+      }
+    }
+    this.bufferedDeltas = [];
+    return true;
+  }
+
+  private isCrossed(): boolean {
+    const bid = this.bestBid();
+    const ask = this.bestAsk();
+    return bid !== null && ask !== null && bid.price.greaterThanOrEqualTo(ask.price);
+  }
+
+  private initOrderbook(data: OrderbookUpdateModel): void {
+    this.bidLevels.clear();
+    this.askLevels.clear();
+
+    for (const bid of data.bid) {
+      this.bidLevels.set(bid.price, bid.qty);
     }
 
     for (const ask of data.ask) {
-      const priceKey = ask.price.toString();
-      const existing = this.askLevels.get(priceKey);
-
-      if (existing) {
-        // Add delta to existing level
-        const newQty = existing.qty.plus(ask.qty);
-        if (newQty.isZero() || newQty.isNegative()) {
-          // Remove level when it reaches zero or goes negative
-          this.askLevels.delete(priceKey);
-        } else {
-          existing.qty = newQty;
-        }
-      } else {
-        // New level - only add if qty is positive
-        if (!ask.qty.isZero() && !ask.qty.isNegative()) {
-          this.askLevels.set(priceKey, {
-            price: ask.price,
-            qty: ask.qty,
-          });
-        }
-      }
+      this.askLevels.set(ask.price, ask.qty);
     }
   }
 
-  private buildSnapshot(): FullOrderbookSnapshot {
-    const bids = Array.from(this.bidLevels.values())
-      .sort((a, b) => b.price.comparedTo(a.price));
+  private updateOrderbook(data: OrderbookUpdateModel): void {
+    // Deltas are RELATIVE changes (add/subtract from existing levels); levels that
+    // reach zero or go negative are removed
+    for (const bid of data.bid) {
+      this.bidLevels.apply(bid.price, bid.qty);
+    }
 
-    const asks = Array.from(this.askLevels.values())
-      .sort((a, b) => a.price.comparedTo(b.price));
+    for (const ask of data.ask) {
+      this.askLevels.apply(ask.price, ask.qty);
+    }
+  }
 
+  private buildSnapshot(): FullOrderbookSnapshot {
     return {
       market: this.marketName,
-      bids,
-      asks,
+      bids: this.topN !== undefined ? this.bidLevels.top(this.topN) : this.bidLevels.toArray(),
+      asks: this.topN !== undefined ? this.askLevels.top(this.topN) : this.askLevels.toArray(),
       timestamp: this.lastTimestamp,
       sequence: this.lastSequence,
     };
@@ -142,6 +265,7 @@ export class OrderbookSubscription {
     while (!this.isClosed()) {
       try {
         const event: WrappedStreamResponse<any> = await this.connection.recv();
+        const previousSequence = this.lastSequence;
 
         if (event.ts) {
           this.lastTimestamp = event.ts;
@@ -156,25 +280,39 @@ export class OrderbookSubscription {
             // Snapshot can come at any time - reset state
             this.initOrderbook(orderbookData);
             this.snapshotReceived = true;
-            
-            // Apply any buffered deltas that came before snapshot
-            for (const bufferedDelta of this.bufferedDeltas) {
-              this.updateOrderbook(bufferedDelta);
+            this.stale = false;
+
+            if (!this.replayBufferedDeltas(event.seq)) {
+              continue;
             }
-            this.bufferedDeltas = [];
-            
+
             yield this.buildSnapshot();
           }
         } else if (event.type === 'DELTA' && event.data) {
           const orderbookData = this.parseOrderbookData(event.data);
           if (orderbookData) {
-            if (this.snapshotReceived) {
-              // Apply delta immediately after snapshot
+            if (this.stale) {
+              // Discard deltas until the book is rebuilt
+              continue;
+            } else if (this.snapshotReceived) {
+              if (event.seq && previousSequence && event.seq !== previousSequence + 1) {
+                this.markStale({
+                  reason: OrderbookResyncReason.SEQUENCE_GAP,
+                  expectedSequence: previousSequence + 1,
+                  receivedSequence: event.seq,
+                });
+                continue;
+              }
+
               this.updateOrderbook(orderbookData);
+              if (this.checkCrossedBook && this.isCrossed()) {
+                this.markStale({ reason: OrderbookResyncReason.CROSSED_BOOK, receivedSequence: event.seq });
+                continue;
+              }
               yield this.buildSnapshot();
             } else {
               // Buffer deltas until snapshot arrives
-              this.bufferedDeltas.push(orderbookData);
+              this.bufferedDeltas.push({ sequence: event.seq, data: orderbookData });
             }
           }
         }
@@ -203,31 +341,18 @@ export class OrderbookSubscription {
   }
 
   bestBid(): OrderbookEntry | null {
-    if (this.bidLevels.size === 0) {
-      return null;
-    }
-
-    let best: OrderbookEntry | null = null;
-    for (const entry of this.bidLevels.values()) {
-      if (!best || entry.price.greaterThan(best.price)) {
-        best = entry;
-      }
-    }
-    return best;
+    return this.bidLevels.best();
   }
 
   bestAsk(): OrderbookEntry | null {
-    if (this.askLevels.size === 0) {
-      return null;
-    }
+    return this.askLevels.best();
+  }
 
-    let best: OrderbookEntry | null = null;
-    for (const entry of this.askLevels.values()) {
-      if (!best || entry.price.lessThan(best.price)) {
-        best = entry;
-      }
-    }
-    return best;
+  /**
+   * Best `n` levels of each side, best first
+   */
+  getTopLevels(n: number): { bids: OrderbookEntry[]; asks: OrderbookEntry[] } {
+    return { bids: this.bidLevels.top(n), asks: this.askLevels.top(n) };
   }
 
   getMidPrice(): Decimal | null {
@@ -240,4 +365,41 @@ export class OrderbookSubscription {
 
     return bid.price.plus(ask.price).dividedBy(2);
   }
+  getSpread(): Decimal | null {
+    return getSpread(this.sides());
+  }
+
+  getSpreadBps(): Decimal | null {
+    return getSpreadBps(this.sides());
+  }
+
+  getMicroprice(): Decimal | null {
+    return getMicroprice(this.sides());
+  }
+
+  /**
+   * Cumulative quantity and notional of one side up to a price and/or notional
+   */
+  getCumulativeDepth(side: OrderbookSide, limit: DepthLimit = {}): OrderbookDepth {
+    return getCumulativeDepth(this.sides(), side, limit);
+  }
+
+  /**
+   * Average fill price and slippage of a market order of `qty` against the current book
+   */
+  estimateMarketOrder(side: OrderSide, qty: Decimal): MarketOrderEstimate {
+    return estimateMarketOrder(this.sides(), side, qty);
+  }
+
+  /**
+   * Bid/ask quantity imbalance over the best `depth` levels, from -1 to 1
+   */
+  getImbalance(depth?: number): Decimal | null {
+    return getImbalance(this.sides(), depth);
+  }
+
+  private sides(): { bids: OrderbookLevels; asks: OrderbookLevels } {
+    return { bids: this.bidLevels, asks: this.askLevels };
+  }
+
 }
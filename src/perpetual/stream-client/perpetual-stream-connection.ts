@@ -2,23 +2,109 @@
  * Perpetual stream connection for WebSocket streaming
  */
 
+import { EventEmitter } from 'events';
 import WebSocket from 'ws';
 import { USER_AGENT } from '../../config';
 import { RequestHeader } from '../../utils/http';
 import { WrappedStreamResponse } from '../../utils/http';
+import { AsyncQueue } from '../../utils/async-queue';
+
+/**
+ * Stream connection state
+ */
+export enum ConnectionState {
+  CONNECTING = 'CONNECTING',
+  OPEN = 'OPEN',
+  RECONNECTING = 'RECONNECTING',
+  CLOSED = 'CLOSED',
+}
+
+/**
+ * Reconnect policy for dropped stream connections
+ */
+export interface ReconnectPolicy {
+  /** Consecutive failed attempts before giving up */
+  maxAttempts: number;
+  /** Delay before the first attempt */
+  initialDelayMs: number;
+  /** Upper bound for the backoff delay */
+  maxDelayMs: number;
+  /** Multiplier applied to the delay after each failed attempt */
+  backoffFactor: number;
+  /** Randomise each delay within [delay / 2, delay] */
+  jitter: boolean;
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  maxAttempts: Infinity,
+  initialDelayMs: 500,
+  maxDelayMs: 30_000,
+  backoffFactor: 2,
+  jitter: true,
+};
+
+export interface StreamConnectionOptions {
+  /** Reconnect policy overrides, or `false` to end the stream when the connection drops */
+  reconnect?: Partial<ReconnectPolicy> | false;
+}
+
+/**
+ * Source of stream messages consumed by subscriptions: a WebSocket connection or a
+ * multiplexed sub-stream
+ */
+export interface StreamConnection<T> {
+  connect(): Promise<this>;
+  close(): Promise<void>;
+  recv(): Promise<WrappedStreamResponse<T>>;
+  isClosed(): boolean;
+  getState(): ConnectionState;
+  restart(reason?: Error): void;
+  on(event: 'stateChange', listener: (state: ConnectionState, error?: Error) => void): this;
+  on(event: 'reconnected', listener: () => void): this;
+  off(event: 'stateChange' | 'reconnected', listener: (...args: any[]) => void): this;
+}
+
+// Queued in message order when a new connection opens
+const RECONNECTED = Symbol('reconnected');
+
+type StreamItem<T> = WrappedStreamResponse<T> | Error | typeof RECONNECTED;
+
+export interface PerpetualStreamConnection<T> {
+  on(event: 'stateChange', listener: (state: ConnectionState, error?: Error) => void): this;
+  on(event: 'reconnected', listener: () => void): this;
+  once(event: 'stateChange', listener: (state: ConnectionState, error?: Error) => void): this;
+  once(event: 'reconnected', listener: () => void): this;
+}
 
 /**
  * Perpetual stream connection
+ *
+ * Messages are buffered until received. When the connection drops, it is re-established
+ * with exponential backoff; resubscribing is implicit as subscriptions are part of the URL.
+ *
+ * Events:
+ * - `stateChange` - the connection state changed, with the error that caused a drop
+ * - `reconnected` - emitted by `recv` before the first message of a re-established connection
  */
-export class PerpetualStreamConnection<T> {
+export class PerpetualStreamConnection<T> extends EventEmitter implements StreamConnection<T> {
   private streamUrl: string;
   private apiKey?: string;
   private msgsCount: number = 0;
   private websocket?: WebSocket;
+  private reconnectPolicy?: ReconnectPolicy;
+  private state: ConnectionState = ConnectionState.CLOSED;
+  private queue: AsyncQueue<StreamItem<T>> = new AsyncQueue();
+  private closing: boolean = false;
+  private reconnectAttempts: number = 0;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
 
-  constructor(streamUrl: string, apiKey?: string) {
+  constructor(streamUrl: string, apiKey?: string, options: StreamConnectionOptions = {}) {
+    super();
     this.streamUrl = streamUrl;
     this.apiKey = apiKey;
+    if (options.reconnect !== false) {
+      this.reconnectPolicy = { ...DEFAULT_RECONNECT_POLICY, ...options.reconnect };
+    }
   }
 
   /**
@@ -32,22 +118,58 @@ export class PerpetualStreamConnection<T> {
   }
 
   /**
-   * Receive message from WebSocket
+   * Receive the next message, waiting across reconnects.
+   * Throws once the connection is closed and buffered messages are drained.
    */
   async recv(): Promise<WrappedStreamResponse<T>> {
     if (!this.websocket) {
       throw new Error('WebSocket is not connected');
     }
-    return await this.receive();
+
+    while (true) {
+      const result = await this.queue.next();
+      if (result.done) {
+        throw new Error('WebSocket is closed');
+      }
+      if (result.value === RECONNECTED) {
+        this.emit('reconnected');
+        continue;
+      }
+      if (result.value instanceof Error) {
+        throw result.value;
+      }
+      return result.value;
+    }
   }
 
   /**
-   * Close WebSocket connection
+   * Close WebSocket connection and stop reconnecting
    */
   async close(): Promise<void> {
-    if (this.websocket && this.websocket.readyState === WebSocket.OPEN) {
+    this.closing = true;
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = undefined;
+
+    if (
+      this.websocket &&
+      (this.websocket.readyState === WebSocket.OPEN || this.websocket.readyState === WebSocket.CONNECTING)
+    ) {
       this.websocket.close();
     }
+    this.finish();
+  }
+
+  /**
+   * Drop the current connection and open a new one, so that the server sends fresh snapshots.
+   * Uses the default reconnect policy when reconnecting is disabled.
+   */
+  restart(reason: Error = new Error('Connection restarted')): void {
+    if (this.state !== ConnectionState.OPEN) {
+      return;
+    }
+    const websocket = this.websocket!;
+    this.scheduleReconnect(reason);
+    websocket.terminate();
   }
 
   /**
@@ -57,23 +179,44 @@ export class PerpetualStreamConnection<T> {
     return this.msgsCount;
   }
 
+  getState(): ConnectionState {
+    return this.state;
+  }
+
   /**
-   * Check if connection is closed
+   * Check if connection is closed. A connection that is reconnecting is not closed.
    */
   isClosed(): boolean {
-    if (!this.websocket) {
-      return true;
-    }
-    return this.websocket.readyState === WebSocket.CLOSED;
+    return this.state === ConnectionState.CLOSED;
   }
 
   /**
    * Connect to WebSocket
-   * 
+   *
    * The server sends pings every 15 seconds and expects a pong response within 10 seconds.
    * The ws library automatically responds to ping frames with pong frames.
    */
   async connect(): Promise<this> {
+    if (this.queue.isClosed()) {
+      this.queue = new AsyncQueue();
+    }
+    this.closing = false;
+    this.reconnectAttempts = 0;
+    this.setState(ConnectionState.CONNECTING);
+
+    try {
+      await this.open(false);
+    } catch (error) {
+      this.finish(error as Error);
+      throw error;
+    }
+    return this;
+  }
+
+  /**
+   * Open a WebSocket and route its messages into the queue
+   */
+  private open(reconnect: boolean): Promise<void> {
     const extraHeaders: Record<string, string> = {
       [RequestHeader.USER_AGENT]: USER_AGENT,
     };
@@ -83,51 +226,110 @@ export class PerpetualStreamConnection<T> {
     }
 
     return new Promise((resolve, reject) => {
-      this.websocket = new WebSocket(this.streamUrl, {
+      const websocket = new WebSocket(this.streamUrl, {
         headers: extraHeaders,
       });
+      this.websocket = websocket;
+      let opened = false;
+      let lastError: Error | undefined;
 
-      this.websocket.on('open', () => {
-        resolve(this);
-      });
-
-      this.websocket.on('error', (error) => {
-        reject(error);
+      websocket.on('open', () => {
+        opened = true;
+        this.reconnectAttempts = 0;
+        if (reconnect) {
+          this.queue.push(RECONNECTED);
+        }
+        this.setState(ConnectionState.OPEN);
+        resolve();
       });
-    });
-  }
-
-  /**
-   * Receive message
-   */
-  private async receive(): Promise<WrappedStreamResponse<T>> {
-    if (!this.websocket) {
-      throw new Error('WebSocket is not connected');
-    }
 
-    return new Promise((resolve, reject) => {
-      const messageHandler = (data: WebSocket.Data) => {
+      websocket.on('message', (data: WebSocket.Data) => {
         this.msgsCount++;
         try {
-          const parsed = JSON.parse(data.toString());
-          resolve(parsed as WrappedStreamResponse<T>);
+          this.queue.push(JSON.parse(data.toString()) as WrappedStreamResponse<T>);
         } catch (error) {
+          this.queue.push(error as Error);
+        }
+      });
+
+      websocket.on('error', (error) => {
+        lastError = error;
+        if (!opened) {
           reject(error);
         }
-      };
+      });
 
-      this.websocket!.once('message', messageHandler);
-      this.websocket!.on('error', reject);
+      websocket.on('close', (code: number) => {
+        if (!opened) {
+          reject(lastError ?? new Error(`WebSocket closed before opening (code ${code})`));
+          return;
+        }
+        this.handleDrop(websocket, lastError ?? new Error(`WebSocket closed (code ${code})`));
+      });
     });
   }
 
+  private handleDrop(websocket: WebSocket, error: Error): void {
+    if (websocket !== this.websocket || this.closing || this.state !== ConnectionState.OPEN) {
+      return;
+    }
+    if (!this.reconnectPolicy) {
+      this.finish(error);
+      return;
+    }
+    this.scheduleReconnect(error);
+  }
+
+  private scheduleReconnect(error: Error): void {
+    const policy = this.reconnectPolicy ?? DEFAULT_RECONNECT_POLICY;
+    if (this.reconnectAttempts >= policy.maxAttempts) {
+      this.finish(error);
+      return;
+    }
+
+    const delay = getReconnectDelay(policy, this.reconnectAttempts);
+    this.reconnectAttempts++;
+    this.setState(ConnectionState.RECONNECTING, error);
+    this.reconnectTimer = setTimeout(() => this.reconnect(), delay);
+  }
+
+  private async reconnect(): Promise<void> {
+    this.reconnectTimer = undefined;
+    if (this.closing) {
+      return;
+    }
+    try {
+      await this.open(true);
+    } catch (error) {
+      if (!this.closing) {
+        this.scheduleReconnect(error as Error);
+      }
+    }
+  }
+
+  /**
+   * Move to CLOSED and end the message queue after buffered messages are drained
+   */
+  private finish(error?: Error): void {
+    this.queue.close();
+    this.setState(ConnectionState.CLOSED, error);
+  }
+
+  private setState(state: ConnectionState, error?: Error): void {
+    if (this.state === state) {
+      return;
+    }
+    this.state = state;
+    this.emit('stateChange', state, error);
+  }
+
   /**
-   * Async iterator for messages
+   * Async iterator for messages. Ends once the connection is closed and buffered messages are drained.
    */
   async* [Symbol.asyncIterator](): AsyncIterator<WrappedStreamResponse<T>> {
-    while (!this.isClosed()) {
+    while (true) {
       try {
-        yield await this.receive();
+        yield await this.recv();
       } catch (error) {
         break;
       }
@@ -135,12 +337,10 @@ export class PerpetualStreamConnection<T> {
   }
 }
 
-
-
-
-
-
-
-
-
-
+/**
+ * Backoff delay before reconnect attempt number `attempt` (starting at 0)
+ */
+function getReconnectDelay(policy: ReconnectPolicy, attempt: number): number {
+  const backoff = Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(policy.backoffFactor, attempt));
+  return policy.jitter ? backoff / 2 + Math.random() * (backoff / 2) : backoff;
+}
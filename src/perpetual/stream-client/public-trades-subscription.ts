@@ -0,0 +1,34 @@
+/**
+ * Public trades subscription yielding typed trade models
+ */
+
+import { StreamSubscription } from './stream-subscription';
+import { PublicTradeModel } from '../trades';
+import { deserialize } from '../../utils/deserialize';
+import { WrappedStreamResponse } from '../../utils/http';
+
+/**
+ * Public trades subscription
+ *
+ * Each message carries a batch of trades; they are yielded one by one, in message order.
+ */
+export class PublicTradesSubscription extends StreamSubscription<PublicTradeModel> {
+  protected handleMessage(message: WrappedStreamResponse<any>): PublicTradeModel[] {
+    const trades = Array.isArray(message.data) ? message.data : [message.data];
+    return trades.map((trade: any, index: number) =>
+      deserialize(
+        PublicTradeModel,
+        {
+          id: trade.i,
+          market: trade.m,
+          side: trade.S,
+          tradeType: trade.tT,
+          timestamp: trade.T,
+          price: trade.p,
+          qty: trade.q,
+        },
+        `data[${index}]`
+      )
+    );
+  }
+}
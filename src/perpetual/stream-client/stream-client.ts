@@ -2,10 +2,13 @@
  * Perpetual stream client for WebSocket streaming
  */
 
-import { PerpetualStreamConnection } from './perpetual-stream-connection';
-import { OrderbookSubscription } from './orderbook-subscription';
-import { AccountSubscription } from './account-subscription';
-import { WrappedStreamResponse } from '../../utils/http';
+import { PerpetualStreamConnection, StreamConnectionOptions } from './perpetual-stream-connection';
+import { OrderbookSubscription, OrderbookSubscriptionOptions } from './orderbook-subscription';
+import { AccountSubscription, AccountSubscriptionOptions } from './account-subscription';
+import { StreamMultiplexer, StreamMultiplexerOptions } from './stream-multiplexer';
+import { PublicTradesSubscription } from './public-trades-subscription';
+import { FundingRateSubscription } from './funding-rate-subscription';
+import { CandleSubscription, CandleSubscriptionOptions } from './candle-subscription';
 import { getUrl } from '../../utils/http';
 
 /**
@@ -13,9 +16,22 @@ import { getUrl } from '../../utils/http';
  */
 export class PerpetualStreamClient {
   private apiUrl: string;
+  private connectionOptions: StreamConnectionOptions;
 
-  constructor(options: { apiUrl: string }) {
+  /**
+   * @param options.reconnect - Reconnect policy overrides for dropped connections, or `false` to disable reconnecting
+   */
+  constructor(options: { apiUrl: string } & StreamConnectionOptions) {
     this.apiUrl = options.apiUrl;
+    this.connectionOptions = { reconnect: options.reconnect };
+  }
+
+  /**
+   * Create a multiplexer sharing one connection per all-markets channel (orderbooks,
+   * public trades, funding) between per-market subscriptions
+   */
+  createMultiplexer(options: StreamMultiplexerOptions = {}): StreamMultiplexer {
+    return new StreamMultiplexer({ reconnect: this.connectionOptions.reconnect, ...options, apiUrl: this.apiUrl });
   }
 
   /**
@@ -24,11 +40,13 @@ export class PerpetualStreamClient {
    * 
    * Returns an OrderbookSubscription that maintains full orderbook state
    * and emits complete snapshots on every update (no need to handle deltas).
+   * Pass `snapshotSource` (e.g. `tradingClient.marketsInfo`) to resync a stale book
+   * over REST instead of reconnecting.
    */
   subscribeToOrderbooks(options: {
     marketName?: string;
     depth?: number;
-  } = {}): OrderbookSubscription {
+  } & OrderbookSubscriptionOptions = {}): OrderbookSubscription {
     const path = options.marketName
       ? `/orderbooks/<market>`
       : '/orderbooks';
@@ -38,8 +56,12 @@ export class PerpetualStreamClient {
       query: options.depth ? { depth: options.depth.toString() } : undefined,
     });
 
-    const connection = new PerpetualStreamConnection(url);
-    return new OrderbookSubscription(connection, options.marketName);
+    const connection = new PerpetualStreamConnection(url, undefined, this.connectionOptions);
+    return new OrderbookSubscription(connection, options.marketName, {
+      snapshotSource: options.snapshotSource,
+      checkCrossedBook: options.checkCrossedBook,
+      topN: options.topN,
+    });
   }
 
   /**
@@ -62,12 +84,14 @@ export class PerpetualStreamClient {
       query: options.depth ? { depth: options.depth.toString() } : undefined,
     });
 
-    return new PerpetualStreamConnection(url);
+    return new PerpetualStreamConnection(url, undefined, this.connectionOptions);
   }
 
   /**
-   * Subscribe to public trades stream
+   * Subscribe to public trades stream (raw connection, returns messages as-is)
    * https://api.docs.extended.exchange/#trades-stream
+   *
+   * For trades parsed into PublicTradeModel, use subscribeToPublicTradesTyped().
    */
   subscribeToPublicTrades(marketName?: string): PerpetualStreamConnection<any> {
     const path = marketName ? '/publicTrades/<market>' : '/publicTrades';
@@ -75,12 +99,24 @@ export class PerpetualStreamClient {
       pathParams: marketName ? { market: marketName } : undefined,
     });
 
-    return new PerpetualStreamConnection(url);
+    return new PerpetualStreamConnection(url, undefined, this.connectionOptions);
   }
 
   /**
-   * Subscribe to funding rates stream
+   * Subscribe to public trades stream
+   * https://api.docs.extended.exchange/#trades-stream
+   *
+   * Returns a PublicTradesSubscription yielding each trade as a PublicTradeModel.
+   */
+  subscribeToPublicTradesTyped(marketName?: string): PublicTradesSubscription {
+    return new PublicTradesSubscription(this.subscribeToPublicTrades(marketName));
+  }
+
+  /**
+   * Subscribe to funding rates stream (raw connection, returns messages as-is)
    * https://api.docs.extended.exchange/#funding-rates-stream
+   *
+   * For updates parsed into FundingRateModel, use subscribeToFundingRatesTyped().
    */
   subscribeToFundingRates(marketName?: string): PerpetualStreamConnection<any> {
     const path = marketName ? '/funding/<market>' : '/funding';
@@ -88,12 +124,24 @@ export class PerpetualStreamClient {
       pathParams: marketName ? { market: marketName } : undefined,
     });
 
-    return new PerpetualStreamConnection(url);
+    return new PerpetualStreamConnection(url, undefined, this.connectionOptions);
   }
 
   /**
-   * Subscribe to candles stream
+   * Subscribe to funding rates stream
+   * https://api.docs.extended.exchange/#funding-rates-stream
+   *
+   * Returns a FundingRateSubscription yielding FundingRateModel updates.
+   */
+  subscribeToFundingRatesTyped(marketName?: string): FundingRateSubscription {
+    return new FundingRateSubscription(this.subscribeToFundingRates(marketName));
+  }
+
+  /**
+   * Subscribe to candles stream (raw connection, returns messages as-is)
    * https://api.docs.extended.exchange/#candles-stream
+   *
+   * For a parsed rolling candle series, use subscribeToCandlesTyped().
    */
   subscribeToCandles(options: {
     marketName: string;
@@ -110,7 +158,22 @@ export class PerpetualStreamClient {
       },
     });
 
-    return new PerpetualStreamConnection(url);
+    return new PerpetualStreamConnection(url, undefined, this.connectionOptions);
+  }
+
+  /**
+   * Subscribe to candles stream
+   * https://api.docs.extended.exchange/#candles-stream
+   *
+   * Returns a CandleSubscription that maintains a rolling candle series, merging updates
+   * of the in-progress candle and closing it when the next interval starts.
+   */
+  subscribeToCandlesTyped(options: {
+    marketName: string;
+    candleType: string;
+    interval: string;
+  } & CandleSubscriptionOptions): CandleSubscription {
+    return new CandleSubscription(this.subscribeToCandles(options), { maxCandles: options.maxCandles });
   }
 
   /**
@@ -120,10 +183,10 @@ export class PerpetualStreamClient {
    * Returns an AccountSubscription that maintains full account state
    * (positions, orders, balance) and emits complete snapshots on every update.
    */
-  subscribeToAccountUpdates(apiKey: string): AccountSubscription {
+  subscribeToAccountUpdates(apiKey: string, options: AccountSubscriptionOptions = {}): AccountSubscription {
     const url = getUrl(`${this.apiUrl}/account`, {});
-    const connection = new PerpetualStreamConnection(url, apiKey);
-    return new AccountSubscription(connection);
+    const connection = new PerpetualStreamConnection(url, apiKey, this.connectionOptions);
+    return new AccountSubscription(connection, options);
   }
 
   /**
@@ -135,7 +198,7 @@ export class PerpetualStreamClient {
    */
   subscribeToAccountUpdatesRaw(apiKey: string): PerpetualStreamConnection<any> {
     const url = getUrl(`${this.apiUrl}/account`, {});
-    return new PerpetualStreamConnection(url, apiKey);
+    return new PerpetualStreamConnection(url, apiKey, this.connectionOptions);
   }
 }
 
@@ -0,0 +1,490 @@
+/**
+ * Multiplexed streams: one WebSocket per all-markets channel, fanned out per market
+ */
+
+import { EventEmitter } from 'events';
+import { StreamOverflowException } from '../../errors';
+import { AsyncQueue } from '../../utils/async-queue';
+import { getUrl, WrappedStreamResponse } from '../../utils/http';
+import {
+  ConnectionState,
+  PerpetualStreamConnection,
+  StreamConnection,
+  StreamConnectionOptions,
+} from './perpetual-stream-connection';
+import { OrderbookSubscription, OrderbookSubscriptionOptions } from './orderbook-subscription';
+import { PublicTradesSubscription } from './public-trades-subscription';
+import { FundingRateSubscription } from './funding-rate-subscription';
+
+/**
+ * Streams with an all-markets channel. Candles are per market only and cannot be multiplexed.
+ */
+export enum StreamChannel {
+  ORDERBOOKS = 'orderbooks',
+  PUBLIC_TRADES = 'publicTrades',
+  FUNDING = 'funding',
+}
+
+/**
+ * What to do when a consumer's buffer is full
+ */
+export enum OverflowPolicy {
+  /** Drop the oldest buffered message */
+  DROP_OLDEST = 'DROP_OLDEST',
+  /** Drop the incoming message */
+  DROP_NEWEST = 'DROP_NEWEST',
+  /** End the consumer's stream with `StreamOverflowException` */
+  CLOSE = 'CLOSE',
+}
+
+export interface StreamMultiplexerOptions extends StreamConnectionOptions {
+  /** Messages buffered per consumer before the overflow policy applies (default 10,000) */
+  bufferSize?: number;
+  overflow?: OverflowPolicy;
+}
+
+const DEFAULT_BUFFER_SIZE = 10_000;
+
+// Orderbook streams attaching within this window share one restart for their snapshots
+const SNAPSHOT_RESTART_DELAY_MS = 50;
+
+// Queued in message order when the shared connection is re-established
+const RECONNECTED = Symbol('reconnected');
+
+type StreamItem<T> = WrappedStreamResponse<T> | typeof RECONNECTED;
+
+interface Channel {
+  connection: PerpetualStreamConnection<any>;
+  streams: Map<string, Set<MultiplexedStream<any>>>;
+  ready: Promise<void>;
+  lastSequence: number;
+  resyncing: boolean;
+  /** Markets waiting for the scheduled restart that sends their snapshots */
+  snapshotMarkets: Set<string>;
+  snapshotRestart?: NodeJS.Timeout;
+}
+
+export interface MultiplexedStream<T> {
+  on(event: 'stateChange', listener: (state: ConnectionState, error?: Error) => void): this;
+  on(event: 'reconnected', listener: () => void): this;
+  once(event: 'stateChange', listener: (state: ConnectionState, error?: Error) => void): this;
+  once(event: 'reconnected', listener: () => void): this;
+}
+
+/**
+ * Messages of one market on a shared channel connection, with its own bounded buffer.
+ *
+ * Sequence numbers are renumbered per market, so messages dropped on overflow show up
+ * as sequence gaps to consumers such as `OrderbookSubscription`.
+ */
+export class MultiplexedStream<T> extends EventEmitter implements StreamConnection<T> {
+  readonly channel: StreamChannel;
+  readonly marketName: string;
+  private multiplexer: StreamMultiplexer;
+  private queue: AsyncQueue<StreamItem<T>> = new AsyncQueue();
+  private bufferSize: number;
+  private overflow: OverflowPolicy;
+  private closed: boolean = false;
+  private error?: Error;
+  private sequence: number = 0;
+  private dropped: number = 0;
+
+  constructor(
+    multiplexer: StreamMultiplexer,
+    channel: StreamChannel,
+    marketName: string,
+    options: { bufferSize: number; overflow: OverflowPolicy }
+  ) {
+    super();
+    this.multiplexer = multiplexer;
+    this.channel = channel;
+    this.marketName = marketName;
+    this.bufferSize = options.bufferSize;
+    this.overflow = options.overflow;
+  }
+
+  /**
+   * Attach to the shared channel connection, opening it if this is its first consumer
+   */
+  async connect(): Promise<this> {
+    await this.multiplexer.attach(this);
+    return this;
+  }
+
+  /**
+   * Detach from the channel; the shared connection closes with its last consumer
+   */
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.end();
+    this.multiplexer.detach(this);
+  }
+
+  async recv(): Promise<WrappedStreamResponse<T>> {
+    while (true) {
+      const result = await this.queue.next();
+      if (result.done) {
+        throw this.error ?? new Error('Stream is closed');
+      }
+      if (result.value === RECONNECTED) {
+        this.emit('reconnected');
+        continue;
+      }
+      return result.value;
+    }
+  }
+
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  getState(): ConnectionState {
+    return this.closed ? ConnectionState.CLOSED : this.multiplexer.getChannelState(this.channel);
+  }
+
+  /**
+   * Restart the shared channel connection. All markets of the channel receive fresh snapshots.
+   */
+  restart(reason?: Error): void {
+    this.multiplexer.restartChannel(this.channel, reason);
+  }
+
+  /**
+   * Messages dropped because the buffer was full
+   */
+  getDroppedCount(): number {
+    return this.dropped;
+  }
+
+  /**
+   * Buffer a message from the channel. Called by the multiplexer.
+   */
+  deliver(message: WrappedStreamResponse<T>): void {
+    if (this.closed) {
+      return;
+    }
+
+    this.sequence++;
+    if (this.queue.size >= this.bufferSize) {
+      this.dropped++;
+      if (this.overflow === OverflowPolicy.DROP_NEWEST) {
+        return;
+      }
+      if (this.overflow === OverflowPolicy.CLOSE) {
+        this.end(
+          new StreamOverflowException(
+            `${this.channel} stream of ${this.marketName} exceeded its buffer of ${this.bufferSize} messages`
+          )
+        );
+        this.multiplexer.detach(this);
+        return;
+      }
+      if (this.queue.shift() === RECONNECTED) {
+        // Everything before the marker was consumed, so the event is still in order
+        this.emit('reconnected');
+        this.queue.shift();
+      }
+    }
+    // Messages are parsed JSON rather than model instances
+    this.queue.push({ ...message, seq: this.sequence } as WrappedStreamResponse<T>);
+  }
+
+  /**
+   * Mark the start of a re-established channel connection. Called by the multiplexer.
+   */
+  deliverReconnected(): void {
+    this.sequence = 0;
+    this.queue.push(RECONNECTED);
+  }
+
+  /**
+   * Forward a state change of the channel connection. Called by the multiplexer.
+   */
+  deliverState(state: ConnectionState, error?: Error): void {
+    if (!this.closed) {
+      this.emit('stateChange', state, error);
+    }
+  }
+
+  /**
+   * End the stream after buffered messages are drained, with `error` if given
+   */
+  end(error?: Error): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.error = error;
+    this.queue.close();
+    this.emit('stateChange', ConnectionState.CLOSED, error);
+  }
+}
+
+/**
+ * Shares one WebSocket per channel (orderbooks, public trades, funding) between any
+ * number of per-market consumers. Each consumer has its own bounded buffer, so a slow
+ * consumer does not hold back the others.
+ */
+export class StreamMultiplexer {
+  private apiUrl: string;
+  private connectionOptions: StreamConnectionOptions;
+  private bufferSize: number;
+  private overflow: OverflowPolicy;
+  private channels: Map<StreamChannel, Channel> = new Map();
+
+  constructor(options: { apiUrl: string } & StreamMultiplexerOptions) {
+    this.apiUrl = options.apiUrl;
+    this.connectionOptions = { reconnect: options.reconnect };
+    this.bufferSize = options.bufferSize ?? DEFAULT_BUFFER_SIZE;
+    this.overflow = options.overflow ?? OverflowPolicy.DROP_OLDEST;
+  }
+
+  /**
+   * Orderbook of one market from the shared all-markets orderbooks connection
+   */
+  subscribeToOrderbooks(marketName: string, options: OrderbookSubscriptionOptions = {}): OrderbookSubscription {
+    return new OrderbookSubscription(this.createStream(StreamChannel.ORDERBOOKS, marketName), marketName, options);
+  }
+
+  /**
+   * Public trades of one market from the shared all-markets trades connection
+   */
+  subscribeToPublicTrades(marketName: string): PublicTradesSubscription {
+    return new PublicTradesSubscription(this.createStream(StreamChannel.PUBLIC_TRADES, marketName));
+  }
+
+  /**
+   * Funding rates of one market from the shared all-markets funding connection
+   */
+  subscribeToFundingRates(marketName: string): FundingRateSubscription {
+    return new FundingRateSubscription(this.createStream(StreamChannel.FUNDING, marketName));
+  }
+
+  /**
+   * Messages of one market on a channel as-is, with sequence numbers renumbered per market
+   */
+  subscribeRaw(channel: StreamChannel, marketName: string): MultiplexedStream<any> {
+    return this.createStream(channel, marketName);
+  }
+
+  getChannelState(channel: StreamChannel): ConnectionState {
+    return this.channels.get(channel)?.connection.getState() ?? ConnectionState.CLOSED;
+  }
+
+  /**
+   * Close all channel connections and end all streams
+   */
+  async close(): Promise<void> {
+    const channels = Array.from(this.channels.values());
+    this.channels.clear();
+    for (const channel of channels) {
+      this.cancelSnapshotRestart(channel);
+      this.endStreams(channel);
+      await channel.connection.close();
+    }
+  }
+
+  /**
+   * Register a stream, opening its channel connection on first use.
+   *
+   * Orderbook snapshots are only sent when a connection opens, so a stream attaching to an
+   * already open orderbooks channel restarts it: all its markets receive fresh snapshots.
+   * Streams attaching in quick succession share one restart.
+   */
+  async attach(stream: MultiplexedStream<any>): Promise<void> {
+    let channel = this.channels.get(stream.channel);
+    if (!channel) {
+      channel = this.openChannel(stream.channel);
+    }
+    const needsSnapshot =
+      stream.channel === StreamChannel.ORDERBOOKS && channel.connection.getState() === ConnectionState.OPEN;
+
+    let streams = channel.streams.get(stream.marketName);
+    if (!streams) {
+      streams = new Set();
+      channel.streams.set(stream.marketName, streams);
+    }
+    streams.add(stream);
+
+    await channel.ready;
+    if (needsSnapshot) {
+      this.scheduleSnapshotRestart(channel, stream.marketName);
+    }
+  }
+
+  /**
+   * Unregister a stream, closing its channel connection when it was the last one
+   */
+  detach(stream: MultiplexedStream<any>): void {
+    const channel = this.channels.get(stream.channel);
+    const streams = channel?.streams.get(stream.marketName);
+    if (!channel || !streams) {
+      return;
+    }
+
+    streams.delete(stream);
+    if (streams.size === 0) {
+      channel.streams.delete(stream.marketName);
+    }
+    if (channel.streams.size === 0) {
+      this.channels.delete(stream.channel);
+      this.cancelSnapshotRestart(channel);
+      channel.connection.close();
+    }
+  }
+
+  restartChannel(channel: StreamChannel, reason?: Error): void {
+    this.channels.get(channel)?.connection.restart(reason);
+  }
+
+  /**
+   * Restart the channel for a snapshot of `marketName` after a short delay, together with
+   * the markets attaching in the meantime
+   */
+  private scheduleSnapshotRestart(channel: Channel, marketName: string): void {
+    channel.snapshotMarkets.add(marketName);
+    if (channel.snapshotRestart) {
+      return;
+    }
+    channel.snapshotRestart = setTimeout(() => {
+      const markets = Array.from(channel.snapshotMarkets).join(', ');
+      this.cancelSnapshotRestart(channel);
+      channel.connection.restart(new Error(`Resubscribing ${StreamChannel.ORDERBOOKS} for snapshots of ${markets}`));
+    }, SNAPSHOT_RESTART_DELAY_MS);
+  }
+
+  private cancelSnapshotRestart(channel: Channel): void {
+    clearTimeout(channel.snapshotRestart);
+    channel.snapshotRestart = undefined;
+    channel.snapshotMarkets.clear();
+  }
+
+  private createStream(channel: StreamChannel, marketName: string): MultiplexedStream<any> {
+    return new MultiplexedStream(this, channel, marketName, {
+      bufferSize: this.bufferSize,
+      overflow: this.overflow,
+    });
+  }
+
+  private openChannel(name: StreamChannel): Channel {
+    const connection = new PerpetualStreamConnection<any>(getUrl(`${this.apiUrl}/${name}`, {}), undefined, this.connectionOptions);
+    const channel: Channel = {
+      connection,
+      streams: new Map(),
+      ready: Promise.resolve(),
+      lastSequence: 0,
+      resyncing: false,
+      snapshotMarkets: new Set(),
+    };
+
+    connection.on('stateChange', (state, error) => {
+      for (const stream of this.allStreams(channel)) {
+        stream.deliverState(state, error);
+      }
+    });
+    connection.on('reconnected', () => {
+      // The new connection sends snapshots of all markets, including those waiting for one
+      this.cancelSnapshotRestart(channel);
+      channel.lastSequence = 0;
+      channel.resyncing = false;
+      for (const stream of this.allStreams(channel)) {
+        stream.deliverReconnected();
+      }
+    });
+
+    channel.ready = connection.connect().then(
+      () => {
+        this.pump(name, channel);
+      },
+      (error) => {
+        if (this.channels.get(name) === channel) {
+          this.channels.delete(name);
+        }
+        this.endStreams(channel, error);
+        throw error;
+      }
+    );
+    this.channels.set(name, channel);
+    return channel;
+  }
+
+  /**
+   * Route messages of the channel connection to the streams of their markets
+   */
+  private async pump(name: StreamChannel, channel: Channel): Promise<void> {
+    while (true) {
+      let message: WrappedStreamResponse<any>;
+      try {
+        message = await channel.connection.recv();
+      } catch {
+        break;
+      }
+
+      // Orderbook deltas of all markets share the connection's sequence: a gap means some
+      // market missed an update, so the whole channel is resynced from fresh snapshots
+      if (name === StreamChannel.ORDERBOOKS && message.seq) {
+        if (channel.resyncing) {
+          continue;
+        }
+        if (channel.lastSequence && message.seq !== channel.lastSequence + 1) {
+          channel.resyncing = true;
+          channel.connection.restart(
+            new Error(`Sequence gap on ${name}: expected ${channel.lastSequence + 1}, got ${message.seq}`)
+          );
+          continue;
+        }
+        channel.lastSequence = message.seq;
+      }
+
+      for (const [marketName, marketMessage] of splitByMarket(message)) {
+        for (const stream of channel.streams.get(marketName) ?? []) {
+          stream.deliver(marketMessage);
+        }
+      }
+    }
+
+    if (this.channels.get(name) === channel) {
+      this.channels.delete(name);
+    }
+    this.endStreams(channel);
+  }
+
+  private allStreams(channel: Channel): MultiplexedStream<any>[] {
+    return Array.from(channel.streams.values()).flatMap((streams) => Array.from(streams));
+  }
+
+  private endStreams(channel: Channel, error?: Error): void {
+    for (const stream of this.allStreams(channel)) {
+      stream.end(error);
+    }
+    channel.streams.clear();
+  }
+}
+
+/**
+ * Split a message by market: list payloads (trades) are grouped by the `m` field of their
+ * items, object payloads (orderbooks, funding) are routed by their own `m` field
+ */
+function splitByMarket(message: WrappedStreamResponse<any>): Array<[string, WrappedStreamResponse<any>]> {
+  const data = message.data;
+
+  if (Array.isArray(data)) {
+    const byMarket = new Map<string, any[]>();
+    for (const item of data) {
+      if (!item?.m) {
+        continue;
+      }
+      const items = byMarket.get(item.m) ?? [];
+      items.push(item);
+      byMarket.set(item.m, items);
+    }
+    return Array.from(byMarket, ([market, items]) => [market, { ...message, data: items } as WrappedStreamResponse<any>]);
+  }
+
+  if (data?.m) {
+    return [[data.m, message]];
+  }
+  return [];
+}
@@ -0,0 +1,66 @@
+/**
+ * Base class of subscriptions that parse stream messages into models
+ */
+
+import { StreamConnection, ConnectionState } from './perpetual-stream-connection';
+import { WrappedStreamResponse } from '../../utils/http';
+
+/**
+ * Subscription yielding the items parsed from each message of a stream connection.
+ * Iteration ends once the connection is closed and buffered messages are drained;
+ * messages that cannot be parsed throw `DeserializationException` from the iterator.
+ */
+export abstract class StreamSubscription<T> implements AsyncIterable<T> {
+  protected connection: StreamConnection<any>;
+
+  constructor(connection: StreamConnection<any>) {
+    this.connection = connection;
+  }
+
+  async connect(): Promise<this> {
+    await this.connection.connect();
+    return this;
+  }
+
+  async close(): Promise<void> {
+    await this.connection.close();
+  }
+
+  isClosed(): boolean {
+    return this.connection.isClosed();
+  }
+
+  getConnectionState(): ConnectionState {
+    return this.connection.getState();
+  }
+
+  /**
+   * Register a listener for connection state changes. Returns a function that removes the listener.
+   */
+  onConnectionStateChange(listener: (state: ConnectionState, error?: Error) => void): () => void {
+    this.connection.on('stateChange', listener);
+    return () => {
+      this.connection.off('stateChange', listener);
+    };
+  }
+
+  /**
+   * Items of one stream message, in order
+   */
+  protected abstract handleMessage(message: WrappedStreamResponse<any>): T[];
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    while (true) {
+      let message: WrappedStreamResponse<any>;
+      try {
+        message = await this.connection.recv();
+      } catch {
+        break;
+      }
+      if (!message.data) {
+        continue;
+      }
+      yield* this.handleMessage(message);
+    }
+  }
+}
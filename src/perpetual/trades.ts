@@ -4,6 +4,7 @@
 
 import Decimal from 'decimal.js';
 import { X10BaseModel } from '../utils/model';
+import { ModelSchema } from '../utils/deserialize';
 import { OrderSide } from './orders';
 
 /**
@@ -19,6 +20,16 @@ export enum TradeType {
  * Public trade model
  */
 export class PublicTradeModel extends X10BaseModel {
+  static schema: ModelSchema = {
+    id: 'number',
+    market: 'string',
+    side: 'string',
+    tradeType: { type: 'string', optional: true },
+    timestamp: 'number',
+    price: 'decimal',
+    qty: 'decimal',
+  };
+
   id: number;
   market: string;
   side: OrderSide;
@@ -32,6 +43,21 @@ export class PublicTradeModel extends X10BaseModel {
  * Account trade model
  */
 export class AccountTradeModel extends X10BaseModel {
+  static schema: ModelSchema = {
+    id: 'number',
+    accountId: { type: 'number', optional: true },
+    market: 'string',
+    orderId: { type: 'number', optional: true },
+    side: 'string',
+    price: 'decimal',
+    qty: 'decimal',
+    value: { type: 'decimal', optional: true },
+    fee: { type: 'decimal', optional: true },
+    isTaker: { type: 'boolean', optional: true },
+    tradeType: { type: 'string', optional: true },
+    createdTime: { type: 'number', optional: true },
+  };
+
   id: number;
   accountId: number;
   market: string;
@@ -4,13 +4,7 @@
 
 import Decimal from 'decimal.js';
 import { BaseModule } from './base-module';
-import {
-  WrappedApiResponse,
-  sendGetRequest,
-  sendPatchRequest,
-  sendPostRequest,
-  sendDeleteRequest,
-} from '../../utils/http';
+import { WrappedApiResponse } from '../../utils/http';
 import { EmptyModel } from '../../utils/model';
 import {
   AccountModel,
@@ -23,8 +17,11 @@ import {
   OpenOrderModel,
 } from '../orders';
 import { TradingFeeModel } from '../fees';
+import { PositionModel, PositionHistoryModel } from '../positions';
+import { AccountTradeModel } from '../trades';
 import { MarketModel } from '../markets';
 import { toEpochMillis } from '../../utils/date';
+import { paginate, PaginationOptions, TimeRangeOptions, toTimestamp } from '../../utils/pagination';
 import { ClientModel } from '../clients';
 import { BridgesConfig, Quote } from '../bridges';
 import { TransferResponseModel } from '../transfers';
@@ -40,7 +37,7 @@ export class AccountModule extends BaseModule {
    */
   async getAccount(): Promise<WrappedApiResponse<AccountModel>> {
     const url = this.getUrl('/user/account/info');
-    return await sendGetRequest<AccountModel>(url, this.getApiKey());
+    return await this.sendGetRequest<AccountModel>(url, this.getApiKey(), { model: AccountModel });
   }
 
   /**
@@ -48,7 +45,7 @@ export class AccountModule extends BaseModule {
    */
   async getClient(): Promise<WrappedApiResponse<ClientModel>> {
     const url = this.getUrl('/user/client/info');
-    return await sendGetRequest<ClientModel>(url, this.getApiKey());
+    return await this.sendGetRequest<ClientModel>(url, this.getApiKey());
   }
 
   /**
@@ -57,7 +54,7 @@ export class AccountModule extends BaseModule {
    */
   async getBalance(): Promise<WrappedApiResponse<BalanceModel>> {
     const url = this.getUrl('/user/balance');
-    return await sendGetRequest<BalanceModel>(url, this.getApiKey());
+    return await this.sendGetRequest<BalanceModel>(url, this.getApiKey(), { model: BalanceModel });
   }
 
   /**
@@ -67,14 +64,14 @@ export class AccountModule extends BaseModule {
   async getPositions(options: {
     marketNames?: string[];
     positionSide?: string;
-  } = {}): Promise<WrappedApiResponse<any[]>> {
+  } = {}): Promise<WrappedApiResponse<PositionModel[]>> {
     const url = this.getUrl('/user/positions', {
       query: {
         market: options.marketNames,
         side: options.positionSide ? [options.positionSide] : undefined,
       },
     });
-    return await sendGetRequest<any[]>(url, this.getApiKey());
+    return await this.sendGetRequest<PositionModel[]>(url, this.getApiKey(), { model: PositionModel });
   }
 
   /**
@@ -86,7 +83,7 @@ export class AccountModule extends BaseModule {
     positionSide?: string;
     cursor?: number;
     limit?: number;
-  } = {}): Promise<WrappedApiResponse<any[]>> {
+  } = {}): Promise<WrappedApiResponse<PositionHistoryModel[]>> {
     const url = this.getUrl('/user/positions/history', {
       query: {
         market: options.marketNames,
@@ -95,7 +92,25 @@ export class AccountModule extends BaseModule {
         limit: options.limit?.toString(),
       },
     });
-    return await sendGetRequest<any[]>(url, this.getApiKey());
+    return await this.sendGetRequest<PositionHistoryModel[]>(url, this.getApiKey(), {
+      model: PositionHistoryModel,
+    });
+  }
+
+  /**
+   * Iterate over positions history, following pagination cursors
+   */
+  iteratePositionsHistory(
+    options: {
+      marketNames?: string[];
+      positionSide?: string;
+    } & PaginationOptions &
+      TimeRangeOptions = {}
+  ): AsyncGenerator<PositionHistoryModel> {
+    return paginate(
+      (cursor, limit) => this.getPositionsHistory({ ...options, cursor, limit }),
+      { ...options, getTime: (position) => position.createdTime }
+    );
   }
 
   /**
@@ -114,7 +129,7 @@ export class AccountModule extends BaseModule {
         side: options.orderSide ? [options.orderSide] : undefined,
       },
     });
-    return await sendGetRequest<OpenOrderModel[]>(url, this.getApiKey());
+    return await this.sendGetRequest<OpenOrderModel[]>(url, this.getApiKey(), { model: OpenOrderModel });
   }
 
   /**
@@ -137,7 +152,24 @@ export class AccountModule extends BaseModule {
         limit: options.limit?.toString(),
       },
     });
-    return await sendGetRequest<OpenOrderModel[]>(url, this.getApiKey());
+    return await this.sendGetRequest<OpenOrderModel[]>(url, this.getApiKey(), { model: OpenOrderModel });
+  }
+
+  /**
+   * Iterate over orders history, following pagination cursors
+   */
+  iterateOrdersHistory(
+    options: {
+      marketNames?: string[];
+      orderType?: OrderType;
+      orderSide?: OrderSide;
+    } & PaginationOptions &
+      TimeRangeOptions = {}
+  ): AsyncGenerator<OpenOrderModel> {
+    return paginate(
+      (cursor, limit) => this.getOrdersHistory({ ...options, cursor, limit }),
+      { ...options, getTime: (order) => order.createdTime }
+    );
   }
 
   /**
@@ -148,7 +180,7 @@ export class AccountModule extends BaseModule {
     const url = this.getUrl('/user/orders/<order_id>', {
       pathParams: { order_id: orderId },
     });
-    return await sendGetRequest<OpenOrderModel>(url, this.getApiKey());
+    return await this.sendGetRequest<OpenOrderModel>(url, this.getApiKey(), { model: OpenOrderModel });
   }
 
   /**
@@ -159,7 +191,7 @@ export class AccountModule extends BaseModule {
     const url = this.getUrl('/user/orders/external/<external_id>', {
       pathParams: { external_id: externalId },
     });
-    return await sendGetRequest<OpenOrderModel[]>(url, this.getApiKey());
+    return await this.sendGetRequest<OpenOrderModel[]>(url, this.getApiKey(), { model: OpenOrderModel });
   }
 
   /**
@@ -172,7 +204,7 @@ export class AccountModule extends BaseModule {
     tradeType?: string;
     cursor?: number;
     limit?: number;
-  }): Promise<WrappedApiResponse<any[]>> {
+  }): Promise<WrappedApiResponse<AccountTradeModel[]>> {
     const url = this.getUrl('/user/trades', {
       query: {
         market: options.marketNames,
@@ -182,7 +214,24 @@ export class AccountModule extends BaseModule {
         limit: options.limit?.toString(),
       },
     });
-    return await sendGetRequest<any[]>(url, this.getApiKey());
+    return await this.sendGetRequest<AccountTradeModel[]>(url, this.getApiKey(), { model: AccountTradeModel });
+  }
+
+  /**
+   * Iterate over trades, following pagination cursors
+   */
+  iterateTrades(
+    options: {
+      marketNames: string[];
+      tradeSide?: OrderSide;
+      tradeType?: string;
+    } & PaginationOptions &
+      TimeRangeOptions
+  ): AsyncGenerator<AccountTradeModel> {
+    return paginate(
+      (cursor, limit) => this.getTrades({ ...options, cursor, limit }),
+      { ...options, getTime: (trade) => trade.createdTime }
+    );
   }
 
   /**
@@ -199,7 +248,13 @@ export class AccountModule extends BaseModule {
         builderId: options.builderId?.toString(),
       },
     });
-    return await sendGetRequest<TradingFeeModel[]>(url, this.getApiKey());
+    const response = await this.sendGetRequest<TradingFeeModel[]>(url, this.getApiKey(), {
+      model: TradingFeeModel,
+    });
+    for (const fee of response.data || []) {
+      fee.builderFeeRate = fee.builderFeeRate ?? new Decimal(0);
+    }
+    return response;
   }
 
   /**
@@ -212,7 +267,7 @@ export class AccountModule extends BaseModule {
         market: marketNames,
       },
     });
-    return await sendGetRequest<AccountLeverage[]>(url, this.getApiKey());
+    return await this.sendGetRequest<AccountLeverage[]>(url, this.getApiKey(), { model: AccountLeverage });
   }
 
   /**
@@ -222,7 +277,7 @@ export class AccountModule extends BaseModule {
   async updateLeverage(marketName: string, leverage: Decimal): Promise<WrappedApiResponse<EmptyModel>> {
     const url = this.getUrl('/user/leverage');
     const requestModel = new AccountLeverage(marketName, leverage);
-    return await sendPatchRequest<EmptyModel>(
+    return await this.sendPatchRequest<EmptyModel>(
       url,
       requestModel.toApiRequestJson(),
       this.getApiKey()
@@ -252,7 +307,28 @@ export class AccountModule extends BaseModule {
         id: options.id?.toString(),
       },
     });
-    return await sendGetRequest<any[]>(url, this.getApiKey());
+    return await this.sendGetRequest<any[]>(url, this.getApiKey());
+  }
+
+  /**
+   * Iterate over asset operations, following pagination cursors
+   */
+  iterateAssetOperations(
+    options: {
+      operationsType?: string[];
+      operationsStatus?: string[];
+    } & PaginationOptions &
+      TimeRangeOptions = {}
+  ): AsyncGenerator<any> {
+    return this.iterateTimeRange(
+      (query) =>
+        this.assetOperations({
+          ...query,
+          operationsType: options.operationsType,
+          operationsStatus: options.operationsStatus,
+        }),
+      options
+    );
   }
 
   /**
@@ -260,7 +336,7 @@ export class AccountModule extends BaseModule {
    */
   async getBridgeConfig(): Promise<WrappedApiResponse<BridgesConfig>> {
     const url = this.getUrl('/user/bridge/config');
-    return await sendGetRequest<BridgesConfig>(url, this.getApiKey());
+    return await this.sendGetRequest<BridgesConfig>(url, this.getApiKey());
   }
 
   /**
@@ -278,7 +354,7 @@ export class AccountModule extends BaseModule {
         amount: amount.toString(),
       },
     });
-    return await sendGetRequest<Quote>(url, this.getApiKey());
+    return await this.sendGetRequest<Quote>(url, this.getApiKey());
   }
 
   /**
@@ -288,7 +364,7 @@ export class AccountModule extends BaseModule {
     const url = this.getUrl('/user/bridge/quote', {
       query: { id },
     });
-    return await sendPostRequest<EmptyModel>(url, undefined, this.getApiKey());
+    return await this.sendPostRequest<EmptyModel>(url, undefined, this.getApiKey());
   }
 
   /**
@@ -316,7 +392,7 @@ export class AccountModule extends BaseModule {
       options.nonce
     );
 
-    return await sendPostRequest<TransferResponseModel>(
+    return await this.sendPostRequest<TransferResponseModel>(
       url,
       requestModel.toApiRequestJson(),
       this.getApiKey()
@@ -389,7 +465,7 @@ export class AccountModule extends BaseModule {
       options.quoteId
     );
 
-    return await sendPostRequest<number>(url, requestModel.toApiRequestJson(), this.getApiKey());
+    return await this.sendPostRequest<number>(url, requestModel.toApiRequestJson(), this.getApiKey());
   }
 
   /**
@@ -456,7 +532,7 @@ export class AccountModule extends BaseModule {
       requestBody.quoteId = options.quoteId;
     }
 
-    return await sendPostRequest<number>(url, requestBody, this.getApiKey());
+    return await this.sendPostRequest<number>(url, requestBody, this.getApiKey());
   }
 
   /**
@@ -477,7 +553,14 @@ export class AccountModule extends BaseModule {
         endTime: options.endTime?.toString(),
       },
     });
-    return await sendGetRequest<any[]>(url, this.getApiKey());
+    return await this.sendGetRequest<any[]>(url, this.getApiKey());
+  }
+
+  /**
+   * Iterate over deposits, following pagination cursors
+   */
+  iterateDeposits(options: PaginationOptions & TimeRangeOptions = {}): AsyncGenerator<any> {
+    return this.iterateTimeRange((query) => this.getDeposits(query), options);
   }
 
   /**
@@ -498,7 +581,14 @@ export class AccountModule extends BaseModule {
         endTime: options.endTime?.toString(),
       },
     });
-    return await sendGetRequest<any[]>(url, this.getApiKey());
+    return await this.sendGetRequest<any[]>(url, this.getApiKey());
+  }
+
+  /**
+   * Iterate over withdrawals, following pagination cursors
+   */
+  iterateWithdrawals(options: PaginationOptions & TimeRangeOptions = {}): AsyncGenerator<any> {
+    return this.iterateTimeRange((query) => this.getWithdrawals(query), options);
   }
 
   /**
@@ -519,7 +609,32 @@ export class AccountModule extends BaseModule {
         endTime: options.endTime?.toString(),
       },
     });
-    return await sendGetRequest<any[]>(url, this.getApiKey());
+    return await this.sendGetRequest<any[]>(url, this.getApiKey());
+  }
+
+  /**
+   * Iterate over transfers, following pagination cursors
+   */
+  iterateTransfers(options: PaginationOptions & TimeRangeOptions = {}): AsyncGenerator<any> {
+    return this.iterateTimeRange((query) => this.getTransfers(query), options);
   }
-}
 
+  /**
+   * Iterate over an endpoint that filters by time range on the server
+   */
+  private iterateTimeRange(
+    getPage: (query: { cursor?: number; limit?: number; startTime?: number; endTime?: number }) => Promise<WrappedApiResponse<any[]>>,
+    options: PaginationOptions & TimeRangeOptions
+  ): AsyncGenerator<any> {
+    return paginate(
+      (cursor, limit) =>
+        getPage({
+          cursor,
+          limit,
+          startTime: toTimestamp(options.startTime),
+          endTime: toTimestamp(options.endTime),
+        }),
+      { cursor: options.cursor, limit: options.limit, maxCount: options.maxCount }
+    );
+  }
+}
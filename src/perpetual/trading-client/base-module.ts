@@ -5,8 +5,47 @@
 import { EndpointConfig } from '../configuration';
 import { StarkPerpetualAccount } from '../accounts';
 import { X10Error } from '../../errors';
-import { getUrl } from '../../utils/http';
-import { DEFAULT_REQUEST_TIMEOUT_SECONDS } from '../../config';
+import {
+  RequestOptions,
+  WrappedApiResponse,
+  getUrl,
+  sendGetRequest,
+  sendPostRequest,
+  sendPatchRequest,
+  sendDeleteRequest,
+} from '../../utils/http';
+import { HttpMethod, HttpTransport, createDefaultHttpTransport } from '../../utils/http-transport';
+import { RetryOptions, RetryPolicy, resolveRetryPolicy, withRetry } from '../../utils/retry';
+import { ModelType, deserialize } from '../../utils/deserialize';
+import { EndpointGroup, RateLimiter } from '../../utils/rate-limiter';
+import { DEFAULT_REQUEST_TIMEOUT_MS } from '../../config';
+
+/**
+ * Options shared by all trading client modules
+ */
+export interface BaseModuleOptions {
+  apiKey?: string;
+  starkAccount?: StarkPerpetualAccount;
+  /** Overrides of `DEFAULT_RETRY_POLICY` */
+  retryPolicy?: Partial<RetryPolicy>;
+  /** Limiter shared by the modules of a client; requests are not throttled without one */
+  rateLimiter?: RateLimiter;
+  /**
+   * Transport for REST requests, defaults to `endpointConfig.httpTransport`, or else a
+   * keep-alive connection pool owned by the module
+   */
+  transport?: HttpTransport;
+  /** Timeout of each request attempt, `DEFAULT_REQUEST_TIMEOUT_MS` (30 s) by default */
+  requestTimeoutMs?: number;
+}
+
+/**
+ * Per-request options of module requests
+ */
+export interface ModuleRequestOptions<T> extends RetryOptions<WrappedApiResponse<T>> {
+  /** Model class to hydrate the response data into (each item, for array data) */
+  model?: ModelType;
+}
 
 /**
  * Base module class for all trading client modules
@@ -15,18 +54,48 @@ export class BaseModule {
   private endpointConfig: EndpointConfig;
   private apiKey?: string;
   private starkAccount?: StarkPerpetualAccount;
-  private session?: any; // Will be fetch-based, no session needed
-
-  constructor(
-    endpointConfig: EndpointConfig,
-    options: {
-      apiKey?: string;
-      starkAccount?: StarkPerpetualAccount;
-    } = {}
-  ) {
+  private retryPolicy: RetryPolicy;
+  private rateLimiter?: RateLimiter;
+  private transport: HttpTransport;
+  private ownsTransport: boolean;
+  private requestOptions: Omit<RequestOptions, 'transport'>;
+
+  constructor(endpointConfig: EndpointConfig, options: BaseModuleOptions = {}) {
     this.endpointConfig = endpointConfig;
     this.apiKey = options.apiKey;
     this.starkAccount = options.starkAccount;
+    this.retryPolicy = resolveRetryPolicy(options.retryPolicy);
+    this.rateLimiter = options.rateLimiter;
+    const transport = options.transport ?? endpointConfig.httpTransport;
+    this.transport = transport ?? createDefaultHttpTransport();
+    this.ownsTransport = !transport;
+    this.requestOptions = { timeoutMs: options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS };
+  }
+
+  /**
+   * Get a copy of this module that sends requests with a different retry policy,
+   * e.g. `client.account.withRetryPolicy({ maxRetries: 0 }).getBalance()`
+   */
+  withRetryPolicy(policy: Partial<RetryPolicy>): this {
+    return this.clone({ retryPolicy: resolveRetryPolicy(policy, this.retryPolicy) });
+  }
+
+  /**
+   * Get a copy of this module that sends requests with a different timeout or abort signal,
+   * e.g. `client.orders.withRequestOptions({ timeoutMs: 2000 }).placeOrder(order)`
+   */
+  withRequestOptions(options: { timeoutMs?: number; signal?: AbortSignal }): this {
+    return this.clone({ requestOptions: { ...this.requestOptions, ...options } });
+  }
+
+  private clone(changes: { retryPolicy?: RetryPolicy; requestOptions?: Omit<RequestOptions, 'transport'> }): this {
+    const module = Object.create(Object.getPrototypeOf(this));
+    // Copies share the transport, which stays owned by the original module
+    return Object.assign(module, this, { ownsTransport: false }, changes);
+  }
+
+  getRetryPolicy(): RetryPolicy {
+    return this.retryPolicy;
   }
 
   protected getUrl(path: string, options: {
@@ -58,8 +127,94 @@ export class BaseModule {
     return this.starkAccount;
   }
 
+  /**
+   * Endpoint group the module's requests are rate limited under
+   */
+  protected getEndpointGroup(method: HttpMethod): EndpointGroup {
+    return EndpointGroup.PRIVATE;
+  }
+
+  /**
+   * Send a request through the rate limiter, retried according to the module's retry policy.
+   * Every attempt takes a rate limiter token.
+   */
+  private async send<T>(
+    method: HttpMethod,
+    request: (options: RequestOptions) => Promise<WrappedApiResponse<T>>,
+    options: ModuleRequestOptions<T>
+  ): Promise<WrappedApiResponse<T>> {
+    const group = this.getEndpointGroup(method);
+    const requestOptions = { ...this.requestOptions, transport: this.transport };
+    const response = await withRetry(
+      async () => {
+        await this.rateLimiter?.acquire(group);
+        return request(requestOptions);
+      },
+      this.retryPolicy,
+      options
+    );
+
+    if (options.model && response.data !== null && response.data !== undefined) {
+      response.data = deserialize(options.model, response.data, 'data');
+    }
+    return response;
+  }
+
+  /**
+   * Send GET request
+   */
+  protected async sendGetRequest<T>(
+    url: string,
+    apiKey?: string,
+    options: ModuleRequestOptions<T> = {}
+  ): Promise<WrappedApiResponse<T>> {
+    return this.send('GET', (request) => sendGetRequest<T>(url, apiKey, undefined, undefined, request), { idempotent: true, ...options });
+  }
+
+  /**
+   * Send POST request. POST requests are not idempotent by default: pass `idempotent`
+   * or `recover` to retry them after server errors.
+   */
+  protected async sendPostRequest<T>(
+    url: string,
+    json?: any,
+    apiKey?: string,
+    options: ModuleRequestOptions<T> = {}
+  ): Promise<WrappedApiResponse<T>> {
+    return this.send('POST', (request) => sendPostRequest<T>(url, json, apiKey, undefined, undefined, request), options);
+  }
+
+  /**
+   * Send PATCH request
+   */
+  protected async sendPatchRequest<T>(
+    url: string,
+    json?: any,
+    apiKey?: string,
+    options: ModuleRequestOptions<T> = {}
+  ): Promise<WrappedApiResponse<T>> {
+    return this.send('PATCH', (request) => sendPatchRequest<T>(url, json, apiKey, undefined, undefined, request), { idempotent: true, ...options });
+  }
+
+  /**
+   * Send DELETE request
+   */
+  protected async sendDeleteRequest<T>(
+    url: string,
+    apiKey?: string,
+    options: ModuleRequestOptions<T> = {}
+  ): Promise<WrappedApiResponse<T>> {
+    return this.send('DELETE', (request) => sendDeleteRequest<T>(url, apiKey, undefined, undefined, request), { idempotent: true, ...options });
+  }
+
+  /**
+   * Close the HTTP transport created by the module, releasing pooled connections.
+   * Transports passed in options or the endpoint config are left open for their owner.
+   */
   async closeSession(): Promise<void> {
-    // No-op for fetch-based implementation
+    if (this.ownsTransport) {
+      await this.transport.close?.();
+    }
   }
 }
 
@@ -3,7 +3,9 @@
  */
 
 import { BaseModule } from './base-module';
-import { WrappedApiResponse, sendGetRequest } from '../../utils/http';
+import { HttpMethod } from '../../utils/http-transport';
+import { EndpointGroup } from '../../utils/rate-limiter';
+import { WrappedApiResponse } from '../../utils/http';
 import { X10BaseModel } from '../../utils/model';
 
 /**
@@ -22,12 +24,16 @@ class SettingsModel extends X10BaseModel {
  * Info module for general information
  */
 export class InfoModule extends BaseModule {
+  protected getEndpointGroup(method: HttpMethod): EndpointGroup {
+    return EndpointGroup.PUBLIC;
+  }
+
   /**
    * Get settings
    */
   async getSettings(): Promise<WrappedApiResponse<SettingsModel>> {
     const url = this.getUrl('/info/settings');
-    return await sendGetRequest<SettingsModel>(url);
+    return await this.sendGetRequest<SettingsModel>(url);
   }
 }
 
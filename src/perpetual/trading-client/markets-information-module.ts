@@ -3,14 +3,21 @@
  */
 
 import { BaseModule } from './base-module';
-import { WrappedApiResponse, sendGetRequest } from '../../utils/http';
+import { HttpMethod } from '../../utils/http-transport';
+import { EndpointGroup } from '../../utils/rate-limiter';
+import { WrappedApiResponse } from '../../utils/http';
 import { MarketModel, MarketStatsModel } from '../markets';
+import { OrderbookUpdateModel } from '../orderbooks';
 import { toEpochMillis } from '../../utils/date';
 
 /**
  * Markets information module for market data
  */
 export class MarketsInformationModule extends BaseModule {
+  protected getEndpointGroup(method: HttpMethod): EndpointGroup {
+    return EndpointGroup.PUBLIC;
+  }
+
   /**
    * Get markets
    * https://api.docs.extended.exchange/#get-markets
@@ -23,7 +30,7 @@ export class MarketsInformationModule extends BaseModule {
         market: options.marketNames,
       },
     });
-    return await sendGetRequest<MarketModel[]>(url, this.getApiKey());
+    return await this.sendGetRequest<MarketModel[]>(url, this.getApiKey(), { model: MarketModel });
   }
 
   /**
@@ -34,21 +41,10 @@ export class MarketsInformationModule extends BaseModule {
     if (!response.data) {
       return {};
     }
-		const markets: Record<string, MarketModel> = {};
-		for (const market of response.data) {
-			// Hydrate plain JSON into proper model instances so getters work
-			const model = Object.assign(new MarketModel(), market);
-			if ((market as any).l2Config) {
-				model.l2Config = Object.assign((model as any).l2Config ?? {}, (market as any).l2Config);
-			}
-			if ((market as any).tradingConfig) {
-				model.tradingConfig = Object.assign((model as any).tradingConfig ?? {}, (market as any).tradingConfig);
-			}
-			if ((market as any).marketStats) {
-				model.marketStats = Object.assign((model as any).marketStats ?? {}, (market as any).marketStats);
-			}
-			markets[model.name] = model;
-		}
+    const markets: Record<string, MarketModel> = {};
+    for (const market of response.data) {
+      markets[market.name] = market;
+    }
     return markets;
   }
 
@@ -60,7 +56,7 @@ export class MarketsInformationModule extends BaseModule {
     const url = this.getUrl('/info/markets/<market>/stats', {
       pathParams: { market: marketName },
     });
-    return await sendGetRequest<MarketStatsModel>(url, this.getApiKey());
+    return await this.sendGetRequest<MarketStatsModel>(url, this.getApiKey(), { model: MarketStatsModel });
   }
 
   /**
@@ -85,7 +81,7 @@ export class MarketsInformationModule extends BaseModule {
         endTime: options.endTime ? toEpochMillis(options.endTime).toString() : undefined,
       },
     });
-    return await sendGetRequest<any[]>(url, this.getApiKey());
+    return await this.sendGetRequest<any[]>(url, this.getApiKey());
   }
 
   /**
@@ -104,18 +100,18 @@ export class MarketsInformationModule extends BaseModule {
         endTime: toEpochMillis(options.endTime).toString(),
       },
     });
-    return await sendGetRequest<any[]>(url, this.getApiKey());
+    return await this.sendGetRequest<any[]>(url, this.getApiKey());
   }
 
   /**
    * Get orderbook snapshot
    * https://api.docs.extended.exchange/#get-market-order-book
    */
-  async getOrderbookSnapshot(marketName: string): Promise<WrappedApiResponse<any>> {
+  async getOrderbookSnapshot(marketName: string): Promise<WrappedApiResponse<OrderbookUpdateModel>> {
     const url = this.getUrl('/info/markets/<market>/orderbook', {
       pathParams: { market: marketName },
     });
-    return await sendGetRequest<any>(url, this.getApiKey());
+    return await this.sendGetRequest<OrderbookUpdateModel>(url, this.getApiKey(), { model: OrderbookUpdateModel });
   }
 }
 
@@ -3,13 +3,12 @@
  */
 
 import { BaseModule } from './base-module';
-import {
-  WrappedApiResponse,
-  sendPostRequest,
-  sendDeleteRequest,
-} from '../../utils/http';
+import { HttpMethod } from '../../utils/http-transport';
+import { EndpointGroup } from '../../utils/rate-limiter';
+import { ResponseStatus, WrappedApiResponse } from '../../utils/http';
 import { EmptyModel, X10BaseModel } from '../../utils/model';
-import { NewOrderModel, PlacedOrderModel } from '../orders';
+import { NewOrderModel, OpenOrderModel, PlacedOrderModel } from '../orders';
+import { X10Error } from '../../errors';
 
 /**
  * Mass cancel request model
@@ -38,21 +37,77 @@ class MassCancelRequestModel extends X10BaseModel {
  * Order management module for managing orders
  */
 export class OrderManagementModule extends BaseModule {
+  protected getEndpointGroup(method: HttpMethod): EndpointGroup {
+    return method === 'GET' ? EndpointGroup.PRIVATE : EndpointGroup.ORDERS;
+  }
+
   /**
    * Place a new order on the exchange
    * https://api.docs.extended.exchange/#create-order
+   *
+   * After a server error or timeout the order is looked up by its external ID before
+   * being retried, so an order that reached the exchange is never sent twice.
    * 
    * @param order Order object created by `createOrderObject` method
    */
   async placeOrder(order: NewOrderModel): Promise<WrappedApiResponse<PlacedOrderModel>> {
     const url = this.getUrl('/user/order');
-    return await sendPostRequest<PlacedOrderModel>(
+    return await this.sendPostRequest<PlacedOrderModel>(
       url,
       order.toApiRequestJson(true),
-      this.getApiKey()
+      this.getApiKey(),
+      { recover: () => this.findPlacedOrder(order.id) }
     );
   }
 
+  /**
+   * Look up an order by external ID after an ambiguous placement failure
+   */
+  private async findPlacedOrder(externalId: string): Promise<WrappedApiResponse<PlacedOrderModel> | undefined> {
+    const url = this.getUrl('/user/orders/external/<external_id>', {
+      pathParams: { external_id: externalId },
+    });
+    const response = await this.sendGetRequest<OpenOrderModel[]>(url, this.getApiKey(), { model: OpenOrderModel });
+    const found = response.data?.[0];
+    if (!found) {
+      return undefined;
+    }
+    const placed = Object.assign(new PlacedOrderModel(), {
+      id: String(found.id),
+      externalId: found.externalId,
+      market: found.market,
+      type: found.type,
+      side: found.side,
+      status: found.status,
+      price: found.price,
+      qty: found.qty,
+      postOnly: found.postOnly,
+      createdTime: found.createdTime,
+      updatedTime: found.updatedTime,
+    });
+    return new WrappedApiResponse<PlacedOrderModel>(ResponseStatus.OK, placed);
+  }
+
+  /**
+   * Replace an open order with a new one in a single request
+   * https://api.docs.extended.exchange/#create-order
+   *
+   * The exchange cancels the order referenced by `order.cancelId` and places `order`
+   * atomically. A previous order that is not found or no longer open is raised as
+   * `PreviousOrderNotFoundException`. A replacement rejected after it was accepted, e.g.
+   * because the previous order triggered, carries the reason in the status reason of the new
+   * order; `createOrderRejectedException` maps it to its exception.
+   *
+   * @param order Order object created by `createOrderObject` with `previousOrderExternalId` set
+   */
+  async replaceOrder(order: NewOrderModel): Promise<WrappedApiResponse<PlacedOrderModel>> {
+    if (!order.cancelId) {
+      throw new X10Error('Replacement order must reference the previous order via `cancelId`');
+    }
+
+    return await this.placeOrder(order);
+  }
+
   /**
    * Cancel order by ID
    * https://api.docs.extended.exchange/#cancel-order
@@ -61,7 +116,7 @@ export class OrderManagementModule extends BaseModule {
     const url = this.getUrl('/user/order/<order_id>', {
       pathParams: { order_id: orderId },
     });
-    return await sendDeleteRequest<EmptyModel>(url, this.getApiKey());
+    return await this.sendDeleteRequest<EmptyModel>(url, this.getApiKey());
   }
 
   /**
@@ -72,7 +127,7 @@ export class OrderManagementModule extends BaseModule {
     const url = this.getUrl('/user/order', {
       query: { externalId: orderExternalId },
     });
-    return await sendDeleteRequest<EmptyModel>(url, this.getApiKey());
+    return await this.sendDeleteRequest<EmptyModel>(url, this.getApiKey());
   }
 
   /**
@@ -92,10 +147,12 @@ export class OrderManagementModule extends BaseModule {
       options.markets,
       options.cancelAll
     );
-    return await sendPostRequest<EmptyModel>(
+    // Cancelling the same orders twice has no further effect
+    return await this.sendPostRequest<EmptyModel>(
       url,
       requestModel.toApiRequestJson(true),
-      this.getApiKey()
+      this.getApiKey(),
+      { idempotent: true }
     );
   }
 }
@@ -0,0 +1,462 @@
+/**
+ * Local order state tracking
+ *
+ * Follows the orders sent by the trading client from submission, through account stream
+ * updates, to a terminal status, and reconciles them against the open orders of the REST API.
+ */
+
+import { EventEmitter } from 'events';
+import Decimal from 'decimal.js';
+import { AccountSubscription, OrderChangeEvent } from '../stream-client/account-subscription';
+import { NewOrderModel, OpenOrderModel, OrderSide, OrderStatus, OrderType, PlacedOrderModel } from '../orders';
+import { WrappedApiResponse, createOrderRejectedException } from '../../utils/http';
+import { ServerException, X10ApiException } from '../../errors';
+
+/**
+ * Local state of an order
+ */
+export interface TrackedOrder {
+  externalId: string;
+  /** Exchange order ID, once known */
+  id?: number;
+  market: string;
+  type: OrderType;
+  side: OrderSide;
+  qty: Decimal;
+  price: Decimal;
+  /** `UNKNOWN` until the order is acknowledged, or when it could not be found on the exchange */
+  status: OrderStatus;
+  statusReason?: string;
+  filledQty: Decimal;
+  averagePrice?: Decimal;
+  /** Placement request in flight */
+  pending: boolean;
+  /**
+   * Placement error, or the exception for the status reason of an order the exchange rejected.
+   * Unless it is an API rejection, the order may still have reached the exchange.
+   */
+  error?: Error;
+  /** Sent by this client, as opposed to an orphaned order found on the exchange */
+  local: boolean;
+  /** Exchange time of the last update applied */
+  updatedTime?: number;
+}
+
+/**
+ * REST source of order state, such as `AccountModule`
+ */
+export interface OrderStateSource {
+  getOpenOrders(options?: { marketNames?: string[] }): Promise<WrappedApiResponse<OpenOrderModel[]>>;
+  getOrderByExternalId(externalId: string): Promise<WrappedApiResponse<OpenOrderModel[]>>;
+}
+
+export interface OrderTrackerOptions {
+  /**
+   * Account subscription to follow order updates from. The subscription must be consumed
+   * (iterated) by the caller; the tracker only listens for order updates.
+   */
+  accountSubscription?: AccountSubscription;
+  /** Interval of reconciliation against open orders while orders are open or unresolved, 0 to disable (default 30s) */
+  reconcileIntervalMs?: number;
+  /** Orders in a terminal status kept, oldest dropped first (default 1000) */
+  maxTerminalOrders?: number;
+}
+
+/**
+ * Outcome of a reconciliation against the REST API
+ */
+export interface ReconcileResult {
+  /** Tracked orders whose state changed */
+  updated: TrackedOrder[];
+  /** Tracked orders that could not be found on the exchange */
+  unknown: TrackedOrder[];
+  /** Open orders on the exchange that were not sent by this client */
+  orphaned: TrackedOrder[];
+}
+
+/**
+ * Order update from the account stream or the REST API
+ */
+interface OrderUpdate {
+  id: number;
+  externalId: string;
+  market: string;
+  type: OrderType;
+  side: OrderSide;
+  status: OrderStatus;
+  statusReason?: string;
+  qty: Decimal;
+  price?: Decimal;
+  filledQty: Decimal;
+  averagePrice?: Decimal;
+  updatedTime?: number;
+}
+
+const DEFAULT_RECONCILE_INTERVAL_MS = 30_000;
+const DEFAULT_MAX_TERMINAL_ORDERS = 1000;
+
+const OPEN_ORDER_STATUSES = new Set([
+  OrderStatus.NEW,
+  OrderStatus.UNTRIGGERED,
+  OrderStatus.PARTIALLY_FILLED,
+]);
+
+const TERMINAL_ORDER_STATUSES = new Set([
+  OrderStatus.FILLED,
+  OrderStatus.CANCELLED,
+  OrderStatus.EXPIRED,
+  OrderStatus.REJECTED,
+]);
+
+export interface OrderTracker {
+  on(event: 'orderUpdated', listener: (order: TrackedOrder, previousStatus: OrderStatus) => void): this;
+  on(event: 'orderOrphaned', listener: (order: TrackedOrder) => void): this;
+  on(event: 'reconciled', listener: (result: ReconcileResult) => void): this;
+  on(event: 'reconcileError', listener: (error: Error) => void): this;
+  once(event: 'orderUpdated', listener: (order: TrackedOrder, previousStatus: OrderStatus) => void): this;
+  once(event: 'orderOrphaned', listener: (order: TrackedOrder) => void): this;
+  once(event: 'reconciled', listener: (result: ReconcileResult) => void): this;
+  once(event: 'reconcileError', listener: (error: Error) => void): this;
+}
+
+/**
+ * Order tracker keyed by external ID
+ *
+ * Pass it to `PerpetualTradingClient` via the `orderTracker` option to record every order
+ * the client sends. Stream updates never move an order back from a terminal status, and
+ * updates older than the last applied one are ignored.
+ *
+ * Events:
+ * - `orderUpdated` - the status or filled quantity of a tracked order changed
+ * - `orderOrphaned` - an open order not sent by this client was found
+ * - `reconciled` - a reconciliation against the REST API finished
+ * - `reconcileError` - a periodic reconciliation failed
+ */
+export class OrderTracker extends EventEmitter {
+  private source: OrderStateSource;
+  private orders: Map<string, TrackedOrder> = new Map();
+  private orphaned: Map<string, TrackedOrder> = new Map();
+  // External IDs of terminal orders, oldest first
+  private terminal: Set<string> = new Set();
+  private maxTerminalOrders: number;
+  private removeOrderListener?: () => void;
+  private reconcileTimer?: ReturnType<typeof setInterval>;
+  private reconciling?: Promise<ReconcileResult>;
+
+  constructor(source: OrderStateSource, options: OrderTrackerOptions = {}) {
+    super();
+    this.source = source;
+    this.maxTerminalOrders = options.maxTerminalOrders ?? DEFAULT_MAX_TERMINAL_ORDERS;
+
+    const subscription = options.accountSubscription;
+    if (subscription) {
+      const onOrderUpdated = (event: OrderChangeEvent) =>
+        this.applyUpdate({
+          id: event.order.id,
+          externalId: event.order.externalId ?? String(event.order.id),
+          market: event.order.market,
+          type: event.order.type as OrderType,
+          side: event.order.side as OrderSide,
+          status: event.order.status,
+          statusReason: event.order.statusReason,
+          qty: new Decimal(event.order.qty),
+          price: event.order.price ? new Decimal(event.order.price) : undefined,
+          filledQty: new Decimal(event.order.filledQty || 0),
+          averagePrice: event.order.averagePrice ? new Decimal(event.order.averagePrice) : undefined,
+          updatedTime: event.order.updatedTime,
+        });
+      subscription.on('orderUpdated', onOrderUpdated);
+      this.removeOrderListener = () => subscription.off('orderUpdated', onOrderUpdated);
+    }
+
+    const interval = options.reconcileIntervalMs ?? DEFAULT_RECONCILE_INTERVAL_MS;
+    if (interval > 0) {
+      this.reconcileTimer = setInterval(() => this.reconcilePeriodically(), interval);
+      // Reconciliation alone should not keep the process alive
+      this.reconcileTimer.unref?.();
+    }
+  }
+
+  /**
+   * Record an order about to be sent. Called by the trading client.
+   */
+  recordSubmitted(order: NewOrderModel): TrackedOrder {
+    const tracked: TrackedOrder = {
+      externalId: order.id,
+      market: order.market,
+      type: order.type,
+      side: order.side,
+      qty: order.qty,
+      price: order.price,
+      status: OrderStatus.UNKNOWN,
+      filledQty: new Decimal(0),
+      pending: true,
+      local: true,
+    };
+    this.orders.set(order.id, tracked);
+    this.orphaned.delete(order.id);
+    return tracked;
+  }
+
+  /**
+   * Record the acknowledgement of a placed order. Called by the trading client.
+   */
+  recordPlaced(externalId: string, placed: PlacedOrderModel | undefined): void {
+    const tracked = this.orders.get(externalId);
+    if (!tracked) {
+      return;
+    }
+    tracked.pending = false;
+    if (placed?.id !== undefined) {
+      tracked.id = Number(placed.id);
+    }
+    // A stream update may have arrived before the response
+    if (tracked.status === OrderStatus.UNKNOWN) {
+      this.setStatus(tracked, placed?.status ?? OrderStatus.NEW);
+    }
+  }
+
+  /**
+   * Record a failed placement. Called by the trading client.
+   *
+   * API rejections are final; after server errors, timeouts or network errors the outcome is
+   * unknown until the order shows up in a stream update or a reconciliation.
+   */
+  recordFailed(externalId: string, error: Error): void {
+    const tracked = this.orders.get(externalId);
+    if (!tracked) {
+      return;
+    }
+    tracked.pending = false;
+    tracked.error = error;
+    if (tracked.status === OrderStatus.UNKNOWN && error instanceof X10ApiException && !(error instanceof ServerException)) {
+      this.setStatus(tracked, OrderStatus.REJECTED);
+    }
+  }
+
+  /**
+   * Compare tracked orders with the open orders of the exchange.
+   *
+   * Open orders sent by this client update their tracked state; others are reported as
+   * orphaned. Tracked orders that are open or unknown locally but missing from the open
+   * orders are looked up by external ID, and stay `UNKNOWN` if the exchange has no record.
+   */
+  async reconcile(): Promise<ReconcileResult> {
+    if (!this.reconciling) {
+      this.reconciling = this.doReconcile().finally(() => {
+        this.reconciling = undefined;
+      });
+    }
+    return await this.reconciling;
+  }
+
+  private async doReconcile(): Promise<ReconcileResult> {
+    const result: ReconcileResult = { updated: [], unknown: [], orphaned: [] };
+    // Orders sent during the request may be missing from its response
+    const candidates = Array.from(this.orders.values()).filter(
+      (order) => !order.pending && (OPEN_ORDER_STATUSES.has(order.status) || order.status === OrderStatus.UNKNOWN)
+    );
+
+    const response = await this.source.getOpenOrders();
+    const openOrders = response.data ?? [];
+    const openExternalIds = new Set<string>();
+
+    for (const openOrder of openOrders) {
+      const update = fromOpenOrder(openOrder);
+      openExternalIds.add(update.externalId);
+      const tracked = this.orders.get(update.externalId);
+      if (tracked) {
+        if (this.applyUpdate(update)) {
+          result.updated.push(tracked);
+        }
+      } else {
+        this.applyUpdate(update);
+        result.orphaned.push(this.orphaned.get(update.externalId)!);
+      }
+    }
+
+    // Orphaned orders closed without a stream update
+    for (const externalId of Array.from(this.orphaned.keys())) {
+      if (!openExternalIds.has(externalId)) {
+        this.orphaned.delete(externalId);
+      }
+    }
+
+    for (const tracked of candidates) {
+      if (openExternalIds.has(tracked.externalId) || TERMINAL_ORDER_STATUSES.has(tracked.status)) {
+        continue;
+      }
+      const lookup = await this.source.getOrderByExternalId(tracked.externalId);
+      const found = lookup.data?.[0];
+      if (found) {
+        if (this.applyUpdate(fromOpenOrder(found))) {
+          result.updated.push(tracked);
+        }
+      } else if (!TERMINAL_ORDER_STATUSES.has(tracked.status)) {
+        if (tracked.status !== OrderStatus.UNKNOWN) {
+          this.setStatus(tracked, OrderStatus.UNKNOWN);
+        }
+        result.unknown.push(tracked);
+      }
+    }
+
+    this.emit('reconciled', result);
+    return result;
+  }
+
+  private reconcilePeriodically(): void {
+    const unresolved = Array.from(this.orders.values()).some(
+      (order) => !order.pending && !TERMINAL_ORDER_STATUSES.has(order.status)
+    );
+    if (!unresolved) {
+      return;
+    }
+    this.reconcile().catch((error) => this.emit('reconcileError', error));
+  }
+
+  /**
+   * Apply an update to the tracked or orphaned order with its external ID.
+   * Returns whether the status or filled quantity changed.
+   */
+  private applyUpdate(update: OrderUpdate): boolean {
+    let tracked = this.orders.get(update.externalId) ?? this.orphaned.get(update.externalId);
+
+    if (!tracked) {
+      // Closed orders of other clients are of no interest
+      if (!OPEN_ORDER_STATUSES.has(update.status)) {
+        return false;
+      }
+      tracked = {
+        externalId: update.externalId,
+        market: update.market,
+        type: update.type,
+        side: update.side,
+        qty: update.qty,
+        price: update.price ?? new Decimal(0),
+        status: update.status,
+        filledQty: update.filledQty,
+        pending: false,
+        local: false,
+      };
+      this.orphaned.set(update.externalId, tracked);
+      this.emit('orderOrphaned', tracked);
+    }
+
+    if (tracked.updatedTime !== undefined && update.updatedTime !== undefined && update.updatedTime < tracked.updatedTime) {
+      return false;
+    }
+    if (TERMINAL_ORDER_STATUSES.has(tracked.status) && !TERMINAL_ORDER_STATUSES.has(update.status)) {
+      return false;
+    }
+
+    const changed = tracked.status !== update.status || !tracked.filledQty.equals(update.filledQty);
+    tracked.id = update.id;
+    tracked.qty = update.qty;
+    tracked.price = update.price ?? tracked.price;
+    tracked.statusReason = update.statusReason;
+    tracked.filledQty = update.filledQty;
+    tracked.averagePrice = update.averagePrice ?? tracked.averagePrice;
+    tracked.updatedTime = update.updatedTime ?? tracked.updatedTime;
+
+    if (!tracked.local) {
+      if (!OPEN_ORDER_STATUSES.has(update.status)) {
+        this.orphaned.delete(update.externalId);
+      }
+      tracked.status = update.status;
+      return changed;
+    }
+
+    if (update.status === OrderStatus.REJECTED && !tracked.error) {
+      const reason = update.statusReason ? `: ${update.statusReason}` : '';
+      tracked.error = createOrderRejectedException(update.statusReason, `Order ${tracked.externalId} was rejected${reason}`);
+    }
+    if (changed) {
+      this.setStatus(tracked, update.status, true);
+    }
+    return changed;
+  }
+
+  private setStatus(tracked: TrackedOrder, status: OrderStatus, force: boolean = false): void {
+    const previousStatus = tracked.status;
+    if (previousStatus === status && !force) {
+      return;
+    }
+    tracked.status = status;
+    if (TERMINAL_ORDER_STATUSES.has(status)) {
+      this.retainTerminal(tracked.externalId);
+    }
+    this.emit('orderUpdated', tracked, previousStatus);
+  }
+
+  private retainTerminal(externalId: string): void {
+    this.terminal.delete(externalId);
+    this.terminal.add(externalId);
+    if (this.terminal.size > this.maxTerminalOrders) {
+      const oldest = this.terminal.values().next().value!;
+      this.terminal.delete(oldest);
+      this.orders.delete(oldest);
+    }
+  }
+
+  getOrder(externalId: string): TrackedOrder | undefined {
+    return this.orders.get(externalId) ?? this.orphaned.get(externalId);
+  }
+
+  /**
+   * Orders sent by this client, oldest first
+   */
+  getOrders(): TrackedOrder[] {
+    return Array.from(this.orders.values());
+  }
+
+  /**
+   * Open orders sent by this client, optionally of one market
+   */
+  openOrdersFor(market?: string): TrackedOrder[] {
+    return this.getOrders().filter(
+      (order) => OPEN_ORDER_STATUSES.has(order.status) && (market === undefined || order.market === market)
+    );
+  }
+
+  /**
+   * Orders sent by this client whose state could not be established: placements that failed
+   * without a definite rejection, and open orders that disappeared from the exchange
+   */
+  getUnknownOrders(): TrackedOrder[] {
+    return this.getOrders().filter((order) => order.status === OrderStatus.UNKNOWN && !order.pending);
+  }
+
+  /**
+   * Open orders on the exchange that were not sent by this client
+   */
+  getOrphanedOrders(): TrackedOrder[] {
+    return Array.from(this.orphaned.values());
+  }
+
+  /**
+   * Stop periodic reconciliation and listening to the account subscription
+   */
+  close(): void {
+    clearInterval(this.reconcileTimer);
+    this.reconcileTimer = undefined;
+    this.removeOrderListener?.();
+    this.removeOrderListener = undefined;
+  }
+}
+
+function fromOpenOrder(order: OpenOrderModel): OrderUpdate {
+  return {
+    id: order.id,
+    externalId: order.externalId ?? String(order.id),
+    market: order.market,
+    type: order.type,
+    side: order.side,
+    status: order.status,
+    statusReason: order.statusReason,
+    qty: order.qty,
+    price: order.price,
+    filledQty: order.filledQty ?? new Decimal(0),
+    averagePrice: order.averagePrice,
+    updatedTime: order.updatedTime,
+  };
+}
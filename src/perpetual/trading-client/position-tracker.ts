@@ -0,0 +1,412 @@
+/**
+ * Live position and PnL tracking
+ *
+ * Combines the positions and balance of an account subscription with live mark prices
+ * to compute unrealised PnL, ROE, distance to liquidation and margin usage.
+ */
+
+import { EventEmitter } from 'events';
+import Decimal from 'decimal.js';
+import {
+  AccountBalance,
+  AccountPosition,
+  AccountSubscription,
+  BalanceChangeEvent,
+  PositionChangeEvent,
+} from '../stream-client/account-subscription';
+import { CandleUpdate } from '../stream-client/candle-subscription';
+import { MarketStatsModel } from '../markets';
+import { PositionSide } from '../positions';
+import { WrappedApiResponse } from '../../utils/http';
+
+/**
+ * Live metrics of one position
+ */
+export interface PositionMetrics {
+  market: string;
+  side: PositionSide;
+  /** Absolute position size */
+  size: Decimal;
+  openPrice: Decimal;
+  markPrice: Decimal;
+  /** Size times mark price */
+  notional: Decimal;
+  unrealisedPnl: Decimal;
+  /** Unrealised PnL over the initial margin at the open price */
+  roe: Decimal | null;
+  liquidationPrice: Decimal | null;
+  /** Distance from the mark price to the liquidation price, as a fraction of the mark price */
+  liquidationDistance: Decimal | null;
+  /** Notional over leverage */
+  margin: Decimal | null;
+  /** Margin as a fraction of account equity */
+  marginUsage: Decimal | null;
+}
+
+/**
+ * Live metrics of the whole account
+ */
+export interface AccountMetrics {
+  positions: PositionMetrics[];
+  notional: Decimal;
+  unrealisedPnl: Decimal;
+  margin: Decimal;
+  /** Collateral balance plus live unrealised PnL, `null` before the balance is known */
+  equity: Decimal | null;
+  marginUsage: Decimal | null;
+}
+
+/**
+ * Alert levels. Each is checked per position, except `maxMarginUsage` which applies to the account.
+ */
+export interface PositionThresholds {
+  /** Unrealised loss at or beyond this positive amount */
+  maxUnrealisedLoss?: Decimal;
+  /** ROE at or below this fraction, e.g. -0.5 */
+  minRoe?: Decimal;
+  /** Liquidation distance at or below this fraction of the mark price */
+  minLiquidationDistance?: Decimal;
+  /** Account margin usage at or above this fraction of equity */
+  maxMarginUsage?: Decimal;
+}
+
+export enum PositionThresholdType {
+  UNREALISED_LOSS = 'UNREALISED_LOSS',
+  ROE = 'ROE',
+  LIQUIDATION_DISTANCE = 'LIQUIDATION_DISTANCE',
+  MARGIN_USAGE = 'MARGIN_USAGE',
+}
+
+/**
+ * A threshold was breached, or recovered from
+ */
+export interface PositionThresholdEvent {
+  type: PositionThresholdType;
+  /** Market of the position, undefined for account thresholds */
+  market?: string;
+  /** `null` when the metric is no longer available, which counts as recovered */
+  value: Decimal | null;
+  threshold: Decimal;
+  breached: boolean;
+}
+
+/**
+ * REST source of market statistics, such as `MarketsInformationModule`
+ */
+export interface MarketStatsSource {
+  getMarketStatistics(marketName: string): Promise<WrappedApiResponse<MarketStatsModel>>;
+}
+
+export interface PositionTrackerOptions {
+  thresholds?: PositionThresholds;
+}
+
+const DEFAULT_STATS_POLL_INTERVAL_MS = 5_000;
+
+export interface PositionTracker {
+  on(event: 'positionUpdated', listener: (metrics: PositionMetrics) => void): this;
+  on(event: 'accountUpdated', listener: (metrics: AccountMetrics) => void): this;
+  on(event: 'threshold', listener: (event: PositionThresholdEvent) => void): this;
+  on(event: 'markPriceError', listener: (error: Error) => void): this;
+  once(event: 'positionUpdated', listener: (metrics: PositionMetrics) => void): this;
+  once(event: 'accountUpdated', listener: (metrics: AccountMetrics) => void): this;
+  once(event: 'threshold', listener: (event: PositionThresholdEvent) => void): this;
+  once(event: 'markPriceError', listener: (error: Error) => void): this;
+}
+
+/**
+ * Position tracker
+ *
+ * Positions and balance come from an account subscription, which must be consumed
+ * (iterated) by the caller. Mark prices are set with `updateMarkPrice`, polled from market
+ * statistics with `pollMarketStats`, or followed from mark-price candle subscriptions with
+ * `followMarkPriceCandles`. The mark price of each position update replaces the last one, and
+ * the mark price of a market is forgotten when its position closes.
+ *
+ * Events:
+ * - `positionUpdated` - metrics of a position changed
+ * - `accountUpdated` - account metrics changed
+ * - `threshold` - a threshold was breached (`breached: true`) or recovered from (`breached: false`)
+ * - `markPriceError` - polling market statistics failed
+ */
+export class PositionTracker extends EventEmitter {
+  private positions: Map<string, AccountPosition> = new Map();
+  private balance: AccountBalance | null;
+  private markPrices: Map<string, Decimal> = new Map();
+  private thresholds: PositionThresholds;
+  // Threshold keys currently breached
+  private breached: Set<string> = new Set();
+  private removeListeners: () => void;
+  private statsTimer?: ReturnType<typeof setInterval>;
+  private closed: boolean = false;
+
+  constructor(subscription: AccountSubscription, options: PositionTrackerOptions = {}) {
+    super();
+    this.thresholds = options.thresholds ?? {};
+    this.balance = subscription.getBalance();
+    for (const position of subscription.getPositions()) {
+      this.positions.set(position.market, position);
+    }
+
+    const onPosition = (event: PositionChangeEvent) => this.handlePosition(event.position);
+    const onBalance = (event: BalanceChangeEvent) => this.handleBalance(event.balance);
+    subscription.on('positionOpened', onPosition);
+    subscription.on('positionChanged', onPosition);
+    subscription.on('positionClosed', onPosition);
+    subscription.on('balanceChanged', onBalance);
+    this.removeListeners = () => {
+      subscription.off('positionOpened', onPosition);
+      subscription.off('positionChanged', onPosition);
+      subscription.off('positionClosed', onPosition);
+      subscription.off('balanceChanged', onBalance);
+    };
+  }
+
+  /**
+   * Set the mark price of a market
+   */
+  updateMarkPrice(market: string, markPrice: Decimal): void {
+    const previous = this.markPrices.get(market);
+    this.markPrices.set(market, markPrice);
+    if (this.positions.has(market) && !(previous && previous.equals(markPrice))) {
+      this.refresh(market);
+    }
+  }
+
+  /**
+   * Poll the mark prices of markets with open positions from market statistics
+   */
+  pollMarketStats(source: MarketStatsSource, intervalMs: number = DEFAULT_STATS_POLL_INTERVAL_MS): void {
+    clearInterval(this.statsTimer);
+    const poll = () => {
+      for (const market of this.positions.keys()) {
+        source.getMarketStatistics(market).then(
+          (response) => {
+            if (!this.closed && response.data?.markPrice) {
+              this.updateMarkPrice(market, response.data.markPrice);
+            }
+          },
+          (error) => this.emit('markPriceError', error)
+        );
+      }
+    };
+    this.statsTimer = setInterval(poll, intervalMs);
+    // Polling alone should not keep the process alive
+    this.statsTimer.unref?.();
+    poll();
+  }
+
+  /**
+   * Follow the mark price of `market` from a mark-price candle subscription, using the close
+   * of each candle update. The tracker consumes the subscription; resolves when it ends.
+   */
+  async followMarkPriceCandles(market: string, candles: AsyncIterable<CandleUpdate>): Promise<void> {
+    for await (const { candle } of candles) {
+      if (this.closed) {
+        break;
+      }
+      this.updateMarkPrice(market, candle.close);
+    }
+  }
+
+  getPositionMetrics(market: string): PositionMetrics | undefined {
+    const position = this.positions.get(market);
+    return position ? this.computePosition(position, this.computeEquity()) : undefined;
+  }
+
+  getAccountMetrics(): AccountMetrics {
+    const equity = this.computeEquity();
+    const positions = Array.from(this.positions.values()).map((position) => this.computePosition(position, equity));
+
+    let notional = new Decimal(0);
+    let unrealisedPnl = new Decimal(0);
+    let margin = new Decimal(0);
+    for (const metrics of positions) {
+      notional = notional.plus(metrics.notional);
+      unrealisedPnl = unrealisedPnl.plus(metrics.unrealisedPnl);
+      margin = margin.plus(metrics.margin ?? 0);
+    }
+
+    return {
+      positions,
+      notional,
+      unrealisedPnl,
+      margin,
+      equity,
+      marginUsage: equity && equity.greaterThan(0) ? margin.dividedBy(equity) : null,
+    };
+  }
+
+  /**
+   * Stop listening to the account subscription and polling mark prices
+   */
+  close(): void {
+    this.closed = true;
+    clearInterval(this.statsTimer);
+    this.statsTimer = undefined;
+    this.removeListeners();
+  }
+
+  private handlePosition(position: AccountPosition): void {
+    if (position.status === 'CLOSED') {
+      this.positions.delete(position.market);
+      this.markPrices.delete(position.market);
+      for (const type of Object.values(PositionThresholdType)) {
+        this.breached.delete(thresholdKey(type, position.market));
+      }
+      this.refreshAccount();
+      return;
+    }
+    this.positions.set(position.market, position);
+    if (position.markPrice) {
+      this.markPrices.set(position.market, new Decimal(position.markPrice));
+    }
+    this.refresh(position.market);
+  }
+
+  private handleBalance(balance: AccountBalance): void {
+    this.balance = balance;
+    this.refreshAccount();
+  }
+
+  /**
+   * Emit the metrics of a position and of the account, checking thresholds
+   */
+  private refresh(market: string): void {
+    const metrics = this.getPositionMetrics(market);
+    if (metrics) {
+      this.emit('positionUpdated', metrics);
+      this.checkPosition(metrics);
+    }
+    this.refreshAccount();
+  }
+
+  private refreshAccount(): void {
+    const metrics = this.getAccountMetrics();
+    this.emit('accountUpdated', metrics);
+    if (this.thresholds.maxMarginUsage) {
+      this.check(
+        PositionThresholdType.MARGIN_USAGE,
+        undefined,
+        metrics.marginUsage,
+        this.thresholds.maxMarginUsage,
+        metrics.marginUsage !== null && metrics.marginUsage.greaterThanOrEqualTo(this.thresholds.maxMarginUsage)
+      );
+    }
+  }
+
+  private checkPosition(metrics: PositionMetrics): void {
+    const { maxUnrealisedLoss, minRoe, minLiquidationDistance } = this.thresholds;
+    if (maxUnrealisedLoss) {
+      const loss = metrics.unrealisedPnl.negated();
+      this.check(
+        PositionThresholdType.UNREALISED_LOSS,
+        metrics.market,
+        loss,
+        maxUnrealisedLoss,
+        loss.greaterThanOrEqualTo(maxUnrealisedLoss)
+      );
+    }
+    if (minRoe) {
+      this.check(
+        PositionThresholdType.ROE,
+        metrics.market,
+        metrics.roe,
+        minRoe,
+        metrics.roe !== null && metrics.roe.lessThanOrEqualTo(minRoe)
+      );
+    }
+    if (minLiquidationDistance) {
+      this.check(
+        PositionThresholdType.LIQUIDATION_DISTANCE,
+        metrics.market,
+        metrics.liquidationDistance,
+        minLiquidationDistance,
+        metrics.liquidationDistance !== null && metrics.liquidationDistance.lessThanOrEqualTo(minLiquidationDistance)
+      );
+    }
+  }
+
+  /**
+   * Emit `threshold` when a threshold changes between breached and not breached
+   */
+  private check(
+    type: PositionThresholdType,
+    market: string | undefined,
+    value: Decimal | null,
+    threshold: Decimal,
+    breached: boolean
+  ): void {
+    const key = thresholdKey(type, market);
+    if (breached === this.breached.has(key)) {
+      return;
+    }
+    if (breached) {
+      this.breached.add(key);
+    } else {
+      this.breached.delete(key);
+    }
+    this.emit('threshold', { type, market, value, threshold, breached });
+  }
+
+  private computeEquity(): Decimal | null {
+    if (!this.balance) {
+      return null;
+    }
+    let unrealisedPnl = new Decimal(0);
+    for (const position of this.positions.values()) {
+      unrealisedPnl = unrealisedPnl.plus(this.computeUnrealisedPnl(position));
+    }
+    return new Decimal(this.balance.balance).plus(unrealisedPnl);
+  }
+
+  private getMarkPrice(position: AccountPosition): Decimal {
+    return this.markPrices.get(position.market) ?? new Decimal(position.markPrice);
+  }
+
+  private computeUnrealisedPnl(position: AccountPosition): Decimal {
+    const size = new Decimal(position.size).abs();
+    const move = this.getMarkPrice(position).minus(position.openPrice);
+    return (position.side === PositionSide.SHORT ? move.negated() : move).times(size);
+  }
+
+  private computePosition(position: AccountPosition, equity: Decimal | null): PositionMetrics {
+    const size = new Decimal(position.size).abs();
+    const openPrice = new Decimal(position.openPrice);
+    const markPrice = this.getMarkPrice(position);
+    const notional = size.times(markPrice);
+    const unrealisedPnl = this.computeUnrealisedPnl(position);
+
+    const leverage = position.leverage ? new Decimal(position.leverage) : null;
+    const hasLeverage = leverage !== null && leverage.greaterThan(0);
+    const initialMargin = hasLeverage ? size.times(openPrice).dividedBy(leverage!) : null;
+    const margin = hasLeverage ? notional.dividedBy(leverage!) : null;
+
+    const liquidationPrice =
+      position.liquidationPrice && !new Decimal(position.liquidationPrice).isZero()
+        ? new Decimal(position.liquidationPrice)
+        : null;
+
+    return {
+      market: position.market,
+      side: position.side as PositionSide,
+      size,
+      openPrice,
+      markPrice,
+      notional,
+      unrealisedPnl,
+      roe: initialMargin && initialMargin.greaterThan(0) ? unrealisedPnl.dividedBy(initialMargin) : null,
+      liquidationPrice,
+      liquidationDistance:
+        liquidationPrice && markPrice.greaterThan(0)
+          ? markPrice.minus(liquidationPrice).abs().dividedBy(markPrice)
+          : null,
+      margin,
+      marginUsage: margin && equity && equity.greaterThan(0) ? margin.dividedBy(equity) : null,
+    };
+  }
+}
+
+function thresholdKey(type: PositionThresholdType, market?: string): string {
+  return market ? `${market}:${type}` : type;
+}
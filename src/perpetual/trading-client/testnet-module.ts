@@ -2,9 +2,9 @@
  * Testnet module for trading client
  */
 
-import { BaseModule } from './base-module';
+import { BaseModule, BaseModuleOptions } from './base-module';
 import { AccountModule } from './account-module';
-import { WrappedApiResponse, sendPostRequest } from '../../utils/http';
+import { WrappedApiResponse } from '../../utils/http';
 import { X10BaseModel } from '../../utils/model';
 
 /**
@@ -28,9 +28,10 @@ export class TestnetModule extends BaseModule {
   constructor(
     endpointConfig: any,
     apiKey: string | undefined,
-    accountModule: AccountModule
+    accountModule: AccountModule,
+    options: BaseModuleOptions = {}
   ) {
-    super(endpointConfig, { apiKey });
+    super(endpointConfig, { ...options, apiKey });
     this.accountModule = accountModule;
   }
 
@@ -39,7 +40,7 @@ export class TestnetModule extends BaseModule {
    */
   async claimTestingFunds(): Promise<WrappedApiResponse<ClaimResponseModel>> {
     const url = this.getUrl('/user/claim');
-    const response = await sendPostRequest<ClaimResponseModel>(
+    const response = await this.sendPostRequest<ClaimResponseModel>(
       url,
       {},
       this.getApiKey()
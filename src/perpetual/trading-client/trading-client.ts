@@ -7,21 +7,108 @@ import Decimal from 'decimal.js';
 import { EndpointConfig } from '../configuration';
 import { StarkPerpetualAccount } from '../accounts';
 import { MarketModel } from '../markets';
+import { PositionSide, PositionStatus } from '../positions';
 import {
+  OrderPriceType,
   OrderSide,
+  OrderStatus,
   OrderTpslType,
+  OrderTriggerDirection,
+  OrderTriggerPriceType,
+  OrderType,
+  NewOrderModel,
   PlacedOrderModel,
   SelfTradeProtectionLevel,
   TimeInForce,
 } from '../orders';
-import { OrderTpslTriggerParam, createOrderObject } from '../order-object';
+import {
+  OrderConditionalTriggerParam,
+  OrderTpslTriggerParam,
+  createOrderObject,
+} from '../order-object';
 import { WrappedApiResponse } from '../../utils/http';
+import { X10Error, PreviousOrderNotFoundException } from '../../errors';
+import { mapWithConcurrency } from '../../utils/concurrency';
+import { RetryPolicy } from '../../utils/retry';
+import { RateLimiter } from '../../utils/rate-limiter';
+import { HttpTransport, createDefaultHttpTransport } from '../../utils/http-transport';
 import { utcNow } from '../../utils/date';
 import { AccountModule } from './account-module';
 import { OrderManagementModule } from './order-management-module';
 import { MarketsInformationModule } from './markets-information-module';
 import { InfoModule } from './info-module';
+import { BaseModuleOptions } from './base-module';
 import { TestnetModule } from './testnet-module';
+import { OrderTracker, OrderTrackerOptions } from './order-tracker';
+
+/**
+ * Default slippage cap for market orders (0.5%)
+ */
+const DEFAULT_MAX_SLIPPAGE_BPS = 50;
+
+/**
+ * Order statuses that can still be replaced
+ */
+const REPLACEABLE_ORDER_STATUSES = new Set([
+  OrderStatus.NEW,
+  OrderStatus.PARTIALLY_FILLED,
+]);
+
+/**
+ * Default expiry for position TP/SL orders, which should outlive regular orders
+ */
+const POSITION_TPSL_EXPIRY_DAYS = 30;
+
+/**
+ * Default number of in-flight requests for batch order placement
+ */
+const DEFAULT_BATCH_CONCURRENCY = 5;
+
+/**
+ * Default max age of cached account trading fees (1 hour)
+ */
+const DEFAULT_FEE_REFRESH_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Cap a price at the allowed slippage from a reference price, rounding towards the reference
+ */
+function applySlippage(market: MarketModel, referencePrice: Decimal, side: OrderSide, slippageBps: number): Decimal {
+  const slippage = new Decimal(slippageBps).div(10000);
+  return side === OrderSide.BUY
+    ? market.tradingConfig.roundPrice(referencePrice.mul(new Decimal(1).plus(slippage)), Decimal.ROUND_DOWN)
+    : market.tradingConfig.roundPrice(referencePrice.mul(new Decimal(1).minus(slippage)), Decimal.ROUND_UP);
+}
+
+/**
+ * Options for placing a limit order
+ */
+export interface PlaceOrderOptions {
+  marketName: string;
+  amountOfSynthetic: Decimal;
+  price: Decimal;
+  side: OrderSide;
+  postOnly?: boolean;
+  previousOrderId?: string;
+  expireTime?: Date;
+  timeInForce?: TimeInForce;
+  selfTradeProtectionLevel?: SelfTradeProtectionLevel;
+  externalId?: string;
+  builderFee?: Decimal;
+  builderId?: number;
+  reduceOnly?: boolean;
+  tpSlType?: OrderTpslType;
+  takeProfit?: OrderTpslTriggerParam;
+  stopLoss?: OrderTpslTriggerParam;
+  /** Mark price to check the limit price cap/floor against, e.g. from a stream */
+  markPrice?: Decimal;
+}
+
+/**
+ * Per-order result of `placeOrders`. `order` is missing when the order could not be signed.
+ */
+export type PlaceOrderResult =
+  | { success: true; order: NewOrderModel; placedOrder: PlacedOrderModel }
+  | { success: false; order?: NewOrderModel; error: Error };
 
 /**
  * Perpetual Trading Client for X10 REST API v1
@@ -35,33 +122,410 @@ export class PerpetualTradingClient {
   private orderManagementModule: OrderManagementModule;
   private testnetModule: TestnetModule;
   private config: EndpointConfig;
+  private feeRefreshIntervalMs: number;
+  private feesFetchedAt: Map<string, number> = new Map();
+  private fetchMarkPrice: boolean;
+  private rateLimiter?: RateLimiter;
+  private transport: HttpTransport;
+  private ownsTransport: boolean;
+  private tracker?: OrderTracker;
 
-  constructor(endpointConfig: EndpointConfig, starkAccount?: StarkPerpetualAccount) {
+  constructor(
+    endpointConfig: EndpointConfig,
+    starkAccount?: StarkPerpetualAccount,
+    options: {
+      feeRefreshIntervalMs?: number;
+      /**
+       * Fetch the mark price from market statistics before each limit order that has no
+       * `markPrice`, to check the limit price cap/floor before signing. Off by default, as
+       * the exchange enforces the limits and the check costs a request per order.
+       */
+      fetchMarkPrice?: boolean;
+      /** Retry policy for all REST requests; modules can override it per call via `withRetryPolicy` */
+      retryPolicy?: Partial<RetryPolicy>;
+      /**
+       * Rate limiter for all REST requests, defaults to one with `DEFAULT_RATE_LIMITS`.
+       * Pass the same instance to clients sharing an account, or `false` to disable throttling.
+       */
+      rateLimiter?: RateLimiter | false;
+      /**
+       * Transport for REST requests, e.g. a mock in tests. Defaults to `endpointConfig.httpTransport`,
+       * or a keep-alive connection pool owned by this client and closed by `close()`. Injected
+       * transports are left open for their owner.
+       */
+      httpTransport?: HttpTransport;
+      /** Timeout of each request attempt, `DEFAULT_REQUEST_TIMEOUT_MS` (30 s) by default */
+      requestTimeoutMs?: number;
+      /**
+       * Record every order sent in an `OrderTracker` (see `orderTracker`), reconciled against
+       * this client's account module. Stopped by `close()`.
+       */
+      orderTracker?: OrderTrackerOptions | boolean;
+    } = {}
+  ) {
     const apiKey = starkAccount?.getApiKey();
+    const rateLimiter = options.rateLimiter === false ? undefined : options.rateLimiter ?? new RateLimiter();
+    const injectedTransport = options.httpTransport ?? endpointConfig.httpTransport;
+    const transport = injectedTransport ?? createDefaultHttpTransport();
+    const moduleOptions: BaseModuleOptions = {
+      retryPolicy: options.retryPolicy,
+      rateLimiter,
+      transport,
+      requestTimeoutMs: options.requestTimeoutMs,
+    };
 
     this.config = endpointConfig;
     this.starkAccount = starkAccount;
+    this.feeRefreshIntervalMs = options.feeRefreshIntervalMs ?? DEFAULT_FEE_REFRESH_INTERVAL_MS;
+    this.fetchMarkPrice = options.fetchMarkPrice ?? false;
+    this.rateLimiter = rateLimiter;
+    this.transport = transport;
+    this.ownsTransport = !injectedTransport;
 
-    this.infoModule = new InfoModule(endpointConfig);
-    this.marketsInfoModule = new MarketsInformationModule(endpointConfig, { apiKey });
+    this.infoModule = new InfoModule(endpointConfig, moduleOptions);
+    this.marketsInfoModule = new MarketsInformationModule(endpointConfig, { ...moduleOptions, apiKey });
     this.accountModule = new AccountModule(endpointConfig, {
+      ...moduleOptions,
       apiKey,
       starkAccount,
     });
-    this.orderManagementModule = new OrderManagementModule(endpointConfig, { apiKey });
-    this.testnetModule = new TestnetModule(endpointConfig, apiKey, this.accountModule);
+    this.orderManagementModule = new OrderManagementModule(endpointConfig, { ...moduleOptions, apiKey });
+    this.testnetModule = new TestnetModule(endpointConfig, apiKey, this.accountModule, moduleOptions);
+
+    if (options.orderTracker) {
+      this.tracker = new OrderTracker(
+        this.accountModule,
+        options.orderTracker === true ? {} : options.orderTracker
+      );
+    }
+  }
+
+  /**
+   * Rate limiter used for REST requests, e.g. to read wait-time metrics with `getMetrics`
+   */
+  getRateLimiter(): RateLimiter | undefined {
+    return this.rateLimiter;
+  }
+
+  /**
+   * Get market by name, loading the markets cache on first use
+   */
+  async getMarket(marketName: string): Promise<MarketModel> {
+    if (!this.markets) {
+      this.markets = await this.marketsInfoModule.getMarketsDict();
+    }
+
+    const market = this.markets[marketName];
+    if (!market) {
+      throw new Error(`Market ${marketName} not found`);
+    }
+    return market;
+  }
+
+  /**
+   * Fetch trading fees for the given markets and cache them on the Stark account,
+   * where order signing picks them up
+   */
+  async refreshFees(marketNames: string[], builderId?: number): Promise<void> {
+    const starkAccount = this.starkAccount;
+    if (!starkAccount) {
+      throw new Error('Stark account is not set');
+    }
+
+    const response = await this.accountModule.getFees({ marketNames, builderId });
+    const now = Date.now();
+    for (const fee of response.data || []) {
+      starkAccount.setTradingFee(fee.market, fee);
+      this.feesFetchedAt.set(fee.market, now);
+    }
+  }
+
+  /**
+   * Make sure account fees for the markets are cached and not older than the refresh interval.
+   * A failed refresh keeps using previously cached fees.
+   */
+  private async ensureFees(marketNames: string[]): Promise<void> {
+    const now = Date.now();
+    const stale = marketNames.filter((name) => {
+      const fetchedAt = this.feesFetchedAt.get(name);
+      return fetchedAt === undefined || now - fetchedAt >= this.feeRefreshIntervalMs;
+    });
+    if (stale.length === 0) {
+      return;
+    }
+
+    try {
+      await this.refreshFees(Array.from(new Set(stale)));
+    } catch (error) {
+      const missing = stale.filter((name) => !this.starkAccount?.getTradingFeeForMarket(name));
+      if (missing.length > 0) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Get market by name with account fees ready for order signing
+   */
+  private async getTradingMarket(marketName: string): Promise<MarketModel> {
+    const market = await this.getMarket(marketName);
+    await this.ensureFees([marketName]);
+    return market;
+  }
+
+  /**
+   * Mark price of a market for the limit price cap/floor checks of order validation: the one
+   * given, else the current one with the `fetchMarkPrice` option. Returns `undefined` when
+   * there is none; the exchange still enforces the limits.
+   */
+  private async getMarkPrice(marketName: string, markPrice?: Decimal): Promise<Decimal | undefined> {
+    if (markPrice || !this.fetchMarkPrice) {
+      return markPrice;
+    }
+    try {
+      const response = await this.marketsInfoModule.getMarketStatistics(marketName);
+      return response.data?.markPrice;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Build and sign an order from `placeOrder` options
+   */
+  private buildOrder(market: MarketModel, options: PlaceOrderOptions, markPrice?: Decimal): NewOrderModel {
+    if (!this.starkAccount) {
+      throw new Error('Stark account is not set');
+    }
+
+    const expireTime = options.expireTime || (() => {
+      const dt = new Date(utcNow());
+      dt.setHours(dt.getHours() + 1);
+      return dt;
+    })();
+
+    return createOrderObject(
+      this.starkAccount,
+      market,
+      options.amountOfSynthetic,
+      options.price,
+      options.side,
+      this.config.starknetDomain,
+      {
+        validate: true,
+        markPrice,
+        postOnly: options.postOnly,
+        previousOrderExternalId: options.previousOrderId,
+        expireTime,
+        orderExternalId: options.externalId,
+        timeInForce: options.timeInForce,
+        selfTradeProtectionLevel: options.selfTradeProtectionLevel,
+        builderFee: options.builderFee,
+        builderId: options.builderId,
+        reduceOnly: options.reduceOnly,
+        tpSlType: options.tpSlType,
+        takeProfit: options.takeProfit,
+        stopLoss: options.stopLoss,
+      }
+    );
+  }
+
+  /**
+   * Send a signed order, recording it in the order tracker
+   */
+  private async submitOrder(order: NewOrderModel): Promise<WrappedApiResponse<PlacedOrderModel>> {
+    const send = () =>
+      order.cancelId ? this.orderManagementModule.replaceOrder(order) : this.orderManagementModule.placeOrder(order);
+    if (!this.tracker) {
+      return await send();
+    }
+
+    this.tracker.recordSubmitted(order);
+    try {
+      const response = await send();
+      this.tracker.recordPlaced(order.id, response.data);
+      return response;
+    } catch (error) {
+      this.tracker.recordFailed(order.id, error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
   }
 
   /**
    * Place an order
    */
-  async placeOrder(options: {
+  async placeOrder(options: PlaceOrderOptions): Promise<WrappedApiResponse<PlacedOrderModel>> {
+    if (!this.starkAccount) {
+      throw new Error('Stark account is not set');
+    }
+
+    const [market, markPrice] = await Promise.all([
+      this.getTradingMarket(options.marketName),
+      this.getMarkPrice(options.marketName, options.markPrice),
+    ]);
+    const order = this.buildOrder(market, options, markPrice);
+
+    return await this.submitOrder(order);
+  }
+
+  /**
+   * Place multiple orders
+   *
+   * All orders are validated and signed up front, then submitted with at most
+   * `concurrency` requests in flight. Failures do not abort the batch: the result
+   * array holds one entry per input order, in input order, with either the placed
+   * order or the error that rejected it. Fees are fetched once for the whole batch; if
+   * that fails, orders of markets without cached fees fail with its error.
+   */
+  async placeOrders(
+    orders: PlaceOrderOptions[],
+    options: { concurrency?: number } = {}
+  ): Promise<PlaceOrderResult[]> {
+    if (!this.starkAccount) {
+      throw new Error('Stark account is not set');
+    }
+
+    const concurrency = options.concurrency ?? DEFAULT_BATCH_CONCURRENCY;
+
+    // Fees of all markets are fetched in one request. When it fails, the orders of markets
+    // without cached fees fail with its error rather than refetching fees once per order.
+    const marketNames = Array.from(new Set(orders.map((order) => order.marketName)));
+    const fetchMarkPriceFor = new Set(orders.filter((order) => !order.markPrice).map((order) => order.marketName));
+    const [feesError, markPrices] = await Promise.all([
+      this.ensureFees(marketNames).then(
+        () => undefined,
+        (error) => (error instanceof Error ? error : new Error(String(error)))
+      ),
+      Promise.all(marketNames.map((name) => (fetchMarkPriceFor.has(name) ? this.getMarkPrice(name) : undefined))),
+    ]);
+    const markPriceByMarket = new Map(marketNames.map((name, i) => [name, markPrices[i]]));
+
+    const signed: Array<NewOrderModel | Error> = [];
+    for (const orderOptions of orders) {
+      try {
+        if (feesError && !this.starkAccount.getTradingFeeForMarket(orderOptions.marketName)) {
+          throw feesError;
+        }
+        const market = await this.getMarket(orderOptions.marketName);
+        const markPrice = orderOptions.markPrice ?? markPriceByMarket.get(orderOptions.marketName);
+        signed.push(this.buildOrder(market, orderOptions, markPrice));
+      } catch (error) {
+        signed.push(error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+
+    return await mapWithConcurrency(signed, concurrency, async (order): Promise<PlaceOrderResult> => {
+      if (order instanceof Error) {
+        return { success: false, error: order };
+      }
+
+      try {
+        const response = await this.submitOrder(order);
+        if (!response.data) {
+          return { success: false, order, error: new X10Error(`No order data returned for order ${order.id}`) };
+        }
+        return { success: true, order, placedOrder: response.data };
+      } catch (error) {
+        return { success: false, order, error: error instanceof Error ? error : new Error(String(error)) };
+      }
+    });
+  }
+
+  /**
+   * Place a market order
+   *
+   * The order price is derived from the current best ask (buy) or best bid (sell)
+   * plus `maxSlippageBps`, and the order is sent as MARKET with IOC time in force.
+   * Either `qty` or `notional` (collateral value) must be provided. `worstPrice`
+   * further caps the price when it is tighter than the slippage cap.
+   */
+  async placeMarketOrder(options: {
     marketName: string;
-    amountOfSynthetic: Decimal;
-    price: Decimal;
     side: OrderSide;
-    postOnly?: boolean;
-    previousOrderId?: string;
+    qty?: Decimal;
+    notional?: Decimal;
+    maxSlippageBps?: number;
+    worstPrice?: Decimal;
+    externalId?: string;
+    selfTradeProtectionLevel?: SelfTradeProtectionLevel;
+    builderFee?: Decimal;
+    builderId?: number;
+    reduceOnly?: boolean;
+  }): Promise<WrappedApiResponse<PlacedOrderModel>> {
+    if (!this.starkAccount) {
+      throw new Error('Stark account is not set');
+    }
+
+    if (!options.qty === !options.notional) {
+      throw new Error('Exactly one of `qty` or `notional` must be provided');
+    }
+
+    const market = await this.getTradingMarket(options.marketName);
+    const tradingConfig = market.tradingConfig;
+    const maxSlippageBps = options.maxSlippageBps ?? DEFAULT_MAX_SLIPPAGE_BPS;
+    const isBuy = options.side === OrderSide.BUY;
+
+    const statsResponse = await this.marketsInfoModule.getMarketStatistics(options.marketName);
+    const stats = statsResponse.data;
+    const referencePrice = stats ? (isBuy ? stats.askPrice : stats.bidPrice) : undefined;
+    if (!referencePrice || referencePrice.lte(0)) {
+      throw new Error(`No ${isBuy ? 'ask' : 'bid'} price available for market ${options.marketName}`);
+    }
+
+    let price = applySlippage(market, referencePrice, options.side, maxSlippageBps);
+    if (options.worstPrice) {
+      price = isBuy ? Decimal.min(price, options.worstPrice) : Decimal.max(price, options.worstPrice);
+    }
+
+    const qty = options.qty
+      ? options.qty
+      : tradingConfig.calculateOrderSizeFromValue(options.notional!, referencePrice, Decimal.ROUND_DOWN);
+    if (qty.lte(0)) {
+      throw new Error(`Order quantity must be positive, got ${qty.toString()}`);
+    }
+
+    const order = createOrderObject(
+      this.starkAccount,
+      market,
+      qty,
+      price,
+      options.side,
+      this.config.starknetDomain,
+      {
+        validate: true,
+        markPrice: stats.markPrice,
+        orderType: OrderType.MARKET,
+        timeInForce: TimeInForce.IOC,
+        orderExternalId: options.externalId,
+        selfTradeProtectionLevel: options.selfTradeProtectionLevel,
+        builderFee: options.builderFee,
+        builderId: options.builderId,
+        reduceOnly: options.reduceOnly,
+      }
+    );
+
+    return await this.submitOrder(order);
+  }
+
+  /**
+   * Place a standalone conditional (stop / stop-limit) order
+   *
+   * The order rests untriggered until the `triggerPriceType` price (MARK by default)
+   * crosses `triggerPrice` in `direction`. When `direction` is omitted it is inferred
+   * from the current price; when provided, the trigger must be on the matching side
+   * of the current price. With `LIMIT` execution `price` is required; with `MARKET`
+   * execution the price is capped at `maxSlippageBps` from the trigger price.
+   */
+  async placeConditionalOrder(options: {
+    marketName: string;
+    side: OrderSide;
+    qty: Decimal;
+    triggerPrice: Decimal;
+    triggerPriceType?: OrderTriggerPriceType;
+    direction?: OrderTriggerDirection;
+    executionPriceType?: OrderPriceType;
+    price?: Decimal;
+    maxSlippageBps?: number;
     expireTime?: Date;
     timeInForce?: TimeInForce;
     selfTradeProtectionLevel?: SelfTradeProtectionLevel;
@@ -69,62 +533,250 @@ export class PerpetualTradingClient {
     builderFee?: Decimal;
     builderId?: number;
     reduceOnly?: boolean;
-    tpSlType?: OrderTpslType;
-    takeProfit?: OrderTpslTriggerParam;
-    stopLoss?: OrderTpslTriggerParam;
   }): Promise<WrappedApiResponse<PlacedOrderModel>> {
     if (!this.starkAccount) {
       throw new Error('Stark account is not set');
     }
 
-    if (!this.markets) {
-      this.markets = await this.marketsInfoModule.getMarketsDict();
+    const triggerPriceType = options.triggerPriceType ?? OrderTriggerPriceType.MARK;
+    const executionPriceType = options.executionPriceType ?? OrderPriceType.MARKET;
+    if (executionPriceType === OrderPriceType.LIMIT && !options.price) {
+      throw new Error('`price` is required for conditional orders with LIMIT execution');
     }
 
-    const market = this.markets[options.marketName];
-    if (!market) {
-      throw new Error(`Market ${options.marketName} not found`);
+    const market = await this.getTradingMarket(options.marketName);
+
+    const statsResponse = await this.marketsInfoModule.getMarketStatistics(options.marketName);
+    const stats = statsResponse.data;
+    const currentPrice = stats
+      ? triggerPriceType === OrderTriggerPriceType.INDEX
+        ? stats.indexPrice
+        : triggerPriceType === OrderTriggerPriceType.LAST
+          ? stats.lastPrice
+          : stats.markPrice
+      : undefined;
+    if (!currentPrice) {
+      throw new Error(`No ${triggerPriceType} price available for market ${options.marketName}`);
+    }
+
+    const direction = options.direction
+      ?? (options.triggerPrice.gt(currentPrice) ? OrderTriggerDirection.UP : OrderTriggerDirection.DOWN);
+    if (direction === OrderTriggerDirection.UP && !options.triggerPrice.gt(currentPrice)) {
+      throw new Error(
+        `Trigger price ${options.triggerPrice.toString()} must be above current ${triggerPriceType} price ` +
+          `${currentPrice.toString()} for UP direction`
+      );
     }
+    if (direction === OrderTriggerDirection.DOWN && !options.triggerPrice.lt(currentPrice)) {
+      throw new Error(
+        `Trigger price ${options.triggerPrice.toString()} must be below current ${triggerPriceType} price ` +
+          `${currentPrice.toString()} for DOWN direction`
+      );
+    }
+
+    const price = executionPriceType === OrderPriceType.LIMIT
+      ? options.price!
+      : applySlippage(
+          market,
+          options.triggerPrice,
+          options.side,
+          options.maxSlippageBps ?? DEFAULT_MAX_SLIPPAGE_BPS
+        );
+
+    const order = createOrderObject(
+      this.starkAccount,
+      market,
+      options.qty,
+      price,
+      options.side,
+      this.config.starknetDomain,
+      {
+        validate: true,
+        // The limit price is checked when the order triggers, at a mark price near the trigger price
+        markPrice: options.triggerPrice,
+        orderType: OrderType.CONDITIONAL,
+        trigger: new OrderConditionalTriggerParam(
+          options.triggerPrice,
+          triggerPriceType,
+          direction,
+          executionPriceType
+        ),
+        expireTime: options.expireTime,
+        timeInForce: options.timeInForce,
+        orderExternalId: options.externalId,
+        selfTradeProtectionLevel: options.selfTradeProtectionLevel,
+        builderFee: options.builderFee,
+        builderId: options.builderId,
+        reduceOnly: options.reduceOnly,
+      }
+    );
+
+    return await this.submitOrder(order);
+  }
+
+  /**
+   * Replace (amend) an open order
+   *
+   * Looks up the open order by its external ID, signs a new order with the changed
+   * fields and links it to the existing one via `cancelId`, so the exchange cancels
+   * and replaces it atomically. Fields that are not provided are copied from the
+   * existing order; the quantity defaults to the unfilled remainder.
+   */
+  async replaceOrder(
+    existingExternalId: string,
+    changes: {
+      price?: Decimal;
+      qty?: Decimal;
+      postOnly?: boolean;
+      reduceOnly?: boolean;
+      expireTime?: Date;
+      timeInForce?: TimeInForce;
+      selfTradeProtectionLevel?: SelfTradeProtectionLevel;
+      externalId?: string;
+      builderFee?: Decimal;
+      builderId?: number;
+      /** Mark price to check the limit price cap/floor against */
+      markPrice?: Decimal;
+    } = {}
+  ): Promise<WrappedApiResponse<PlacedOrderModel>> {
+    if (!this.starkAccount) {
+      throw new Error('Stark account is not set');
+    }
+
+    const ordersResponse = await this.accountModule.getOrderByExternalId(existingExternalId);
+    const existing = (ordersResponse.data || []).find((order) =>
+      REPLACEABLE_ORDER_STATUSES.has(order.status)
+    );
+    if (!existing) {
+      throw new PreviousOrderNotFoundException(`Open order with external ID ${existingExternalId} not found`);
+    }
+    if (existing.type !== OrderType.LIMIT) {
+      throw new X10Error(`Only LIMIT orders can be replaced, order ${existingExternalId} is ${existing.type}`);
+    }
+
+    const [market, markPrice] = await Promise.all([
+      this.getTradingMarket(existing.market),
+      this.getMarkPrice(existing.market, changes.markPrice),
+    ]);
+
+    const expireTime = changes.expireTime
+      || (existing.expiryTime ? new Date(existing.expiryTime) : undefined);
+    // Re-placing the full size of a partially filled order would over-fill it
+    const remainingQty = new Decimal(existing.qty).minus(existing.filledQty ?? 0);
+    if (!changes.qty && remainingQty.lte(0)) {
+      throw new X10Error(`Order ${existingExternalId} has no unfilled quantity to replace`);
+    }
+
+    const order = createOrderObject(
+      this.starkAccount,
+      market,
+      changes.qty ?? remainingQty,
+      changes.price ?? new Decimal(existing.price),
+      existing.side,
+      this.config.starknetDomain,
+      {
+        validate: true,
+        markPrice,
+        postOnly: changes.postOnly ?? existing.postOnly,
+        reduceOnly: changes.reduceOnly ?? existing.reduceOnly,
+        previousOrderExternalId: existingExternalId,
+        expireTime,
+        orderExternalId: changes.externalId,
+        timeInForce: changes.timeInForce ?? existing.timeInForce,
+        selfTradeProtectionLevel: changes.selfTradeProtectionLevel ?? existing.selfTradeProtectionLevel,
+        builderFee: changes.builderFee ?? existing.builderFee,
+        builderId: changes.builderId ?? existing.builderId,
+      }
+    );
+
+    return await this.submitOrder(order);
+  }
+
+  /**
+   * Attach or update take profit / stop loss on an open position
+   *
+   * Places a `TPSL` order with `POSITION` TPSL type on the closing side of the position.
+   * Trigger legs are signed against the full position size, so they close the whole
+   * position whatever its size when triggered. Pass `previousOrderId` to replace an
+   * existing position TP/SL order.
+   */
+  async setPositionTpSl(
+    marketName: string,
+    options: {
+      takeProfit?: OrderTpslTriggerParam;
+      stopLoss?: OrderTpslTriggerParam;
+      expireTime?: Date;
+      externalId?: string;
+      previousOrderId?: string;
+      selfTradeProtectionLevel?: SelfTradeProtectionLevel;
+      builderFee?: Decimal;
+      builderId?: number;
+    }
+  ): Promise<WrappedApiResponse<PlacedOrderModel>> {
+    if (!this.starkAccount) {
+      throw new Error('Stark account is not set');
+    }
+
+    if (!options.takeProfit && !options.stopLoss) {
+      throw new Error('Either `takeProfit` or `stopLoss` must be provided');
+    }
+
+    const market = await this.getTradingMarket(marketName);
+
+    const positionsResponse = await this.accountModule.getPositions({ marketNames: [marketName] });
+    const position = (positionsResponse.data || []).find(
+      (p) => p.market === marketName && p.status !== PositionStatus.CLOSED
+    );
+    if (!position) {
+      throw new Error(`No open position found for market ${marketName}`);
+    }
+
+    const positionSize = new Decimal(position.size).abs();
+    const side = position.side === PositionSide.LONG ? OrderSide.SELL : OrderSide.BUY;
+    const price = (options.takeProfit || options.stopLoss)!.price;
 
     const expireTime = options.expireTime || (() => {
       const dt = new Date(utcNow());
-      dt.setHours(dt.getHours() + 1);
+      dt.setDate(dt.getDate() + POSITION_TPSL_EXPIRY_DAYS);
       return dt;
     })();
 
     const order = createOrderObject(
       this.starkAccount,
       market,
-      options.amountOfSynthetic,
-      options.price,
-      options.side,
+      positionSize,
+      price,
+      side,
       this.config.starknetDomain,
       {
-        postOnly: options.postOnly,
-        previousOrderExternalId: options.previousOrderId,
+        // No mark price: trigger legs are priced for their trigger, not the current mark price
+        validate: true,
+        orderType: OrderType.TPSL,
+        tpSlType: OrderTpslType.POSITION,
+        takeProfit: options.takeProfit,
+        stopLoss: options.stopLoss,
+        reduceOnly: true,
         expireTime,
         orderExternalId: options.externalId,
-        timeInForce: options.timeInForce,
+        previousOrderExternalId: options.previousOrderId,
         selfTradeProtectionLevel: options.selfTradeProtectionLevel,
         builderFee: options.builderFee,
         builderId: options.builderId,
-        reduceOnly: options.reduceOnly,
-        tpSlType: options.tpSlType,
-        takeProfit: options.takeProfit,
-        stopLoss: options.stopLoss,
       }
     );
 
-    return await this.orderManagementModule.placeOrder(order);
+    return await this.submitOrder(order);
   }
 
   /**
-   * Close all sessions
+   * Stop the order tracker and close the HTTP transport, if the client created it
    */
   async close(): Promise<void> {
-    await this.marketsInfoModule.closeSession();
-    await this.accountModule.closeSession();
-    await this.orderManagementModule.closeSession();
+    this.tracker?.close();
+    // All modules share the client's transport, so it is closed once
+    if (this.ownsTransport) {
+      await this.transport.close?.();
+    }
   }
 
   /**
@@ -141,6 +793,13 @@ export class PerpetualTradingClient {
     return this.marketsInfoModule;
   }
 
+  /**
+   * Order tracker, when enabled with the `orderTracker` option
+   */
+  get orderTracker(): OrderTracker | undefined {
+    return this.tracker;
+  }
+
   /**
    * Account module
    */
@@ -0,0 +1,442 @@
+/**
+ * Client-side TWAP execution
+ *
+ * Splits a parent quantity into slices that are placed as slippage-capped market
+ * orders on a fixed schedule over the requested duration.
+ */
+
+import { EventEmitter } from 'events';
+import Decimal from 'decimal.js';
+import { PerpetualTradingClient } from './trading-client';
+import { AccountSubscription, AccountOrder, OrderChangeEvent } from '../stream-client/account-subscription';
+import { MarketModel } from '../markets';
+import { OrderSide, OrderStatus } from '../orders';
+import { AsyncQueue } from '../../utils/async-queue';
+
+/**
+ * TWAP execution status
+ */
+export enum TwapStatus {
+  PENDING = 'PENDING',
+  RUNNING = 'RUNNING',
+  PAUSED = 'PAUSED',
+  COMPLETED = 'COMPLETED',
+  CANCELLED = 'CANCELLED',
+  FAILED = 'FAILED',
+}
+
+/**
+ * TWAP execution options
+ */
+export interface TwapOptions {
+  marketName: string;
+  side: OrderSide;
+  totalQty: Decimal;
+  durationMs: number;
+  slices: number;
+  /** Fraction (0-1) by which slice timing and size are randomised around the schedule */
+  randomization?: number;
+  /** Slippage cap of each slice from the current best ask/bid */
+  maxSlippageBps?: number;
+  /** Worst acceptable price for any slice */
+  priceLimit?: Decimal;
+  reduceOnly?: boolean;
+  externalIdPrefix?: string;
+  /**
+   * Connected account subscription used to track slice fills. The subscription must
+   * be consumed (iterated) by the caller; the executor only listens for order updates.
+   * Without it, slices are assumed to be filled as submitted.
+   */
+  accountSubscription?: AccountSubscription;
+  /** How long to wait for outstanding slices to settle after the last slice */
+  settleTimeoutMs?: number;
+}
+
+/**
+ * Single TWAP slice
+ */
+export interface TwapSlice {
+  index: number;
+  externalId: string;
+  qty: Decimal;
+  filledQty: Decimal;
+  averagePrice?: Decimal;
+  status: OrderStatus;
+  error?: Error;
+}
+
+/**
+ * TWAP execution progress
+ */
+export interface TwapProgress {
+  status: TwapStatus;
+  slicesPlaced: number;
+  slicesTotal: number;
+  submittedQty: Decimal;
+  filledQty: Decimal;
+  remainingQty: Decimal;
+  averageFillPrice?: Decimal;
+}
+
+const TERMINAL_ORDER_STATUSES = new Set([
+  OrderStatus.FILLED,
+  OrderStatus.CANCELLED,
+  OrderStatus.EXPIRED,
+  OrderStatus.REJECTED,
+]);
+
+const FINISHED_TWAP_STATUSES = new Set([
+  TwapStatus.COMPLETED,
+  TwapStatus.CANCELLED,
+  TwapStatus.FAILED,
+]);
+
+const DEFAULT_SETTLE_TIMEOUT_MS = 10_000;
+const SETTLE_POLL_INTERVAL_MS = 250;
+
+export interface TwapExecutor {
+  on(event: 'slice', listener: (slice: TwapSlice) => void): this;
+  on(event: 'progress', listener: (progress: TwapProgress) => void): this;
+  on(event: 'done', listener: (progress: TwapProgress) => void): this;
+  once(event: 'slice', listener: (slice: TwapSlice) => void): this;
+  once(event: 'progress', listener: (progress: TwapProgress) => void): this;
+  once(event: 'done', listener: (progress: TwapProgress) => void): this;
+}
+
+/**
+ * TWAP executor driving `PerpetualTradingClient.placeMarketOrder` on a schedule
+ *
+ * Events:
+ * - `slice` - a slice was placed, rejected or updated by a fill
+ * - `progress` - execution progress changed
+ * - `done` - execution finished (completed, cancelled or failed)
+ *
+ * Iterating the executor yields progress updates until execution finishes.
+ */
+export class TwapExecutor extends EventEmitter {
+  private client: PerpetualTradingClient;
+  private options: TwapOptions;
+  private status: TwapStatus = TwapStatus.PENDING;
+  private slices: Map<string, TwapSlice> = new Map();
+  private slicesPlaced: number = 0;
+  private market?: MarketModel;
+  private cancelled: boolean = false;
+  private startTime: number = 0;
+  private pausedMs: number = 0;
+  private pauseStartedAt: number = 0;
+  private wake?: () => void;
+  private removeOrderListener?: () => void;
+
+  constructor(client: PerpetualTradingClient, options: TwapOptions) {
+    super();
+    if (options.slices < 1 || !Number.isInteger(options.slices)) {
+      throw new Error(`Slice count must be a positive integer, got ${options.slices}`);
+    }
+    if (options.durationMs < 0) {
+      throw new Error(`Duration must not be negative, got ${options.durationMs}`);
+    }
+    if (options.totalQty.lte(0)) {
+      throw new Error(`Total quantity must be positive, got ${options.totalQty.toString()}`);
+    }
+    const randomization = options.randomization ?? 0;
+    if (randomization < 0 || randomization > 1) {
+      throw new Error(`Randomization must be between 0 and 1, got ${randomization}`);
+    }
+
+    this.client = client;
+    this.options = options;
+  }
+
+  /**
+   * Run the TWAP until all slices are placed and settled, or until cancelled.
+   * Resolves with the final progress.
+   */
+  async start(): Promise<TwapProgress> {
+    if (this.status !== TwapStatus.PENDING) {
+      throw new Error(`TWAP executor cannot be started in ${this.status} status`);
+    }
+
+    const { slices, durationMs, accountSubscription } = this.options;
+    const randomization = this.options.randomization ?? 0;
+    const interval = durationMs / slices;
+
+    try {
+      this.market = await this.client.getMarket(this.options.marketName);
+
+      if (accountSubscription) {
+        const onOrderUpdated = (event: OrderChangeEvent) => this.handleOrderUpdate(event.order);
+        accountSubscription.on('orderUpdated', onOrderUpdated);
+        this.removeOrderListener = () => accountSubscription.off('orderUpdated', onOrderUpdated);
+      }
+
+      this.startTime = Date.now();
+      this.setStatus(TwapStatus.RUNNING);
+
+      for (let i = 0; i < slices && !this.cancelled; i++) {
+        const jitter = i > 0 ? (Math.random() * 2 - 1) * randomization * interval / 2 : 0;
+        await this.waitUntil(this.startTime + i * interval + jitter);
+        if (this.cancelled) {
+          break;
+        }
+        await this.placeSlice(i);
+      }
+
+      if (!this.cancelled) {
+        await this.waitForSettlement();
+      }
+
+      this.setStatus(this.cancelled ? TwapStatus.CANCELLED : TwapStatus.COMPLETED);
+    } catch (error) {
+      this.setStatus(TwapStatus.FAILED);
+      throw error;
+    } finally {
+      this.removeOrderListener?.();
+      this.emit('done', this.getProgress());
+    }
+
+    return this.getProgress();
+  }
+
+  /**
+   * Pause slice placement. The remaining schedule is shifted by the paused time.
+   */
+  pause(): void {
+    if (this.status !== TwapStatus.RUNNING) {
+      return;
+    }
+    this.pauseStartedAt = Date.now();
+    this.setStatus(TwapStatus.PAUSED);
+    this.wake?.();
+  }
+
+  /**
+   * Resume slice placement after `pause`
+   */
+  resume(): void {
+    if (this.status !== TwapStatus.PAUSED) {
+      return;
+    }
+    this.pausedMs += Date.now() - this.pauseStartedAt;
+    this.setStatus(TwapStatus.RUNNING);
+    this.wake?.();
+  }
+
+  /**
+   * Stop placing further slices. Slices already sent are IOC and are not cancelled.
+   */
+  cancel(): void {
+    if (FINISHED_TWAP_STATUSES.has(this.status)) {
+      return;
+    }
+    this.cancelled = true;
+    if (this.status === TwapStatus.PENDING) {
+      this.setStatus(TwapStatus.CANCELLED);
+      this.emit('done', this.getProgress());
+      return;
+    }
+    this.wake?.();
+  }
+
+  getStatus(): TwapStatus {
+    return this.status;
+  }
+
+  getSlices(): TwapSlice[] {
+    return Array.from(this.slices.values());
+  }
+
+  getProgress(): TwapProgress {
+    let submittedQty = new Decimal(0);
+    let filledQty = new Decimal(0);
+    let filledValue = new Decimal(0);
+    let pricedQty = new Decimal(0);
+
+    for (const slice of this.slices.values()) {
+      if (slice.status !== OrderStatus.REJECTED) {
+        submittedQty = submittedQty.plus(slice.qty);
+      }
+      filledQty = filledQty.plus(this.getSliceFilledQty(slice));
+      if (slice.averagePrice && slice.filledQty.gt(0)) {
+        filledValue = filledValue.plus(slice.averagePrice.mul(slice.filledQty));
+        pricedQty = pricedQty.plus(slice.filledQty);
+      }
+    }
+
+    return {
+      status: this.status,
+      slicesPlaced: this.slicesPlaced,
+      slicesTotal: this.options.slices,
+      submittedQty,
+      filledQty,
+      remainingQty: Decimal.max(this.options.totalQty.minus(filledQty), 0),
+      averageFillPrice: pricedQty.gt(0) ? filledValue.div(pricedQty) : undefined,
+    };
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<TwapProgress> {
+    const queue = new AsyncQueue<TwapProgress>();
+
+    if (FINISHED_TWAP_STATUSES.has(this.status)) {
+      queue.push(this.getProgress());
+      queue.close();
+      return queue[Symbol.asyncIterator]();
+    }
+
+    const onProgress = (progress: TwapProgress) => queue.push(progress);
+    this.on('progress', onProgress);
+    this.once('done', () => {
+      this.off('progress', onProgress);
+      queue.close();
+    });
+
+    return queue[Symbol.asyncIterator]();
+  }
+
+  /**
+   * Filled quantity of a slice. Without fill tracking, accepted slices count as filled.
+   */
+  private getSliceFilledQty(slice: TwapSlice): Decimal {
+    if (!this.options.accountSubscription) {
+      return slice.status === OrderStatus.REJECTED ? new Decimal(0) : slice.qty;
+    }
+    return slice.filledQty;
+  }
+
+  /**
+   * Quantity already taken by slices: fills of settled slices plus full size of outstanding ones
+   */
+  private getCommittedQty(): Decimal {
+    let committed = new Decimal(0);
+    for (const slice of this.slices.values()) {
+      committed = committed.plus(
+        TERMINAL_ORDER_STATUSES.has(slice.status) ? this.getSliceFilledQty(slice) : slice.qty
+      );
+    }
+    return committed;
+  }
+
+  private async placeSlice(index: number): Promise<void> {
+    const tradingConfig = this.market!.tradingConfig;
+    const isLastSlice = index === this.options.slices - 1;
+    const available = this.options.totalQty.minus(this.getCommittedQty());
+    if (available.lte(0)) {
+      return;
+    }
+
+    let qty = available;
+    if (!isLastSlice) {
+      const randomization = this.options.randomization ?? 0;
+      const sizeFactor = new Decimal(1).plus((Math.random() * 2 - 1) * randomization);
+      qty = available.div(this.options.slices - index).mul(sizeFactor);
+    }
+    qty = Decimal.min(tradingConfig.roundOrderSize(qty, Decimal.ROUND_DOWN), available);
+
+    // Too small to trade: leave it for the next slices to pick up
+    if (qty.lt(tradingConfig.minOrderSize)) {
+      return;
+    }
+
+    const externalId = `${this.options.externalIdPrefix ?? `twap-${this.startTime}`}-${index}`;
+    const slice: TwapSlice = {
+      index,
+      externalId,
+      qty,
+      filledQty: new Decimal(0),
+      status: OrderStatus.NEW,
+    };
+    this.slices.set(externalId, slice);
+
+    try {
+      await this.client.placeMarketOrder({
+        marketName: this.options.marketName,
+        side: this.options.side,
+        qty,
+        maxSlippageBps: this.options.maxSlippageBps,
+        worstPrice: this.options.priceLimit,
+        reduceOnly: this.options.reduceOnly,
+        externalId,
+      });
+      this.slicesPlaced++;
+    } catch (error) {
+      slice.status = OrderStatus.REJECTED;
+      slice.error = error instanceof Error ? error : new Error(String(error));
+    }
+
+    this.emit('slice', slice);
+    this.emitProgress();
+  }
+
+  private handleOrderUpdate(order: AccountOrder): void {
+    const slice = this.slices.get(order.externalId);
+    if (!slice) {
+      return;
+    }
+
+    slice.status = order.status;
+    slice.filledQty = new Decimal(order.filledQty || 0);
+    if (order.averagePrice) {
+      slice.averagePrice = new Decimal(order.averagePrice);
+    }
+
+    this.emit('slice', slice);
+    this.emitProgress();
+  }
+
+  private async waitForSettlement(): Promise<void> {
+    if (!this.options.accountSubscription) {
+      return;
+    }
+
+    const deadline = Date.now() + (this.options.settleTimeoutMs ?? DEFAULT_SETTLE_TIMEOUT_MS);
+    while (!this.cancelled && Date.now() < deadline) {
+      const settled = Array.from(this.slices.values()).every((slice) => TERMINAL_ORDER_STATUSES.has(slice.status));
+      if (settled) {
+        return;
+      }
+      await this.sleep(Math.min(SETTLE_POLL_INTERVAL_MS, deadline - Date.now()));
+    }
+  }
+
+  /**
+   * Wait until the scheduled time (shifted by paused time), honouring pause and cancel
+   */
+  private async waitUntil(target: number): Promise<void> {
+    while (!this.cancelled) {
+      if (this.status === TwapStatus.PAUSED) {
+        await this.sleep();
+        continue;
+      }
+      const delay = target + this.pausedMs - Date.now();
+      if (delay <= 0) {
+        return;
+      }
+      await this.sleep(delay);
+    }
+  }
+
+  /**
+   * Sleep for `ms`, or until woken by pause/resume/cancel when `ms` is omitted or earlier
+   */
+  private sleep(ms?: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timeoutId = ms !== undefined ? setTimeout(() => done(), ms) : undefined;
+      const done = () => {
+        if (timeoutId) {
+          clearTimeout(timeoutId);
+        }
+        this.wake = undefined;
+        resolve();
+      };
+      this.wake = done;
+    });
+  }
+
+  private setStatus(status: TwapStatus): void {
+    this.status = status;
+    this.emitProgress();
+  }
+
+  private emitProgress(): void {
+    this.emit('progress', this.getProgress());
+  }
+}
@@ -8,7 +8,6 @@ import { StarkPerpetualAccount } from './accounts';
 import { OnChainPerpetualTransferModel, StarkTransferSettlement } from './transfers';
 import { SettlementSignatureModel } from '../utils/model';
 import { getTransferMsgHash } from './crypto/signer';
-import { generateNonce } from '../utils/nonce';
 import { utcNow } from '../utils/date';
 
 /**
@@ -39,7 +38,7 @@ export function createTransferObject(
   const starkAmount = Math.round(scaledAmount.toNumber());
   
   const starknetDomain: StarknetDomain = config.starknetDomain;
-  const finalNonce = nonce || generateNonce();
+  const finalNonce = nonce || starkAccount.getNonceProvider().next();
 
   // Convert to_l2_key to number if it's a string
   let toL2KeyNum: number;
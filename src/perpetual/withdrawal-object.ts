@@ -8,7 +8,6 @@ import { StarkPerpetualAccount } from './accounts';
 import { WithdrawalRequest, StarkWithdrawalSettlement, Timestamp } from './withdrawals';
 import { SettlementSignatureModel } from '../utils/model';
 import { getWithdrawalMsgHash } from './crypto/signer';
-import { generateNonce } from '../utils/nonce';
 import { utcNow } from '../utils/date';
 
 /**
@@ -41,7 +40,7 @@ export function createWithdrawalObject(
   const starkAmount = Math.round(scaledAmount.toNumber());
   
   const starknetDomain: StarknetDomain = config.starknetDomain;
-  const finalNonce = nonce || generateNonce();
+  const finalNonce = nonce || starkAccount.getNonceProvider().next();
 
   const withdrawalHash = getWithdrawalMsgHash({
     recipientHex: recipientStarkAddress.startsWith('0x')
@@ -0,0 +1,89 @@
+/**
+ * Async queue utilities
+ */
+
+/**
+ * Unbounded FIFO queue that bridges push-based producers and async iterator consumers.
+ * Once closed, pending and future reads complete after the buffered items are drained.
+ */
+export class AsyncQueue<T> implements AsyncIterable<T> {
+  private items: T[] = [];
+  private waiters: Array<{
+    resolve: (result: IteratorResult<T>) => void;
+    reject: (error: Error) => void;
+  }> = [];
+  private closed = false;
+  private error?: Error;
+
+  /**
+   * Add an item, handing it directly to a waiting consumer if there is one
+   */
+  push(item: T): void {
+    if (this.closed) {
+      return;
+    }
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter.resolve({ value: item, done: false });
+    } else {
+      this.items.push(item);
+    }
+  }
+
+  /**
+   * Close the queue. When `error` is given, consumers receive it after draining buffered items.
+   */
+  close(error?: Error): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.error = error;
+    for (const waiter of this.waiters.splice(0)) {
+      if (error) {
+        waiter.reject(error);
+      } else {
+        waiter.resolve({ value: undefined, done: true });
+      }
+    }
+  }
+
+  /**
+   * Take the next item, waiting until one is available or the queue is closed
+   */
+  next(): Promise<IteratorResult<T>> {
+    if (this.items.length > 0) {
+      return Promise.resolve({ value: this.items.shift()!, done: false });
+    }
+    if (this.closed) {
+      return this.error
+        ? Promise.reject(this.error)
+        : Promise.resolve({ value: undefined, done: true });
+    }
+    return new Promise((resolve, reject) => {
+      this.waiters.push({ resolve, reject });
+    });
+  }
+
+  /**
+   * Remove and return the oldest buffered item without waiting
+   */
+  shift(): T | undefined {
+    return this.items.shift();
+  }
+
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return {
+      next: () => this.next(),
+      return: async () => ({ value: undefined, done: true }),
+    };
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Schema-driven deserialization of API responses into model classes
+ */
+
+import Decimal from 'decimal.js';
+import { DeserializationException } from '../errors';
+
+/**
+ * Model class with a field schema
+ */
+export interface ModelType<T = any> {
+  new (...args: any[]): T;
+  prototype: T;
+  schema: ModelSchema;
+}
+
+/**
+ * Field types: primitives, `decimal` (numeric string or number converted to Decimal),
+ * `any` (copied as is) or a nested model class
+ */
+export type FieldType = 'string' | 'number' | 'boolean' | 'decimal' | 'any' | ModelType;
+
+export interface FieldSpec {
+  type: FieldType;
+  /** Field holds an array of `type` */
+  array?: boolean;
+  /** Field may be missing or null */
+  optional?: boolean;
+}
+
+/**
+ * Fields of a model. A bare type is a required field.
+ * Fields missing from the schema are copied from the response unchanged.
+ */
+export type ModelSchema = Record<string, FieldType | FieldSpec>;
+
+function toFieldSpec(field: FieldType | FieldSpec): FieldSpec {
+  return typeof field === 'object' && field !== null && 'type' in field ? field : { type: field as FieldType };
+}
+
+function typeName(type: FieldType): string {
+  return typeof type === 'string' ? type : type.name;
+}
+
+function invalid(path: string, expected: FieldType, value: unknown): DeserializationException {
+  return new DeserializationException(
+    `Invalid response field ${path}: expected ${typeName(expected)}, got ${JSON.stringify(value)}`,
+    path
+  );
+}
+
+function deserializeValue(type: FieldType, value: any, path: string): any {
+  switch (type) {
+    case 'any':
+      return value;
+    case 'string':
+      if (typeof value === 'string') return value;
+      if (typeof value === 'number') return String(value);
+      throw invalid(path, type, value);
+    case 'number':
+      if (typeof value === 'number') return value;
+      if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+      throw invalid(path, type, value);
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      throw invalid(path, type, value);
+    case 'decimal':
+      if (value instanceof Decimal) return value;
+      if (typeof value === 'number' || (typeof value === 'string' && value.trim() !== '')) {
+        try {
+          return new Decimal(value);
+        } catch {
+          throw invalid(path, type, value);
+        }
+      }
+      throw invalid(path, type, value);
+    default:
+      return deserializeModel(type, value, path);
+  }
+}
+
+function deserializeModel<T>(modelType: ModelType<T>, data: any, path: string): T {
+  if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+    throw invalid(path, modelType, data);
+  }
+
+  // Bypass constructors: responses are hydrated field by field from the schema
+  const model = Object.create(modelType.prototype as object);
+  Object.assign(model, data);
+
+  for (const [name, field] of Object.entries(modelType.schema)) {
+    const spec = toFieldSpec(field);
+    const value = data[name];
+    const fieldPath = `${path}.${name}`;
+
+    if (value === null || value === undefined) {
+      if (!spec.optional) {
+        throw new DeserializationException(
+          `Invalid response field ${fieldPath}: required ${modelType.name} field is missing`,
+          fieldPath
+        );
+      }
+      continue;
+    }
+
+    if (spec.array) {
+      if (!Array.isArray(value)) {
+        throw new DeserializationException(
+          `Invalid response field ${fieldPath}: expected ${typeName(spec.type)}[], got ${JSON.stringify(value)}`,
+          fieldPath
+        );
+      }
+      model[name] = value.map((item, index) => deserializeValue(spec.type, item, `${fieldPath}[${index}]`));
+    } else {
+      model[name] = deserializeValue(spec.type, value, fieldPath);
+    }
+  }
+
+  return model;
+}
+
+/**
+ * Hydrate response data (an object or an array of objects) into instances of a model class,
+ * converting fields according to its schema. Throws `DeserializationException` naming the
+ * offending field when a required field is missing or has the wrong type.
+ */
+export function deserialize<T>(modelType: ModelType<T>, data: any[], path?: string): T[];
+export function deserialize<T>(modelType: ModelType<T>, data: any, path?: string): T;
+export function deserialize<T>(modelType: ModelType<T>, data: any, path: string = modelType.name): T | T[] {
+  if (Array.isArray(data)) {
+    return data.map((item, index) => deserializeModel(modelType, item, `${path}[${index}]`));
+  }
+  return deserializeModel(modelType, data, path);
+}
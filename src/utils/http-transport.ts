@@ -0,0 +1,181 @@
+/**
+ * Pluggable HTTP transport for REST requests
+ */
+
+import { Agent, fetch as undiciFetch } from 'undici';
+import { RequestTimeoutException } from '../errors';
+
+export type HttpMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE';
+
+export interface HttpRequest {
+  method: HttpMethod;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+  /** Abort the request with `RequestTimeoutException` after this many milliseconds */
+  timeoutMs?: number;
+  /** Abort the request when the signal fires */
+  signal?: AbortSignal;
+}
+
+/**
+ * Subset of the fetch `Response` the SDK relies on
+ */
+export interface HttpResponse {
+  status: number;
+  headers: { get(name: string): string | null };
+  text(): Promise<string>;
+}
+
+/**
+ * Sends HTTP requests. Implement it to route requests through a custom client or to mock the API in tests.
+ */
+export interface HttpTransport {
+  request(request: HttpRequest): Promise<HttpResponse>;
+  /** Release pooled connections */
+  close?(): Promise<void>;
+}
+
+export type FetchFunction = (url: string, init: Record<string, any>) => Promise<HttpResponse>;
+
+/**
+ * Run `fn` with a signal that aborts on timeout or when `request.signal` fires
+ */
+async function withTimeout<T>(request: HttpRequest, fn: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const onAbort = () => controller.abort(request.signal?.reason);
+  if (request.signal?.aborted) {
+    onAbort();
+  } else {
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  const timeoutId =
+    request.timeoutMs !== undefined
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, request.timeoutMs)
+      : undefined;
+
+  try {
+    return await fn(controller.signal);
+  } catch (error) {
+    if (timedOut) {
+      throw new RequestTimeoutException(
+        `${request.method} ${request.url} timed out after ${request.timeoutMs} ms`
+      );
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    request.signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Transport built on a fetch implementation, the global `fetch` by default
+ */
+export class FetchTransport implements HttpTransport {
+  private fetchFn?: FetchFunction;
+
+  constructor(options: { fetch?: FetchFunction } = {}) {
+    this.fetchFn = options.fetch;
+  }
+
+  async request(request: HttpRequest): Promise<HttpResponse> {
+    // Resolve the global fetch per request so it can be replaced at runtime
+    const fetchFn = this.fetchFn ?? (globalThis.fetch as unknown as FetchFunction);
+
+    return withTimeout(request, (signal) =>
+      fetchFn(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        signal,
+      })
+    );
+  }
+
+  async close(): Promise<void> {
+    // Connections are owned by the fetch implementation
+  }
+}
+
+/**
+ * Keep-alive settings of `UndiciTransport`
+ */
+export interface UndiciTransportOptions {
+  /** Maximum connections per origin */
+  connections?: number;
+  /** How long idle connections are kept open */
+  keepAliveTimeoutMs?: number;
+}
+
+/**
+ * Node.js transport using an undici connection pool with keep-alive
+ */
+export class UndiciTransport implements HttpTransport {
+  private agent: Agent;
+  private closed = false;
+
+  constructor(options: UndiciTransportOptions = {}) {
+    this.agent = new Agent({
+      connections: options.connections ?? 16,
+      keepAliveTimeout: options.keepAliveTimeoutMs ?? 30_000,
+      keepAliveMaxTimeout: Math.max(options.keepAliveTimeoutMs ?? 30_000, 60_000),
+    });
+  }
+
+  async request(request: HttpRequest): Promise<HttpResponse> {
+    if (this.closed) {
+      throw new Error('HTTP transport is closed');
+    }
+
+    return withTimeout(request, (signal) =>
+      undiciFetch(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        signal,
+        dispatcher: this.agent,
+      })
+    );
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    await this.agent.close();
+  }
+}
+
+/**
+ * Create the default transport, an `UndiciTransport` with default keep-alive settings
+ */
+export function createDefaultHttpTransport(): HttpTransport {
+  return new UndiciTransport();
+}
+
+let defaultHttpTransport: HttpTransport | undefined;
+
+/**
+ * Get the transport used by requests that are not given one
+ */
+export function getDefaultHttpTransport(): HttpTransport {
+  if (!defaultHttpTransport) {
+    defaultHttpTransport = createDefaultHttpTransport();
+  }
+  return defaultHttpTransport;
+}
+
+/**
+ * Replace the transport used by requests that are not given one
+ */
+export function setDefaultHttpTransport(transport: HttpTransport): void {
+  defaultHttpTransport = transport;
+}
@@ -2,8 +2,23 @@
  * HTTP client utilities for X10 API
  */
 
-import { USER_AGENT, DEFAULT_REQUEST_TIMEOUT_SECONDS } from '../config';
-import { RateLimitException, NotAuthorizedException } from '../errors';
+import { USER_AGENT, DEFAULT_REQUEST_TIMEOUT_MS } from '../config';
+import {
+  ApiErrorDetails,
+  X10ApiException,
+  RateLimitException,
+  NotAuthorizedException,
+  InsufficientFundsException,
+  MarketNotFoundException,
+  ServerException,
+  InvalidOrderException,
+  PreviousOrderNotFoundException,
+  PreviousOrderTriggeredException,
+  PreviousOrderConflictException,
+} from '../errors';
+import { OrderStatusReason } from '../perpetual/orders';
+import { parseRetryAfter } from './retry';
+import { HttpMethod, HttpResponse, HttpTransport, getDefaultHttpTransport } from './http-transport';
 import { X10BaseModel } from './model';
 
 export type ApiResponseType<T> = T | T[] | number;
@@ -156,6 +171,17 @@ export function getUrl(
   return url;
 }
 
+/**
+ * Per-request transport options
+ */
+export interface RequestOptions {
+  /** Transport to send the request with, `getDefaultHttpTransport()` by default */
+  transport?: HttpTransport;
+  /** Request timeout, `DEFAULT_REQUEST_TIMEOUT_MS` (30 s) by default */
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
 /**
  * Get HTTP headers for requests
  */
@@ -177,6 +203,99 @@ function getHeaders(apiKey?: string, requestHeaders?: Record<string, string>): R
   return headers;
 }
 
+type ApiExceptionFactory = (message: string, details: ApiErrorDetails) => X10ApiException;
+
+function invalidOrder(statusReason: OrderStatusReason): ApiExceptionFactory {
+  return (message, details) => new InvalidOrderException(message, { ...details, statusReason });
+}
+
+/**
+ * `ResponseError` codes with a dedicated exception class
+ */
+const ERROR_CODE_EXCEPTIONS = new Map<number, ApiExceptionFactory>([
+  [1001, (message, details) => new MarketNotFoundException(message, details)],
+  [1002, invalidOrder(OrderStatusReason.DISABLED_MARKET)],
+  [1120, invalidOrder(OrderStatusReason.INVALID_QTY)],
+  [1121, invalidOrder(OrderStatusReason.INVALID_QTY)],
+  [1122, invalidOrder(OrderStatusReason.INVALID_VALUE)],
+  [1123, invalidOrder(OrderStatusReason.INVALID_QTY)],
+  [1124, invalidOrder(OrderStatusReason.INVALID_PRICE)],
+  [1125, invalidOrder(OrderStatusReason.INVALID_PRICE)],
+  [1127, invalidOrder(OrderStatusReason.INVALID_VALUE)],
+  [1128, invalidOrder(OrderStatusReason.INVALID_FEE)],
+  [1135, invalidOrder(OrderStatusReason.INVALID_EXPIRE_TIME)],
+  [1136, invalidOrder(OrderStatusReason.REDUCE_ONLY_FAILED)],
+  [1137, invalidOrder(OrderStatusReason.REDUCE_ONLY_FAILED)],
+  [1138, invalidOrder(OrderStatusReason.REDUCE_ONLY_FAILED)],
+  [1140, (message, details) => new InsufficientFundsException(message, details)],
+  [1141, invalidOrder(OrderStatusReason.INVALID_PRICE)],
+  [1142, (message, details) => new PreviousOrderNotFoundException(message, details)],
+]);
+
+/**
+ * Status reasons of rejected orders with a dedicated exception class. The exchange accepts
+ * a replacement before processing it, so a rejected replace only shows in the status reason
+ * of the new order.
+ */
+const STATUS_REASON_EXCEPTIONS = new Map<string, (message: string, details: ApiErrorDetails) => InvalidOrderException>([
+  [OrderStatusReason.PREV_ORDER_NOT_FOUND, (message, details) => new PreviousOrderNotFoundException(message, details)],
+  [OrderStatusReason.PREV_ORDER_TRIGGERED, (message, details) => new PreviousOrderTriggeredException(message, details)],
+  [OrderStatusReason.PREV_ORDER_CONFLICT, (message, details) => new PreviousOrderConflictException(message, details)],
+]);
+
+/**
+ * Create the most specific exception for an order the exchange rejected with `statusReason`
+ */
+export function createOrderRejectedException(
+  statusReason: string | undefined,
+  message: string,
+  details: ApiErrorDetails = {}
+): InvalidOrderException {
+  const createException = statusReason !== undefined ? STATUS_REASON_EXCEPTIONS.get(statusReason) : undefined;
+  if (createException) {
+    return createException(message, details);
+  }
+  return new InvalidOrderException(message, { ...details, statusReason: statusReason as OrderStatusReason });
+}
+
+/**
+ * Extract the `ResponseError` details from a response body, if it has one
+ */
+function getErrorDetails(url: string, status: number, error: any): ApiErrorDetails {
+  return {
+    url,
+    status,
+    code: error?.code,
+    errorMessage: error?.message,
+    debugInfo: error?.debugInfo,
+  };
+}
+
+function parseResponseError(responseText: string): any {
+  try {
+    return JSON.parse(responseText)?.error;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Create the most specific API exception for an error response, by its `ResponseError`
+ * code. Responses without a known code are classified by HTTP status.
+ */
+function createApiException(message: string, details: ApiErrorDetails): X10ApiException {
+  const createException = details.code !== undefined ? ERROR_CODE_EXCEPTIONS.get(details.code) : undefined;
+  if (createException) {
+    return createException(message, details);
+  }
+
+  if (details.status !== undefined && details.status >= 500) {
+    return new ServerException(message, details);
+  }
+
+  return new X10ApiException(message, details);
+}
+
 /**
  * Handle HTTP errors
  */
@@ -184,26 +303,55 @@ function handleKnownErrors(
   url: string,
   responseCodeToException: Map<number, typeof Error> | undefined,
   status: number,
-  responseText: string
+  responseText: string,
+  retryAfter?: string | null
 ): void {
+  if (status < 300) {
+    return;
+  }
+
+  const details = getErrorDetails(url, status, parseResponseError(responseText));
+
   if (status === 401) {
-    throw new NotAuthorizedException(`Unauthorized response from ${url}: ${responseText}`);
+    throw new NotAuthorizedException(`Unauthorized response from ${url}: ${responseText}`, details);
   }
 
   if (status === 429) {
-    throw new RateLimitException(`Rate limited response from ${url}: ${responseText}`);
+    throw new RateLimitException(`Rate limited response from ${url}: ${responseText}`, {
+      ...details,
+      retryAfterMs: parseRetryAfter(retryAfter),
+    });
   }
 
-  if (responseCodeToException && status in responseCodeToException) {
+  if (responseCodeToException && responseCodeToException.has(status)) {
     const ExceptionClass = responseCodeToException.get(status);
     if (ExceptionClass) {
       throw new ExceptionClass(responseText);
     }
   }
 
-  if (status > 299) {
-    throw new Error(`Error response from ${url}: code ${status} - ${responseText}`);
-  }
+  throw createApiException(`Error response from ${url}: code ${status} - ${responseText}`, details);
+}
+
+/**
+ * Send a request through the transport
+ */
+async function sendRequest(
+  method: HttpMethod,
+  url: string,
+  headers: Record<string, string>,
+  json: any,
+  options: RequestOptions
+): Promise<HttpResponse> {
+  const transport = options.transport ?? getDefaultHttpTransport();
+  return transport.request({
+    method,
+    url,
+    headers,
+    body: json ? JSON.stringify(json) : undefined,
+    timeoutMs: options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS,
+    signal: options.signal,
+  });
 }
 
 /**
@@ -213,29 +361,23 @@ export async function sendGetRequest<T>(
   url: string,
   apiKey?: string,
   requestHeaders?: Record<string, string>,
-  responseCodeToException?: Map<number, typeof Error>
+  responseCodeToException?: Map<number, typeof Error>,
+  options: RequestOptions = {}
 ): Promise<WrappedApiResponse<T>> {
   const headers = getHeaders(apiKey, requestHeaders);
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), DEFAULT_REQUEST_TIMEOUT_SECONDS * 1000);
-
-  try {
-    const response = await fetch(url, {
-      method: 'GET',
-      headers,
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
-    const responseText = await response.text();
-    handleKnownErrors(url, responseCodeToException, response.status, responseText);
-    
-    const data = JSON.parse(responseText);
-    return data as WrappedApiResponse<T>;
-  } catch (error) {
-    clearTimeout(timeoutId);
-    throw error;
-  }
+  const response = await sendRequest('GET', url, headers, undefined, options);
+
+  const responseText = await response.text();
+  handleKnownErrors(
+    url,
+    responseCodeToException,
+    response.status,
+    responseText,
+    response.headers?.get('Retry-After')
+  );
+
+  const data = JSON.parse(responseText);
+  return data as WrappedApiResponse<T>;
 }
 
 /**
@@ -246,35 +388,31 @@ export async function sendPostRequest<T>(
   json?: any,
   apiKey?: string,
   requestHeaders?: Record<string, string>,
-  responseCodeToException?: Map<number, typeof Error>
+  responseCodeToException?: Map<number, typeof Error>,
+  options: RequestOptions = {}
 ): Promise<WrappedApiResponse<T>> {
   const headers = getHeaders(apiKey, requestHeaders);
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), DEFAULT_REQUEST_TIMEOUT_SECONDS * 1000);
-
-  try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers,
-      body: json ? JSON.stringify(json) : undefined,
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
-    const responseText = await response.text();
-    handleKnownErrors(url, responseCodeToException, response.status, responseText);
-    
-    const data = JSON.parse(responseText);
-    
-    if (data.status !== ResponseStatus.OK || data.error) {
-      throw new Error(`Error response from POST ${url}: ${JSON.stringify(data.error)}`);
-    }
-    
-    return data as WrappedApiResponse<T>;
-  } catch (error) {
-    clearTimeout(timeoutId);
-    throw error;
+  const response = await sendRequest('POST', url, headers, json, options);
+
+  const responseText = await response.text();
+  handleKnownErrors(
+    url,
+    responseCodeToException,
+    response.status,
+    responseText,
+    response.headers?.get('Retry-After')
+  );
+
+  const data = JSON.parse(responseText);
+
+  if (data.status !== ResponseStatus.OK || data.error) {
+    throw createApiException(
+      `Error response from POST ${url}: ${JSON.stringify(data.error)}`,
+      getErrorDetails(url, response.status, data.error)
+    );
   }
+
+  return data as WrappedApiResponse<T>;
 }
 
 /**
@@ -285,35 +423,28 @@ export async function sendPatchRequest<T>(
   json?: any,
   apiKey?: string,
   requestHeaders?: Record<string, string>,
-  responseCodeToException?: Map<number, typeof Error>
+  responseCodeToException?: Map<number, typeof Error>,
+  options: RequestOptions = {}
 ): Promise<WrappedApiResponse<T>> {
   const headers = getHeaders(apiKey, requestHeaders);
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), DEFAULT_REQUEST_TIMEOUT_SECONDS * 1000);
+  const response = await sendRequest('PATCH', url, headers, json, options);
 
-  try {
-    const response = await fetch(url, {
-      method: 'PATCH',
-      headers,
-      body: json ? JSON.stringify(json) : undefined,
-      signal: controller.signal,
-    });
+  let responseText = await response.text();
 
-    clearTimeout(timeoutId);
-    let responseText = await response.text();
+  if (responseText === '') {
+    responseText = '{"status": "OK"}';
+  }
 
-    if (responseText === '') {
-      responseText = '{"status": "OK"}';
-    }
+  handleKnownErrors(
+    url,
+    responseCodeToException,
+    response.status,
+    responseText,
+    response.headers?.get('Retry-After')
+  );
 
-    handleKnownErrors(url, responseCodeToException, response.status, responseText);
-    
-    const data = JSON.parse(responseText);
-    return data as WrappedApiResponse<T>;
-  } catch (error) {
-    clearTimeout(timeoutId);
-    throw error;
-  }
+  const data = JSON.parse(responseText);
+  return data as WrappedApiResponse<T>;
 }
 
 /**
@@ -323,37 +454,21 @@ export async function sendDeleteRequest<T>(
   url: string,
   apiKey?: string,
   requestHeaders?: Record<string, string>,
-  responseCodeToException?: Map<number, typeof Error>
+  responseCodeToException?: Map<number, typeof Error>,
+  options: RequestOptions = {}
 ): Promise<WrappedApiResponse<T>> {
   const headers = getHeaders(apiKey, requestHeaders);
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), DEFAULT_REQUEST_TIMEOUT_SECONDS * 1000);
-
-  try {
-    const response = await fetch(url, {
-      method: 'DELETE',
-      headers,
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
-    const responseText = await response.text();
-    handleKnownErrors(url, responseCodeToException, response.status, responseText);
-    
-    const data = JSON.parse(responseText);
-    return data as WrappedApiResponse<T>;
-  } catch (error) {
-    clearTimeout(timeoutId);
-    throw error;
-  }
+  const response = await sendRequest('DELETE', url, headers, undefined, options);
+
+  const responseText = await response.text();
+  handleKnownErrors(
+    url,
+    responseCodeToException,
+    response.status,
+    responseText,
+    response.headers?.get('Retry-After')
+  );
+
+  const data = JSON.parse(responseText);
+  return data as WrappedApiResponse<T>;
 }
-
-
-
-
-
-
-
-
-
-
@@ -2,20 +2,129 @@
  * Nonce generation utilities
  */
 
+import { randomBytes } from 'crypto';
+import * as fs from 'fs';
+
+const NONCE_RANGE = 2 ** 32;
+
 /**
- * Generates a nonce for use in StarkEx transactions
- * Returns a random integer between 0 and 2^32 - 1
+ * Source of nonces for signed orders, transfers and withdrawals.
+ * Nonces must not repeat for the same Stark key.
  */
-export function generateNonce(): number {
-  return Math.floor(Math.random() * (2 ** 32));
+export interface NonceProvider {
+  next(): number;
 }
 
+/**
+ * Cryptographically random 32-bit integer
+ */
+function randomUint32(): number {
+  return randomBytes(4).readUInt32BE(0);
+}
 
+/**
+ * Random nonces from the platform CSPRNG. Safe across processes sharing a key,
+ * with a small collision probability at very high order rates.
+ */
+export class CryptoRandomNonceProvider implements NonceProvider {
+  next(): number {
+    return randomUint32();
+  }
+}
+
+/**
+ * Strictly increasing nonces (wrapping at 2^32), guaranteed unique within a process.
+ * Starts from a random value unless `start` is given.
+ */
+export class MonotonicNonceProvider implements NonceProvider {
+  private current: number;
 
+  constructor(start?: number) {
+    this.current = (start ?? randomUint32()) % NONCE_RANGE;
+  }
 
+  next(): number {
+    const value = this.current;
+    this.current = (this.current + 1) % NONCE_RANGE;
+    return value;
+  }
+}
+
+/**
+ * Monotonic nonces persisted to a file so they survive restarts.
+ *
+ * Nonces are reserved in blocks of `blockSize`: the file always holds the first
+ * nonce that has not been reserved yet, so a restart skips at most the unused part
+ * of the last block and never reuses a nonce. The file must not be shared by
+ * concurrently running processes.
+ */
+export class FileNonceProvider implements NonceProvider {
+  private filePath: string;
+  private blockSize: number;
+  private current: number = 0;
+  private blockEnd: number = 0;
 
+  constructor(filePath: string, options: { blockSize?: number } = {}) {
+    this.filePath = filePath;
+    this.blockSize = options.blockSize ?? 1000;
+    if (this.blockSize < 1) {
+      throw new Error(`Block size must be positive, got ${this.blockSize}`);
+    }
+  }
 
+  next(): number {
+    if (this.current === this.blockEnd) {
+      this.reserveBlock();
+    }
+    const value = this.current;
+    this.current = (this.current + 1) % NONCE_RANGE;
+    return value;
+  }
 
+  private reserveBlock(): void {
+    let start: number;
+    if (fs.existsSync(this.filePath)) {
+      const content = fs.readFileSync(this.filePath, 'utf8').trim();
+      start = parseInt(content, 10);
+      if (isNaN(start)) {
+        throw new Error(`Invalid nonce file ${this.filePath}: ${content}`);
+      }
+    } else {
+      start = randomUint32();
+    }
 
+    const end = (start + this.blockSize) % NONCE_RANGE;
 
+    // Write-then-rename so a crash never leaves a truncated file behind
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, String(end));
+    fs.renameSync(tmpPath, this.filePath);
 
+    this.current = start % NONCE_RANGE;
+    this.blockEnd = end;
+  }
+}
+
+let defaultNonceProvider: NonceProvider = new CryptoRandomNonceProvider();
+
+/**
+ * Get the nonce provider used when an account has none configured
+ */
+export function getDefaultNonceProvider(): NonceProvider {
+  return defaultNonceProvider;
+}
+
+/**
+ * Replace the nonce provider used when an account has none configured
+ */
+export function setDefaultNonceProvider(provider: NonceProvider): void {
+  defaultNonceProvider = provider;
+}
+
+/**
+ * Generates a nonce for use in StarkEx transactions
+ * Returns an integer between 0 and 2^32 - 1 from the default nonce provider
+ */
+export function generateNonce(): number {
+  return defaultNonceProvider.next();
+}
@@ -0,0 +1,92 @@
+/**
+ * Cursor pagination helpers for history endpoints
+ */
+
+import { WrappedApiResponse } from './http';
+import { toEpochMillis } from './date';
+
+/**
+ * Paging options of history iterators
+ */
+export interface PaginationOptions {
+  /** Cursor to start from, the first page by default */
+  cursor?: number;
+  /** Page size requested from the API */
+  limit?: number;
+  /** Stop after yielding this many items */
+  maxCount?: number;
+}
+
+/**
+ * Time range of history iterators, in epoch milliseconds or as dates. Both ends are inclusive.
+ */
+export interface TimeRangeOptions {
+  startTime?: number | Date;
+  endTime?: number | Date;
+}
+
+/**
+ * Fetch one page of a history endpoint
+ */
+export type PageFetcher<T> = (cursor: number | undefined, limit: number | undefined) => Promise<WrappedApiResponse<T[]>>;
+
+export interface PaginateOptions<T> extends PaginationOptions, TimeRangeOptions {
+  /**
+   * Creation time of an item. When given, the time range is applied on the client and
+   * iteration stops at the first item older than `startTime` (history is returned newest first).
+   */
+  getTime?: (item: T) => number | undefined;
+}
+
+/**
+ * Convert a time range bound to epoch milliseconds
+ */
+export function toTimestamp(value: number | Date | undefined): number | undefined {
+  return value instanceof Date ? toEpochMillis(value) : value;
+}
+
+/**
+ * Iterate over all items of a history endpoint, following pagination cursors until
+ * the last page, the start of the time range or `maxCount` items
+ */
+export async function* paginate<T>(fetchPage: PageFetcher<T>, options: PaginateOptions<T> = {}): AsyncGenerator<T> {
+  const { limit, maxCount, getTime } = options;
+  const startTime = toTimestamp(options.startTime);
+  const endTime = toTimestamp(options.endTime);
+
+  let cursor = options.cursor;
+  let count = 0;
+
+  if (maxCount !== undefined && maxCount <= 0) {
+    return;
+  }
+
+  while (true) {
+    const response = await fetchPage(cursor, limit);
+    const items = response.data ?? [];
+
+    for (const item of items) {
+      const time = getTime?.(item);
+      if (time !== undefined) {
+        if (endTime !== undefined && time > endTime) {
+          continue;
+        }
+        if (startTime !== undefined && time < startTime) {
+          return;
+        }
+      }
+
+      yield item;
+      count += 1;
+      if (maxCount !== undefined && count >= maxCount) {
+        return;
+      }
+    }
+
+    const next = response.pagination?.cursor;
+    if (items.length === 0 || next === undefined || next === null || next === cursor) {
+      return;
+    }
+    cursor = next;
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Client-side rate limiting for REST requests
+ */
+
+/**
+ * Groups of endpoints that are rate limited independently
+ */
+export enum EndpointGroup {
+  /** Unauthenticated market data */
+  PUBLIC = 'PUBLIC',
+  /** Authenticated reads and account operations */
+  PRIVATE = 'PRIVATE',
+  /** Order placement and cancellation */
+  ORDERS = 'ORDERS',
+}
+
+/**
+ * Token bucket settings: bursts of up to `capacity` requests, sustained `refillPerSecond`
+ */
+export interface TokenBucketConfig {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export type RateLimiterConfig = Partial<Record<EndpointGroup, TokenBucketConfig>>;
+
+/**
+ * Defaults stay below the exchange limit of 1,000 requests per minute: the sustained
+ * rates add up to 15 requests per second (900 per minute), leaving room for the bursts
+ */
+export const DEFAULT_RATE_LIMITS: Record<EndpointGroup, TokenBucketConfig> = {
+  [EndpointGroup.PUBLIC]: { capacity: 20, refillPerSecond: 5 },
+  [EndpointGroup.PRIVATE]: { capacity: 10, refillPerSecond: 3 },
+  [EndpointGroup.ORDERS]: { capacity: 30, refillPerSecond: 7 },
+};
+
+/**
+ * Wait-time metrics of an endpoint group
+ */
+export interface RateLimiterMetrics {
+  /** Requests that went through the limiter */
+  requests: number;
+  /** Requests that had to wait for a token */
+  throttled: number;
+  /** Requests currently waiting */
+  queued: number;
+  totalWaitMs: number;
+  maxWaitMs: number;
+  lastWaitMs: number;
+}
+
+/**
+ * FIFO token bucket. Requests that find no token are queued rather than rejected.
+ */
+class TokenBucket {
+  private config: TokenBucketConfig;
+  private tokens: number;
+  private lastRefill: number;
+  private waiters: Array<{ enqueuedAt: number; resolve: (waitMs: number) => void }> = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(config: TokenBucketConfig) {
+    if (config.capacity < 1 || config.refillPerSecond <= 0) {
+      throw new Error(`Invalid token bucket config: ${JSON.stringify(config)}`);
+    }
+    this.config = config;
+    this.tokens = config.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  get queued(): number {
+    return this.waiters.length;
+  }
+
+  /**
+   * Take a token, waiting for one if necessary. Resolves with the time waited.
+   */
+  acquire(): Promise<number> {
+    this.refill();
+    if (this.waiters.length === 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      return Promise.resolve(0);
+    }
+
+    return new Promise((resolve) => {
+      this.waiters.push({ enqueuedAt: Date.now(), resolve });
+      this.schedule();
+    });
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const refilled = ((now - this.lastRefill) / 1000) * this.config.refillPerSecond;
+    this.tokens = Math.min(this.config.capacity, this.tokens + refilled);
+    this.lastRefill = now;
+  }
+
+  private schedule(): void {
+    if (this.timer) {
+      return;
+    }
+    const delay = Math.ceil(((1 - this.tokens) / this.config.refillPerSecond) * 1000);
+    this.timer = setTimeout(() => this.drain(), Math.max(0, delay));
+  }
+
+  private drain(): void {
+    this.timer = undefined;
+    this.refill();
+
+    const now = Date.now();
+    while (this.waiters.length > 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      const waiter = this.waiters.shift()!;
+      waiter.resolve(now - waiter.enqueuedAt);
+    }
+
+    if (this.waiters.length > 0) {
+      this.schedule();
+    }
+  }
+}
+
+/**
+ * Token-bucket rate limiter with one bucket per endpoint group.
+ * Share one instance between clients that use the same account.
+ */
+export class RateLimiter {
+  private buckets: Map<EndpointGroup, TokenBucket> = new Map();
+  private metrics: Map<EndpointGroup, Omit<RateLimiterMetrics, 'queued'>> = new Map();
+
+  constructor(config: RateLimiterConfig = {}) {
+    for (const group of Object.values(EndpointGroup)) {
+      this.buckets.set(group, new TokenBucket(config[group] ?? DEFAULT_RATE_LIMITS[group]));
+      this.metrics.set(group, { requests: 0, throttled: 0, totalWaitMs: 0, maxWaitMs: 0, lastWaitMs: 0 });
+    }
+  }
+
+  /**
+   * Wait until a request of the given group may be sent
+   */
+  async acquire(group: EndpointGroup): Promise<void> {
+    const waitMs = await this.buckets.get(group)!.acquire();
+
+    const metrics = this.metrics.get(group)!;
+    metrics.requests += 1;
+    metrics.lastWaitMs = waitMs;
+    if (waitMs > 0) {
+      metrics.throttled += 1;
+      metrics.totalWaitMs += waitMs;
+      metrics.maxWaitMs = Math.max(metrics.maxWaitMs, waitMs);
+    }
+  }
+
+  /**
+   * Get wait-time metrics of an endpoint group
+   */
+  getMetrics(group: EndpointGroup): RateLimiterMetrics {
+    return { ...this.metrics.get(group)!, queued: this.buckets.get(group)!.queued };
+  }
+
+  resetMetrics(): void {
+    for (const metrics of this.metrics.values()) {
+      Object.assign(metrics, { requests: 0, throttled: 0, totalWaitMs: 0, maxWaitMs: 0, lastWaitMs: 0 });
+    }
+  }
+}
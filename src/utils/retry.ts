@@ -0,0 +1,162 @@
+/**
+ * Retry and backoff utilities for HTTP requests
+ */
+
+import { RateLimitException, RequestTimeoutException, X10ApiException } from '../errors';
+
+/**
+ * Retry policy for HTTP requests
+ */
+export interface RetryPolicy {
+  /** Retries after the first attempt; 0 disables retrying */
+  maxRetries: number;
+  /** Delay before the first retry */
+  initialDelayMs: number;
+  /** Upper bound for the backoff delay */
+  maxDelayMs: number;
+  /** Multiplier applied to the delay after each retry */
+  backoffFactor: number;
+  /** Randomise each delay within [0, delay] ("full jitter") */
+  jitter: boolean;
+  /** HTTP statuses that are retried, in addition to network errors and timeouts */
+  retryableStatuses: number[];
+  /** Wait at least the `Retry-After` interval of rate limited responses */
+  respectRetryAfter: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  initialDelayMs: 250,
+  maxDelayMs: 10_000,
+  backoffFactor: 2,
+  jitter: true,
+  retryableStatuses: [429, 500, 502, 503, 504],
+  respectRetryAfter: true,
+};
+
+export const NO_RETRY_POLICY: RetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  maxRetries: 0,
+};
+
+/**
+ * Per-request retry options
+ */
+export interface RetryOptions<T> {
+  /**
+   * Whether the request can safely be sent twice. Requests that are not idempotent
+   * are only retried when the server did not process them (429), or when `recover`
+   * confirms that the first attempt did not take effect.
+   */
+  idempotent?: boolean;
+  /**
+   * Called after an ambiguous failure (5xx, network error, timeout) of a non-idempotent
+   * request. Returns the result if the request did take effect, or `undefined` if it
+   * is safe to send again.
+   */
+  recover?: (error: unknown) => Promise<T | undefined>;
+}
+
+/**
+ * Merge a partial policy over a base policy
+ */
+export function resolveRetryPolicy(
+  policy: Partial<RetryPolicy> | undefined,
+  base: RetryPolicy = DEFAULT_RETRY_POLICY
+): RetryPolicy {
+  return { ...base, ...policy };
+}
+
+/**
+ * Backoff delay before retry number `retry` (starting at 0)
+ */
+export function getRetryDelay(policy: RetryPolicy, retry: number, retryAfterMs?: number): number {
+  const backoff = Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(policy.backoffFactor, retry));
+  const delay = policy.jitter ? Math.random() * backoff : backoff;
+
+  if (policy.respectRetryAfter && retryAfterMs !== undefined) {
+    return Math.max(delay, retryAfterMs);
+  }
+  return delay;
+}
+
+/**
+ * Parse a `Retry-After` header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
+}
+
+/**
+ * Whether the failed request was rejected before the server processed it
+ */
+function isRejectedBeforeProcessing(error: unknown): boolean {
+  return error instanceof RateLimitException;
+}
+
+/**
+ * Whether the failure is transient under the policy (retryable status, network error or timeout)
+ */
+function isTransient(policy: RetryPolicy, error: unknown): boolean {
+  if (error instanceof X10ApiException) {
+    return error.status !== undefined && policy.retryableStatuses.includes(error.status);
+  }
+  // fetch rejects with a TypeError on network failures. Requests aborted by the caller are not retried.
+  return error instanceof RequestTimeoutException || error instanceof TypeError;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run a request, retrying transient failures according to the policy
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  policy: RetryPolicy,
+  options: RetryOptions<T> = {}
+): Promise<T> {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (retry >= policy.maxRetries || !isTransient(policy, error)) {
+        throw error;
+      }
+
+      if (!options.idempotent && !isRejectedBeforeProcessing(error)) {
+        if (!options.recover) {
+          throw error;
+        }
+
+        let recovered: T | undefined;
+        try {
+          recovered = await options.recover(error);
+        } catch {
+          // The outcome of the request is unknown, so it must not be sent again
+          throw error;
+        }
+        if (recovered !== undefined) {
+          return recovered;
+        }
+      }
+
+      const retryAfterMs = error instanceof RateLimitException ? error.retryAfterMs : undefined;
+      await sleep(getRetryDelay(policy, retry, retryAfterMs));
+    }
+  }
+}
@@ -0,0 +1,278 @@
+/* Account subscription change events */
+
+// Import from built dist (the test script runs build first)
+const { EventEmitter } = require('events');
+const Decimal = require('decimal.js').default;
+const { AccountSubscription } = require('../dist/perpetual/stream-client/account-subscription');
+const { OrderWaitTimeoutException } = require('../dist/errors');
+
+/**
+ * Connection replaying scripted messages
+ */
+class FakeConnection extends EventEmitter {
+  constructor(messages) {
+    super();
+    this.messages = messages;
+  }
+
+  async recv() {
+    if (this.messages.length === 0) {
+      throw new Error('WebSocket is closed');
+    }
+    return this.messages.shift();
+  }
+
+  isClosed() {
+    return false;
+  }
+}
+
+const order = (id, status, filledQty, extra = {}) => ({
+  id,
+  externalId: `ext-${id}`,
+  market: 'BTC-USD',
+  status,
+  qty: '2',
+  filledQty,
+  ...extra,
+});
+const position = (id, status, size) => ({ id, market: 'BTC-USD', status, side: 'LONG', size });
+const message = (type, data, seq) => ({ type, data, ts: seq, seq });
+
+async function drain(subscription) {
+  const snapshots = [];
+  for await (const snapshot of subscription) {
+    snapshots.push(snapshot);
+  }
+  return snapshots;
+}
+
+function record(subscription, events) {
+  const recorded = [];
+  for (const name of events) {
+    subscription.on(name, (event) => recorded.push([name, event]));
+  }
+  return recorded;
+}
+
+describe('AccountSubscription events', () => {
+  it('emits the order lifecycle with before/after state', async () => {
+    const subscription = new AccountSubscription(
+      new FakeConnection([
+        message('ORDER', { isSnapshot: true, orders: [order(1, 'NEW', '0')] }, 1),
+        message('ORDER', { orders: [order(2, 'NEW', '0')] }, 2),
+        message('ORDER', { orders: [order(2, 'PARTIALLY_FILLED', '0.5')] }, 3),
+        message('ORDER', { orders: [order(2, 'FILLED', '2')] }, 4),
+        message('ORDER', { orders: [order(1, 'CANCELLED', '0', { statusReason: 'USER_CANCELLED' })] }, 5),
+      ])
+    );
+    const events = record(subscription, [
+      'orderCreated',
+      'orderPartiallyFilled',
+      'orderFilled',
+      'orderCancelled',
+    ]);
+
+    const snapshots = await drain(subscription);
+
+    expect(events.map(([name, event]) => `${name}:${event.order.id}`)).toEqual([
+      'orderCreated:2',
+      'orderPartiallyFilled:2',
+      'orderFilled:2',
+      'orderCancelled:1',
+    ]);
+    expect(events[1][1].fillQty.toString()).toBe('0.5');
+    expect(events[2][1].fillQty.toString()).toBe('1.5');
+    expect(events[2][1].previous.status).toBe('PARTIALLY_FILLED');
+    expect(events[3][1].statusReason).toBe('USER_CANCELLED');
+    expect(snapshots[snapshots.length - 1].orders).toEqual([]);
+  });
+
+  it('emits orderUpdated for every order, including the first snapshot', async () => {
+    const subscription = new AccountSubscription(
+      new FakeConnection([
+        message('ORDER', { isSnapshot: true, orders: [order(1, 'NEW', '0')] }, 1),
+        message('ORDER', { orders: [order(1, 'NEW', '0')] }, 2),
+      ])
+    );
+    const events = record(subscription, ['orderUpdated', 'orderCreated']);
+
+    await drain(subscription);
+
+    expect(events.map(([name]) => name)).toEqual(['orderUpdated', 'orderUpdated']);
+    expect(events[1][1].previous.id).toBe(1);
+  });
+
+  it('emits position, balance and trade events', async () => {
+    const subscription = new AccountSubscription(
+      new FakeConnection([
+        message('POSITION', { isSnapshot: true, positions: [] }, 1),
+        message('BALANCE', { isSnapshot: true, balance: { balance: '100' } }, 2),
+        message('POSITION', { positions: [position(7, 'OPENED', '1')] }, 3),
+        message('POSITION', { positions: [position(7, 'OPENED', '3')] }, 4),
+        message('POSITION', { positions: [position(7, 'CLOSED', '0')] }, 5),
+        message('BALANCE', { balance: { balance: '110' } }, 6),
+        message('TRADE', { trades: [{ id: 9, market: 'BTC-USD', price: '100', qty: '1' }] }, 7),
+      ])
+    );
+    const events = record(subscription, [
+      'positionOpened',
+      'positionChanged',
+      'positionClosed',
+      'balanceChanged',
+      'tradeExecuted',
+    ]);
+
+    const snapshots = await drain(subscription);
+
+    expect(events.map(([name]) => name)).toEqual([
+      'positionOpened',
+      'positionChanged',
+      'positionClosed',
+      'balanceChanged',
+      'tradeExecuted',
+    ]);
+    expect(events[1][1].previous.size).toBe('1');
+    expect(events[2][1].previous.size).toBe('3');
+    expect(events[3][1].previous.balance).toBe('100');
+    expect(events[4][1].id).toBe(9);
+    expect(snapshots[snapshots.length - 1].positions).toEqual([]);
+  });
+
+  it('reports changes in snapshots received after a reconnect', async () => {
+    const connection = new FakeConnection([
+      message('POSITION', { isSnapshot: true, positions: [position(7, 'OPENED', '1')] }, 1),
+      message('POSITION', { isSnapshot: true, positions: [position(7, 'OPENED', '2'), position(8, 'OPENED', '1')] }, 1),
+    ]);
+    const subscription = new AccountSubscription(connection);
+    const events = record(subscription, ['positionOpened', 'positionChanged']);
+
+    await drain(subscription);
+
+    expect(events.map(([name, event]) => `${name}:${event.position.id}`)).toEqual([
+      'positionChanged:7',
+      'positionOpened:8',
+    ]);
+  });
+
+  it('closes positions and resolves open orders missing from a snapshot after a reconnect', async () => {
+    const orderSource = {
+      getOrderById: jest.fn(async (id) => {
+        if (id === 1) {
+          return { data: { id, status: 'FILLED', filledQty: new Decimal(2), updatedTime: 5 } };
+        }
+        throw new Error('Order not found');
+      }),
+    };
+    const connection = new FakeConnection([
+      message('POSITION', { isSnapshot: true, positions: [position(7, 'OPENED', '1')] }, 1),
+      message('ORDER', { isSnapshot: true, orders: [order(1, 'NEW', '0'), order(2, 'NEW', '0')] }, 2),
+      message('POSITION', { isSnapshot: true, positions: [] }, 1),
+      message('ORDER', { isSnapshot: true, orders: [] }, 2),
+    ]);
+    const subscription = new AccountSubscription(connection, { orderSource });
+    const events = record(subscription, ['positionClosed', 'orderFilled', 'orderCancelled']);
+    const filled = subscription.waitForOrder('ext-1', (o) => o.status === 'FILLED');
+
+    const snapshots = await drain(subscription);
+
+    expect(events.map(([name, event]) => `${name}:${(event.position ?? event.order).id}`)).toEqual([
+      'positionClosed:7',
+      'orderFilled:1',
+      'orderCancelled:2',
+    ]);
+    expect(events[0][1].position.status).toBe('CLOSED');
+    expect(events[1][1].fillQty.toString()).toBe('2');
+    expect(events[2][1].order.status).toBe('UNKNOWN');
+    expect((await filled).updatedTime).toBe(5);
+    expect(subscription.getRecentTerminalOrders().map((o) => [o.id, o.status])).toEqual([
+      [1, 'FILLED'],
+      [2, 'UNKNOWN'],
+    ]);
+    expect(snapshots[snapshots.length - 1].orders).toEqual([]);
+    expect(orderSource.getOrderById.mock.calls.map(([id]) => id)).toEqual([1, 2]);
+  });
+});
+
+describe('AccountSubscription snapshots', () => {
+  const initialSnapshots = [
+    message('ORDER', { isSnapshot: true, orders: [order(1, 'NEW', '0')] }, 1),
+    message('POSITION', { isSnapshot: true, positions: [] }, 2),
+    message('BALANCE', { isSnapshot: true, balance: { balance: '100' } }, 3),
+  ];
+
+  it('yields after every snapshot and resolves ready() once all are received', async () => {
+    const subscription = new AccountSubscription(new FakeConnection([...initialSnapshots]));
+    const ready = jest.fn();
+    subscription.ready().then(ready);
+
+    const iterator = subscription[Symbol.asyncIterator]();
+    expect((await iterator.next()).value.orders).toHaveLength(1);
+    await iterator.next();
+    expect(subscription.isReady()).toBe(false);
+    expect(ready).not.toHaveBeenCalled();
+
+    const last = (await iterator.next()).value;
+    expect(last.balance.balance).toBe('100');
+    expect(subscription.isReady()).toBe(true);
+    await Promise.resolve();
+    expect(ready).toHaveBeenCalledWith(expect.objectContaining({ balance: last.balance }));
+    expect((await subscription.ready()).orders).toHaveLength(1);
+  });
+
+  it('rejects ready() when the stream ends first', async () => {
+    const subscription = new AccountSubscription(new FakeConnection([initialSnapshots[0]]));
+    const ready = subscription.ready();
+
+    await drain(subscription);
+
+    await expect(ready).rejects.toThrow('Account stream closed');
+  });
+
+  it('keeps a bounded history of terminal orders', async () => {
+    const subscription = new AccountSubscription(
+      new FakeConnection([
+        message('ORDER', { orders: [order(1, 'FILLED', '2')] }, 1),
+        message('ORDER', { orders: [order(2, 'CANCELLED', '0')] }, 2),
+        message('ORDER', { orders: [order(3, 'REJECTED', '0')] }, 3),
+        message('ORDER', { orders: [order(3, 'REJECTED', '0')] }, 4),
+      ]),
+      { maxTerminalOrders: 2 }
+    );
+    const created = jest.fn();
+    subscription.on('orderCreated', created);
+
+    await drain(subscription);
+
+    expect(subscription.getOrders()).toEqual([]);
+    expect(subscription.getRecentTerminalOrders().map((o) => o.id)).toEqual([2, 3]);
+    expect(subscription.getOrderByExternalId('ext-3').status).toBe('REJECTED');
+    expect(subscription.getOrderByExternalId('ext-1')).toBeUndefined();
+    // A repeated terminal update is not a new order
+    expect(created).toHaveBeenCalledTimes(3);
+  });
+
+  it('waits for an order to match a predicate', async () => {
+    const subscription = new AccountSubscription(
+      new FakeConnection([
+        message('ORDER', { orders: [order(5, 'NEW', '0')] }, 1),
+        message('ORDER', { orders: [order(5, 'FILLED', '2')] }, 2),
+      ])
+    );
+
+    const filled = subscription.waitForOrder('ext-5', (o) => o.status === 'FILLED', 1000);
+    await drain(subscription);
+
+    expect((await filled).filledQty).toBe('2');
+    // Known orders resolve immediately
+    expect((await subscription.waitForOrder('ext-5')).id).toBe(5);
+  });
+
+  it('times out waiting for an order', async () => {
+    const subscription = new AccountSubscription(new FakeConnection([]));
+
+    await expect(subscription.waitForOrder('missing', undefined, 10)).rejects.toBeInstanceOf(
+      OrderWaitTimeoutException
+    );
+  });
+});
@@ -0,0 +1,104 @@
+/* Schema-driven deserialization of API responses */
+
+// Import from built dist (the test script runs build first)
+const Decimal = require('decimal.js').default;
+const { deserialize } = require('../dist/utils/deserialize');
+const { DeserializationException } = require('../dist/errors');
+const { MarketModel, TradingConfigModel } = require('../dist/perpetual/markets');
+const { PositionModel } = require('../dist/perpetual/positions');
+const { OrderbookUpdateModel, OrderbookQuantityModel } = require('../dist/perpetual/orderbooks');
+
+const marketJson = {
+  name: 'BTC-USD',
+  assetName: 'BTC',
+  assetPrecision: 5,
+  collateralAssetName: 'USD',
+  collateralAssetPrecision: 6,
+  active: true,
+  status: 'ACTIVE',
+  marketStats: { lastPrice: '65000.5', markPrice: '65001', nextFundingRate: 1700000000000 },
+  tradingConfig: {
+    minOrderSize: '0.0001',
+    minOrderSizeChange: '0.00001',
+    minPriceChange: '0.1',
+    maxMarketOrderValue: '1000000',
+    riskFactorConfig: [{ upperBound: '400000', riskFactor: '0.02' }],
+  },
+  l2Config: {
+    type: 'STARKX',
+    collateralId: '0x31857064564ed0ff978e687456963cba09c2c6985d8f9300a1de4962fafa054',
+    collateralResolution: 1000000,
+    syntheticId: '0x4254432d3600000000000000000000',
+    syntheticResolution: 1000000,
+  },
+};
+
+describe('deserialize', () => {
+  it('hydrates nested models with Decimal fields and working getters', () => {
+    const market = deserialize(MarketModel, marketJson);
+
+    expect(market).toBeInstanceOf(MarketModel);
+    expect(market.tradingConfig).toBeInstanceOf(TradingConfigModel);
+    expect(market.tradingConfig.minPriceChange).toBeInstanceOf(Decimal);
+    expect(market.tradingConfig.minPriceChange.toString()).toBe('0.1');
+    expect(market.marketStats.lastPrice.toString()).toBe('65000.5');
+    expect(market.tradingConfig.riskFactorConfig[0].maxLeverage.toString()).toBe('50');
+    expect(market.tradingConfig.pricePrecision).toBe(1);
+    expect(market.syntheticAsset.settlementExternalId).toBe(marketJson.l2Config.syntheticId);
+  });
+
+  it('copies fields missing from the schema unchanged', () => {
+    const market = deserialize(MarketModel, marketJson);
+    expect(market.status).toBe('ACTIVE');
+  });
+
+  it('hydrates arrays and nested arrays', () => {
+    const books = deserialize(OrderbookUpdateModel, [
+      { market: 'BTC-USD', bid: [{ qty: '1.5', price: '64999' }], ask: [] },
+    ]);
+
+    expect(books).toHaveLength(1);
+    expect(books[0].bid[0]).toBeInstanceOf(OrderbookQuantityModel);
+    expect(books[0].bid[0].qty.toString()).toBe('1.5');
+    expect(books[0].ask).toEqual([]);
+  });
+
+  it('allows optional fields to be missing', () => {
+    const position = deserialize(PositionModel, { market: 'ETH-USD', side: 'LONG', size: '2' });
+    expect(position.size.toString()).toBe('2');
+    expect(position.markPrice).toBeUndefined();
+  });
+
+  it('rejects missing required fields with the field path', () => {
+    const positions = [
+      { market: 'ETH-USD', side: 'LONG', size: '2' },
+      { market: 'ETH-USD', side: 'SHORT' },
+    ];
+
+    expect(() => deserialize(PositionModel, positions)).toThrow(DeserializationException);
+    try {
+      deserialize(PositionModel, positions);
+    } catch (error) {
+      expect(error.path).toBe('PositionModel[1].size');
+    }
+  });
+
+  it('rejects invalid decimals in nested models', () => {
+    const json = {
+      ...marketJson,
+      tradingConfig: { ...marketJson.tradingConfig, riskFactorConfig: [{ upperBound: 'abc', riskFactor: '0.02' }] },
+    };
+
+    try {
+      deserialize(MarketModel, json, 'data');
+      throw new Error('expected DeserializationException');
+    } catch (error) {
+      expect(error).toBeInstanceOf(DeserializationException);
+      expect(error.path).toBe('data.tradingConfig.riskFactorConfig[0].upperBound');
+    }
+  });
+
+  it('rejects a non-object payload', () => {
+    expect(() => deserialize(PositionModel, 'oops')).toThrow(DeserializationException);
+  });
+});
@@ -0,0 +1,108 @@
+/* Typed API errors raised by the HTTP helpers */
+
+// Import from built dist (the test script runs build first)
+const { sendGetRequest, sendPostRequest, createOrderRejectedException } = require('../dist/utils/http');
+const {
+  X10Error,
+  X10ApiException,
+  RateLimitException,
+  InsufficientFundsException,
+  InvalidOrderException,
+  MarketNotFoundException,
+  PreviousOrderNotFoundException,
+  PreviousOrderTriggeredException,
+  PreviousOrderConflictException,
+  ServerException,
+} = require('../dist/errors');
+const { FetchTransport, setDefaultHttpTransport } = require('../dist/utils/http-transport');
+
+// Route requests through the mocked global fetch
+setDefaultHttpTransport(new FetchTransport());
+
+function mockFetch(status, body) {
+  global.fetch = jest.fn(async () => ({
+    status,
+    text: async () => (typeof body === 'string' ? body : JSON.stringify(body)),
+  }));
+}
+
+function errorBody(code, message) {
+  return { status: 'ERROR', error: { code, message } };
+}
+
+describe('HTTP error mapping', () => {
+  const originalFetch = global.fetch;
+  const url = 'https://api.example.com/api/v1/user/order';
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('carries status, error code, error message and url', async () => {
+    mockFetch(400, errorBody(1140, 'NOT_ENOUGH_FUNDS'));
+
+    const error = await sendPostRequest(url, {}).catch((e) => e);
+    expect(error).toBeInstanceOf(InsufficientFundsException);
+    expect(error).toBeInstanceOf(X10ApiException);
+    expect(error).toBeInstanceOf(X10Error);
+    expect(error.status).toBe(400);
+    expect(error.code).toBe(1140);
+    expect(error.errorMessage).toBe('NOT_ENOUGH_FUNDS');
+    expect(error.url).toBe(url);
+  });
+
+  it('maps order error codes to order exceptions', async () => {
+    mockFetch(200, errorBody(1121, 'Invalid quantity'));
+    const invalid = await sendPostRequest(url, {}).catch((e) => e);
+    expect(invalid).toBeInstanceOf(InvalidOrderException);
+    expect(invalid.statusReason).toBe('INVALID_QTY');
+
+    mockFetch(400, errorBody(1142, 'PREV_ORDER_NOT_FOUND'));
+    const replace = await sendPostRequest(url, {}).catch((e) => e);
+    expect(replace).toBeInstanceOf(PreviousOrderNotFoundException);
+    expect(replace).toBeInstanceOf(InvalidOrderException);
+  });
+
+  it('maps rejected replacements by the status reason of the new order', () => {
+    const triggered = createOrderRejectedException('PREV_ORDER_TRIGGERED', 'Order a was rejected');
+    expect(triggered).toBeInstanceOf(PreviousOrderTriggeredException);
+    expect(triggered.statusReason).toBe('PREV_ORDER_TRIGGERED');
+
+    const conflict = createOrderRejectedException('PREV_ORDER_CONFLICT', 'Order a was rejected');
+    expect(conflict).toBeInstanceOf(PreviousOrderConflictException);
+    expect(conflict.statusReason).toBe('PREV_ORDER_CONFLICT');
+
+    expect(createOrderRejectedException('PREV_ORDER_NOT_FOUND', 'Order a was rejected')).toBeInstanceOf(
+      PreviousOrderNotFoundException
+    );
+    const other = createOrderRejectedException('INVALID_PRICE', 'Order a was rejected');
+    expect(other.constructor).toBe(InvalidOrderException);
+    expect(other.statusReason).toBe('INVALID_PRICE');
+  });
+
+  it('maps unknown markets, server errors and rate limits', async () => {
+    mockFetch(404, errorBody(1001, 'Market not found'));
+    await expect(sendGetRequest(url)).rejects.toBeInstanceOf(MarketNotFoundException);
+
+    mockFetch(503, '<html>Service Unavailable</html>');
+    const server = await sendGetRequest(url).catch((e) => e);
+    expect(server).toBeInstanceOf(ServerException);
+    expect(server.status).toBe(503);
+    expect(server.code).toBeUndefined();
+
+    mockFetch(429, errorBody(429, 'Too many requests'));
+    await expect(sendGetRequest(url)).rejects.toBeInstanceOf(RateLimitException);
+  });
+
+  it('maps by error code, not by reason text in the message or url', async () => {
+    mockFetch(400, errorBody(1006, 'Order for market NOT_ENOUGH_FUNDS-USD rejected'));
+    const byCode = await sendPostRequest(url, {}).catch((e) => e);
+    expect(byCode.constructor).toBe(X10ApiException);
+
+    mockFetch(400, '{"status":"ERROR"}');
+    const marketUrl = 'https://api.example.com/api/v1/info/markets/UNKNOWN_MARKET/stats';
+    const byStatus = await sendGetRequest(marketUrl).catch((e) => e);
+    expect(byStatus.constructor).toBe(X10ApiException);
+    expect(byStatus.code).toBeUndefined();
+  });
+});
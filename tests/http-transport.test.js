@@ -0,0 +1,129 @@
+/* Pluggable HTTP transports */
+
+const http = require('http');
+
+// Import from built dist (the test script runs build first)
+const { FetchTransport, UndiciTransport } = require('../dist/utils/http-transport');
+const { sendGetRequest, sendPostRequest } = require('../dist/utils/http');
+const { RequestTimeoutException } = require('../dist/errors');
+const { MarketsInformationModule } = require('../dist/perpetual/trading-client/markets-information-module');
+const { TESTNET_CONFIG } = require('../dist/perpetual/configuration');
+
+function jsonResponse(body, status = 200) {
+  return { status, headers: { get: () => null }, text: async () => JSON.stringify(body) };
+}
+
+describe('FetchTransport', () => {
+  it('sends requests through an injected fetch', async () => {
+    const fetch = jest.fn(async () => jsonResponse({ status: 'OK', data: { id: 1 } }));
+    const transport = new FetchTransport({ fetch });
+
+    const response = await sendPostRequest('https://api.example.com/order', { a: 1 }, 'key', undefined, undefined, {
+      transport,
+    });
+
+    expect(response.data).toEqual({ id: 1 });
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('https://api.example.com/order');
+    expect(init.method).toBe('POST');
+    expect(init.body).toBe('{"a":1}');
+    expect(init.headers['X-Api-Key']).toBe('key');
+  });
+
+  it('times out slow requests', async () => {
+    const fetch = (url, init) =>
+      new Promise((_, reject) => init.signal.addEventListener('abort', () => reject(new Error('aborted'))));
+    const transport = new FetchTransport({ fetch });
+
+    await expect(
+      sendGetRequest('https://api.example.com/slow', undefined, undefined, undefined, { transport, timeoutMs: 10 })
+    ).rejects.toBeInstanceOf(RequestTimeoutException);
+  });
+
+  it('aborts requests when the caller signal fires', async () => {
+    const fetch = (url, init) =>
+      new Promise((_, reject) => init.signal.addEventListener('abort', () => reject(new Error('aborted'))));
+    const transport = new FetchTransport({ fetch });
+    const controller = new AbortController();
+
+    const pending = sendGetRequest('https://api.example.com/slow', undefined, undefined, undefined, {
+      transport,
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(pending).rejects.toThrow('aborted');
+  });
+});
+
+describe('UndiciTransport', () => {
+  let server;
+  let baseUrl;
+  const sockets = new Set();
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      sockets.add(req.socket);
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ status: 'OK', data: req.url }));
+    });
+    await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('reuses connections between requests', async () => {
+    const transport = new UndiciTransport();
+    try {
+      const paths = ['/a', '/b', '/c', '/d', '/e'];
+      for (const path of paths) {
+        const response = await sendGetRequest(`${baseUrl}${path}`, undefined, undefined, undefined, { transport });
+        expect(response.data).toBe(path);
+      }
+      expect(sockets.size).toBeLessThan(paths.length);
+    } finally {
+      await transport.close();
+    }
+
+    await expect(transport.request({ method: 'GET', url: baseUrl, headers: {} })).rejects.toThrow('closed');
+  });
+});
+
+describe('module transport ownership', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('leaves injected transports open', async () => {
+    const transport = { request: jest.fn(), close: jest.fn(async () => undefined) };
+    const module = new MarketsInformationModule(TESTNET_CONFIG, { transport });
+
+    await module.closeSession();
+
+    expect(transport.close).not.toHaveBeenCalled();
+  });
+
+  it('sends requests with the default timeout unless one is configured', async () => {
+    const request = jest.fn(async () => jsonResponse({ status: 'OK', data: [] }));
+    const transport = { request, close: jest.fn(async () => undefined) };
+
+    await new MarketsInformationModule(TESTNET_CONFIG, { transport, apiKey: 'key' }).getMarkets();
+    await new MarketsInformationModule(TESTNET_CONFIG, { transport, apiKey: 'key', requestTimeoutMs: 5000 }).getMarkets();
+
+    expect(request.mock.calls.map(([req]) => req.timeoutMs)).toEqual([30000, 5000]);
+  });
+
+  it('closes the transport it created, but not from a copy', async () => {
+    const close = jest.spyOn(UndiciTransport.prototype, 'close');
+    const module = new MarketsInformationModule(TESTNET_CONFIG);
+
+    await module.withRetryPolicy({ maxRetries: 0 }).closeSession();
+    expect(close).not.toHaveBeenCalled();
+
+    await module.closeSession();
+    expect(close).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,50 @@
+/* Nonce providers */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+// Import from built dist (the test script runs build first)
+const {
+  CryptoRandomNonceProvider,
+  MonotonicNonceProvider,
+  FileNonceProvider,
+} = require('../dist/utils/nonce');
+
+describe('nonce providers', () => {
+  it('generates random nonces within 32 bits', () => {
+    const provider = new CryptoRandomNonceProvider();
+    for (let i = 0; i < 100; i++) {
+      const nonce = provider.next();
+      expect(Number.isInteger(nonce)).toBe(true);
+      expect(nonce).toBeGreaterThanOrEqual(0);
+      expect(nonce).toBeLessThan(2 ** 32);
+    }
+  });
+
+  it('increments monotonically and wraps at 2^32', () => {
+    const provider = new MonotonicNonceProvider(2 ** 32 - 2);
+    expect(provider.next()).toBe(2 ** 32 - 2);
+    expect(provider.next()).toBe(2 ** 32 - 1);
+    expect(provider.next()).toBe(0);
+  });
+
+  it('does not reuse nonces across restarts with a file-backed provider', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'x10-nonce-'));
+    const file = path.join(dir, 'nonce');
+    try {
+      fs.writeFileSync(file, '100');
+
+      const first = new FileNonceProvider(file, { blockSize: 3 });
+      const issued = [first.next(), first.next(), first.next(), first.next()];
+      expect(issued).toEqual([100, 101, 102, 103]);
+      expect(fs.readFileSync(file, 'utf8')).toBe('106');
+
+      // Simulated restart: unused part of the last block is skipped
+      const second = new FileNonceProvider(file, { blockSize: 3 });
+      expect(second.next()).toBe(106);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,174 @@
+/* Order tracker lifecycle and reconciliation */
+
+// Import from built dist (the test script runs build first)
+const { EventEmitter } = require('events');
+const Decimal = require('decimal.js').default;
+const { OrderTracker } = require('../dist/perpetual/trading-client/order-tracker');
+const { InvalidOrderException, PreviousOrderTriggeredException, RequestTimeoutException } = require('../dist/errors');
+
+/**
+ * REST order source with scripted open orders and lookups
+ */
+class FakeSource {
+  constructor() {
+    this.openOrders = [];
+    this.byExternalId = {};
+    this.getOpenOrders = jest.fn(async () => ({ data: this.openOrders }));
+    this.getOrderByExternalId = jest.fn(async (externalId) => ({ data: this.byExternalId[externalId] ?? [] }));
+  }
+}
+
+const newOrder = (id, market = 'BTC-USD') => ({
+  id,
+  market,
+  type: 'LIMIT',
+  side: 'BUY',
+  qty: new Decimal(2),
+  price: new Decimal(100),
+});
+
+const openOrder = (id, externalId, status, filledQty = '0', updatedTime = 1) => ({
+  id,
+  externalId,
+  market: 'BTC-USD',
+  type: 'LIMIT',
+  side: 'BUY',
+  status,
+  qty: new Decimal(2),
+  price: new Decimal(100),
+  filledQty: new Decimal(filledQty),
+  updatedTime,
+});
+
+const streamOrder = (id, externalId, status, filledQty = '0', updatedTime = 1) => ({
+  id,
+  externalId,
+  market: 'BTC-USD',
+  type: 'LIMIT',
+  side: 'BUY',
+  status,
+  price: '100',
+  qty: '2',
+  filledQty,
+  updatedTime,
+});
+
+describe('OrderTracker', () => {
+  let tracker;
+
+  afterEach(() => {
+    tracker?.close();
+  });
+
+  it('follows an order from submission through stream updates', () => {
+    const subscription = new EventEmitter();
+    tracker = new OrderTracker(new FakeSource(), { accountSubscription: subscription, reconcileIntervalMs: 0 });
+    const updates = [];
+    tracker.on('orderUpdated', (order, previous) => updates.push(`${previous}->${order.status}`));
+
+    tracker.recordSubmitted(newOrder('a'));
+    expect(tracker.getOrder('a').pending).toBe(true);
+    tracker.recordPlaced('a', { id: 11, status: 'NEW' });
+    subscription.emit('orderUpdated', { order: streamOrder(11, 'a', 'PARTIALLY_FILLED', '1', 2) });
+    subscription.emit('orderUpdated', { order: streamOrder(11, 'a', 'FILLED', '2', 3) });
+    // Out-of-order update is ignored
+    subscription.emit('orderUpdated', { order: streamOrder(11, 'a', 'PARTIALLY_FILLED', '1', 2) });
+
+    const order = tracker.getOrder('a');
+    expect(order.id).toBe(11);
+    expect(order.status).toBe('FILLED');
+    expect(order.filledQty.toString()).toBe('2');
+    expect(updates).toEqual(['UNKNOWN->NEW', 'NEW->PARTIALLY_FILLED', 'PARTIALLY_FILLED->FILLED']);
+    expect(tracker.openOrdersFor('BTC-USD')).toEqual([]);
+  });
+
+  it('keeps a stream update that arrives before the placement response', () => {
+    const subscription = new EventEmitter();
+    tracker = new OrderTracker(new FakeSource(), { accountSubscription: subscription, reconcileIntervalMs: 0 });
+
+    tracker.recordSubmitted(newOrder('a'));
+    subscription.emit('orderUpdated', { order: streamOrder(11, 'a', 'FILLED', '2') });
+    tracker.recordPlaced('a', { id: 11, status: 'NEW' });
+
+    expect(tracker.getOrder('a').status).toBe('FILLED');
+  });
+
+  it('rejects on API errors and leaves ambiguous failures unknown', () => {
+    tracker = new OrderTracker(new FakeSource(), { reconcileIntervalMs: 0 });
+
+    tracker.recordSubmitted(newOrder('a'));
+    tracker.recordFailed('a', new InvalidOrderException('Invalid price'));
+    tracker.recordSubmitted(newOrder('b'));
+    tracker.recordFailed('b', new RequestTimeoutException('Timed out'));
+    tracker.recordSubmitted(newOrder('c'));
+
+    expect(tracker.getOrder('a').status).toBe('REJECTED');
+    expect(tracker.getUnknownOrders().map((order) => order.externalId)).toEqual(['b']);
+  });
+
+  it('records the exception for the status reason of a rejected order', () => {
+    const subscription = new EventEmitter();
+    tracker = new OrderTracker(new FakeSource(), { accountSubscription: subscription, reconcileIntervalMs: 0 });
+
+    tracker.recordSubmitted(newOrder('a'));
+    tracker.recordPlaced('a', { id: 11, status: 'NEW' });
+    subscription.emit('orderUpdated', {
+      order: { ...streamOrder(11, 'a', 'REJECTED', '0', 2), statusReason: 'PREV_ORDER_TRIGGERED' },
+    });
+
+    const order = tracker.getOrder('a');
+    expect(order.status).toBe('REJECTED');
+    expect(order.error).toBeInstanceOf(PreviousOrderTriggeredException);
+    expect(order.error.message).toBe('Order a was rejected: PREV_ORDER_TRIGGERED');
+  });
+
+  it('reconciles against open orders and lookups by external ID', async () => {
+    const source = new FakeSource();
+    tracker = new OrderTracker(source, { reconcileIntervalMs: 0 });
+    const orphanedEvents = jest.fn();
+    tracker.on('orderOrphaned', orphanedEvents);
+
+    tracker.recordSubmitted(newOrder('open'));
+    tracker.recordPlaced('open', { id: 1, status: 'NEW' });
+    tracker.recordSubmitted(newOrder('filled'));
+    tracker.recordPlaced('filled', { id: 2, status: 'NEW' });
+    tracker.recordSubmitted(newOrder('lost'));
+    tracker.recordPlaced('lost', { id: 3, status: 'NEW' });
+    tracker.recordSubmitted(newOrder('timeout'));
+    tracker.recordFailed('timeout', new RequestTimeoutException('Timed out'));
+
+    source.openOrders = [
+      openOrder(1, 'open', 'PARTIALLY_FILLED', '1', 5),
+      openOrder(4, 'timeout', 'NEW'),
+      openOrder(9, 'manual', 'NEW'),
+    ];
+    source.byExternalId.filled = [openOrder(2, 'filled', 'FILLED', '2', 5)];
+
+    const result = await tracker.reconcile();
+
+    expect(result.updated.map((order) => order.externalId).sort()).toEqual(['filled', 'open', 'timeout']);
+    expect(result.unknown.map((order) => order.externalId)).toEqual(['lost']);
+    expect(result.orphaned.map((order) => order.externalId)).toEqual(['manual']);
+    expect(source.getOrderByExternalId.mock.calls.map(([id]) => id).sort()).toEqual(['filled', 'lost']);
+    expect(tracker.openOrdersFor('BTC-USD').map((order) => order.externalId)).toEqual(['open', 'timeout']);
+    expect(tracker.getUnknownOrders().map((order) => order.externalId)).toEqual(['lost']);
+    expect(tracker.getOrphanedOrders().map((order) => order.local)).toEqual([false]);
+    expect(orphanedEvents).toHaveBeenCalledTimes(1);
+
+    // Orphaned orders that are no longer open are dropped
+    source.openOrders = [];
+    await tracker.reconcile();
+    expect(tracker.getOrphanedOrders()).toEqual([]);
+  });
+
+  it('drops the oldest terminal orders beyond the limit', () => {
+    tracker = new OrderTracker(new FakeSource(), { reconcileIntervalMs: 0, maxTerminalOrders: 1 });
+
+    for (const id of ['a', 'b', 'c']) {
+      tracker.recordSubmitted(newOrder(id));
+      tracker.recordFailed(id, new InvalidOrderException('Invalid'));
+    }
+
+    expect(tracker.getOrders().map((order) => order.externalId)).toEqual(['c']);
+  });
+});
@@ -0,0 +1,84 @@
+/* Pre-trade order validation against market trading config */
+
+const Decimal = require('decimal.js');
+
+// Import from built dist (the test script runs build first)
+const { validateOrder } = require('../dist/perpetual/order-validation');
+const { MarketModel, TradingConfigModel } = require('../dist/perpetual/markets');
+const { OrderSide, OrderType, OrderStatusReason, OrderTpslType } = require('../dist/perpetual/orders');
+
+function createMarket() {
+  const tradingConfig = Object.assign(new TradingConfigModel(), {
+    minOrderSize: new Decimal('0.001'),
+    minOrderSizeChange: new Decimal('0.001'),
+    minPriceChange: new Decimal('1'),
+    maxMarketOrderValue: new Decimal('100000'),
+    maxLimitOrderValue: new Decimal('500000'),
+    limitPriceCap: new Decimal('0.05'),
+    limitPriceFloor: new Decimal('0.05'),
+  });
+  return Object.assign(new MarketModel(), { name: 'BTC-USD', tradingConfig });
+}
+
+describe('validateOrder', () => {
+  const market = createMarket();
+
+  it('accepts a valid limit order', () => {
+    const violations = validateOrder(market, {
+      side: OrderSide.BUY,
+      qty: new Decimal('0.01'),
+      price: new Decimal('60000'),
+      markPrice: new Decimal('60000'),
+    });
+    expect(violations).toEqual([]);
+  });
+
+  it('rejects quantity below min size and off the size step', () => {
+    const violations = validateOrder(market, {
+      side: OrderSide.BUY,
+      qty: new Decimal('0.0005'),
+      price: new Decimal('60000'),
+    });
+    expect(violations.map((v) => v.reason)).toEqual([
+      OrderStatusReason.INVALID_QTY,
+      OrderStatusReason.INVALID_QTY,
+    ]);
+  });
+
+  it('rejects price off the tick and outside the cap/floor around mark price', () => {
+    const buy = validateOrder(market, {
+      side: OrderSide.BUY,
+      qty: new Decimal('0.01'),
+      price: new Decimal('63000.5'),
+      markPrice: new Decimal('60000'),
+    });
+    expect(buy.map((v) => v.reason)).toEqual([
+      OrderStatusReason.INVALID_PRICE,
+      OrderStatusReason.INVALID_PRICE,
+    ]);
+
+    const sell = validateOrder(market, {
+      side: OrderSide.SELL,
+      qty: new Decimal('0.01'),
+      price: new Decimal('56000'),
+      markPrice: new Decimal('60000'),
+    });
+    expect(sell.map((v) => v.field)).toEqual(['price']);
+  });
+
+  it('checks order value against market or limit max value', () => {
+    const order = { side: OrderSide.BUY, qty: new Decimal('2'), price: new Decimal('60000') };
+
+    expect(validateOrder(market, order)).toEqual([]);
+    expect(validateOrder(market, { ...order, orderType: OrderType.MARKET }).map((v) => v.reason)).toEqual([
+      OrderStatusReason.INVALID_VALUE,
+    ]);
+  });
+
+  it('skips the value check for position TP/SL orders', () => {
+    const order = { side: OrderSide.SELL, qty: new Decimal('10'), price: new Decimal('60000') };
+
+    expect(validateOrder(market, order).map((v) => v.reason)).toEqual([OrderStatusReason.INVALID_VALUE]);
+    expect(validateOrder(market, { ...order, tpSlType: OrderTpslType.POSITION })).toEqual([]);
+  });
+});
@@ -0,0 +1,102 @@
+/* Orderbook analytics */
+
+// Import from built dist (the test script runs build first)
+const Decimal = require('decimal.js').default;
+const {
+  getSpread,
+  getSpreadBps,
+  getMicroprice,
+  getCumulativeDepth,
+  estimateMarketOrder,
+  getImbalance,
+} = require('../dist/perpetual/stream-client/orderbook-analytics');
+const { OrderbookLevels } = require('../dist/perpetual/stream-client/orderbook-levels');
+const { OrderSide } = require('../dist/perpetual/orders');
+
+const d = (value) => new Decimal(value);
+const entry = (price, qty) => ({ price: d(price), qty: d(qty) });
+
+// Best levels first
+const BOOK = {
+  bids: [entry('99', '2'), entry('98', '3'), entry('97', '5')],
+  asks: [entry('101', '1'), entry('102', '4'), entry('104', '10')],
+};
+const EMPTY = { bids: [], asks: [] };
+
+describe('orderbook analytics', () => {
+  it('computes spread and spread in bps', () => {
+    expect(getSpread(BOOK).toString()).toBe('2');
+    expect(getSpreadBps(BOOK).toString()).toBe('200');
+    expect(getSpread(EMPTY)).toBeNull();
+    expect(getSpreadBps({ bids: BOOK.bids, asks: [] })).toBeNull();
+  });
+
+  it('weights the microprice towards the thinner side', () => {
+    // (99 * 1 + 101 * 2) / 3
+    expect(getMicroprice(BOOK).toFixed(4)).toBe('100.3333');
+    expect(getMicroprice(EMPTY)).toBeNull();
+  });
+
+  it('accumulates depth up to a price', () => {
+    const bids = getCumulativeDepth(BOOK, 'bid', { price: d('98') });
+    expect(bids.qty.toString()).toBe('5');
+    expect(bids.notional.toString()).toBe('492');
+    expect(bids.levels).toBe(2);
+
+    const asks = getCumulativeDepth(BOOK, 'ask', { price: d('103') });
+    expect(asks.qty.toString()).toBe('5');
+    expect(asks.levels).toBe(2);
+
+    expect(getCumulativeDepth(BOOK, 'ask').qty.toString()).toBe('15');
+  });
+
+  it('accumulates depth up to a notional, including part of the last level', () => {
+    const depth = getCumulativeDepth(BOOK, 'ask', { notional: d('305') });
+    // 101 from the first level, 204 of 408 from the second
+    expect(depth.qty.toString()).toBe('3');
+    expect(depth.notional.toString()).toBe('305');
+    expect(depth.levels).toBe(2);
+  });
+
+  it('estimates average price and slippage of a market buy', () => {
+    const estimate = estimateMarketOrder(BOOK, OrderSide.BUY, d('3'));
+
+    expect(estimate.fullyFilled).toBe(true);
+    expect(estimate.filledQty.toString()).toBe('3');
+    expect(estimate.notional.toString()).toBe('305');
+    expect(estimate.averagePrice.toFixed(4)).toBe('101.6667');
+    expect(estimate.worstPrice.toString()).toBe('102');
+    // (101.6667 - 101) / 101
+    expect(estimate.slippageBps.toFixed(2)).toBe('66.01');
+  });
+
+  it('estimates a market sell and reports partial fills', () => {
+    const estimate = estimateMarketOrder(BOOK, OrderSide.SELL, d('12'));
+
+    expect(estimate.fullyFilled).toBe(false);
+    expect(estimate.filledQty.toString()).toBe('10');
+    expect(estimate.averagePrice.toString()).toBe('97.7');
+    expect(estimate.worstPrice.toString()).toBe('97');
+    expect(estimate.slippageBps.toFixed(2)).toBe('131.31');
+
+    expect(estimateMarketOrder(EMPTY, OrderSide.BUY, d('1')).averagePrice).toBeNull();
+  });
+
+  it('computes imbalance over the top levels', () => {
+    // (2 - 1) / 3
+    expect(getImbalance(BOOK, 1).toFixed(4)).toBe('0.3333');
+    // (10 - 15) / 25
+    expect(getImbalance(BOOK).toString()).toBe('-0.2');
+    expect(getImbalance(EMPTY)).toBeNull();
+  });
+
+  it('works on live sorted levels', () => {
+    const bids = new OrderbookLevels('bid');
+    const asks = new OrderbookLevels('ask');
+    for (const level of BOOK.bids) bids.set(level.price, level.qty);
+    for (const level of BOOK.asks) asks.set(level.price, level.qty);
+
+    expect(getSpread({ bids, asks }).toString()).toBe('2');
+    expect(estimateMarketOrder({ bids, asks }, OrderSide.BUY, d('3')).notional.toString()).toBe('305');
+  });
+});
@@ -0,0 +1,91 @@
+/* Sorted orderbook price levels */
+
+// Import from built dist (the test script runs build first)
+const Decimal = require('decimal.js').default;
+const { OrderbookLevels } = require('../dist/perpetual/stream-client/orderbook-levels');
+
+const d = (value) => new Decimal(value);
+const prices = (entries) => entries.map((entry) => entry.price.toString());
+
+describe('OrderbookLevels', () => {
+  it('keeps bids best (highest) first', () => {
+    const bids = new OrderbookLevels('bid');
+    for (const price of ['99', '101', '100', '98.5']) {
+      bids.set(d(price), d('1'));
+    }
+
+    expect(prices(bids.toArray())).toEqual(['101', '100', '99', '98.5']);
+    expect(bids.best().price.toString()).toBe('101');
+    expect(prices(bids.top(2))).toEqual(['101', '100']);
+  });
+
+  it('keeps asks best (lowest) first', () => {
+    const asks = new OrderbookLevels('ask');
+    for (const price of ['102', '100.5', '101', '103']) {
+      asks.set(d(price), d('1'));
+    }
+
+    expect(prices(asks.toArray())).toEqual(['100.5', '101', '102', '103']);
+    expect(asks.best().price.toString()).toBe('100.5');
+    expect(prices(asks.top(10))).toEqual(['100.5', '101', '102', '103']);
+  });
+
+  it('matches prices numerically regardless of formatting', () => {
+    const bids = new OrderbookLevels('bid');
+    bids.set(d('100.0'), d('1'));
+    bids.apply(d('100'), d('2'));
+
+    expect(bids.size).toBe(1);
+    expect(bids.get(d('100.00')).qty.toString()).toBe('3');
+  });
+
+  it('applies relative changes and removes emptied levels', () => {
+    const asks = new OrderbookLevels('ask');
+    asks.set(d('101'), d('2'));
+    asks.set(d('102'), d('1'));
+
+    asks.apply(d('101'), d('-2'));
+    asks.apply(d('103'), d('-1'));
+
+    expect(prices(asks.toArray())).toEqual(['102']);
+  });
+
+  it('does not mutate previously returned levels', () => {
+    const bids = new OrderbookLevels('bid');
+    bids.set(d('100'), d('1'));
+    const before = bids.toArray();
+
+    bids.apply(d('100'), d('4'));
+
+    expect(before[0].qty.toString()).toBe('1');
+    expect(bids.best().qty.toString()).toBe('5');
+  });
+
+  it('matches a naive sorted book under random updates', () => {
+    const bids = new OrderbookLevels('bid');
+    const naive = new Map();
+    let seed = 42;
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    };
+
+    for (let i = 0; i < 2000; i++) {
+      const price = (90 + Math.floor(random() * 200) / 10).toFixed(1);
+      const qty = Math.floor(random() * 7) - 2;
+      bids.apply(d(price), d(qty));
+
+      const next = (naive.get(price) ?? 0) + qty;
+      if (next > 0) {
+        naive.set(price, next);
+      } else {
+        naive.delete(price);
+      }
+    }
+
+    const expected = Array.from(naive.entries())
+      .sort((a, b) => Number(b[0]) - Number(a[0]))
+      .map(([price, qty]) => [price, String(qty)]);
+    expect(bids.toArray().map((entry) => [entry.price.toFixed(1), entry.qty.toString()])).toEqual(expected);
+  });
+});
@@ -0,0 +1,198 @@
+/* Orderbook subscription integrity checks and resync */
+
+// Import from built dist (the test script runs build first)
+const { EventEmitter } = require('events');
+const Decimal = require('decimal.js').default;
+const {
+  OrderbookSubscription,
+  OrderbookResyncReason,
+} = require('../dist/perpetual/stream-client/orderbook-subscription');
+const { OrderbookUpdateModel, OrderbookQuantityModel } = require('../dist/perpetual/orderbooks');
+
+/**
+ * Connection replaying scripted messages; `restart` is a mock
+ */
+class FakeConnection extends EventEmitter {
+  constructor(messages) {
+    super();
+    this.messages = messages;
+    this.restart = jest.fn();
+  }
+
+  async recv() {
+    if (this.messages.length === 0) {
+      throw new Error('WebSocket is closed');
+    }
+    return this.messages.shift();
+  }
+
+  isClosed() {
+    return false;
+  }
+}
+
+const level = (p, q) => ({ p, q });
+const snapshot = (seq, b, a) => ({ type: 'SNAPSHOT', data: { m: 'BTC-USD', b, a }, ts: seq, seq });
+const delta = (seq, b, a) => ({ type: 'DELTA', data: { m: 'BTC-USD', b, a }, ts: seq, seq });
+
+async function collect(subscription) {
+  const snapshots = [];
+  for await (const book of subscription) {
+    snapshots.push(book);
+  }
+  return snapshots;
+}
+
+describe('OrderbookSubscription integrity', () => {
+  it('applies contiguous deltas', async () => {
+    const connection = new FakeConnection([
+      snapshot(1, [level('100', '1')], [level('101', '1')]),
+      delta(2, [level('100', '2')], []),
+      delta(3, [], [level('101', '-1'), level('102', '5')]),
+    ]);
+    const subscription = new OrderbookSubscription(connection, 'BTC-USD');
+    const resync = jest.fn();
+    subscription.on('resync', resync);
+
+    const snapshots = await collect(subscription);
+
+    expect(snapshots).toHaveLength(3);
+    expect(snapshots[2].bids[0].qty.toString()).toBe('3');
+    expect(snapshots[2].asks.map((entry) => entry.price.toString())).toEqual(['102']);
+    expect(resync).not.toHaveBeenCalled();
+  });
+
+  it('yields only the top levels when topN is set', async () => {
+    const connection = new FakeConnection([
+      snapshot(1, [level('100', '1'), level('99', '1'), level('98', '1')], [level('101', '1'), level('102', '1')]),
+      delta(2, [level('100.5', '1')], []),
+    ]);
+    const subscription = new OrderbookSubscription(connection, 'BTC-USD', { topN: 2 });
+
+    const snapshots = await collect(subscription);
+
+    expect(snapshots[1].bids.map((entry) => entry.price.toString())).toEqual(['100.5', '100']);
+    expect(snapshots[1].asks.map((entry) => entry.price.toString())).toEqual(['101', '102']);
+    expect(subscription.bestBid().price.toString()).toBe('100.5');
+  });
+
+  it('marks the book stale on a sequence gap and reconnects', async () => {
+    const connection = new FakeConnection([
+      snapshot(1, [level('100', '1')], [level('101', '1')]),
+      delta(2, [level('100', '1')], []),
+      delta(4, [level('99', '1')], []),
+      delta(5, [level('98', '1')], []),
+    ]);
+    const subscription = new OrderbookSubscription(connection, 'BTC-USD');
+    const resync = jest.fn();
+    subscription.on('resync', resync);
+
+    const snapshots = await collect(subscription);
+
+    expect(snapshots).toHaveLength(2);
+    expect(subscription.isStale()).toBe(true);
+    expect(resync).toHaveBeenCalledWith({
+      market: 'BTC-USD',
+      reason: OrderbookResyncReason.SEQUENCE_GAP,
+      expectedSequence: 3,
+      receivedSequence: 4,
+    });
+    expect(connection.restart).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops buffered deltas the snapshot already includes', async () => {
+    const connection = new FakeConnection([
+      delta(4, [level('100', '1')], []),
+      delta(5, [level('100', '1')], []),
+      delta(6, [level('100', '1')], []),
+      snapshot(5, [level('100', '3')], [level('101', '1')]),
+      delta(7, [level('100', '1')], []),
+    ]);
+    const subscription = new OrderbookSubscription(connection, 'BTC-USD');
+    const resync = jest.fn();
+    subscription.on('resync', resync);
+
+    const snapshots = await collect(subscription);
+
+    expect(snapshots.map((book) => [book.sequence, book.bids[0].qty.toString()])).toEqual([
+      [6, '4'],
+      [7, '5'],
+    ]);
+    expect(resync).not.toHaveBeenCalled();
+  });
+
+  it('detects a gap between the snapshot and buffered deltas', async () => {
+    const connection = new FakeConnection([
+      delta(8, [level('100', '1')], []),
+      snapshot(5, [level('100', '3')], [level('101', '1')]),
+    ]);
+    const subscription = new OrderbookSubscription(connection, 'BTC-USD');
+    const resync = jest.fn();
+    subscription.on('resync', resync);
+
+    const snapshots = await collect(subscription);
+
+    expect(snapshots).toEqual([]);
+    expect(subscription.isStale()).toBe(true);
+    expect(resync).toHaveBeenCalledWith({
+      market: 'BTC-USD',
+      reason: OrderbookResyncReason.SEQUENCE_GAP,
+      expectedSequence: 6,
+      receivedSequence: 8,
+    });
+    expect(connection.restart).toHaveBeenCalledTimes(1);
+  });
+
+  it('detects a crossed book', async () => {
+    const connection = new FakeConnection([
+      snapshot(1, [level('100', '1')], [level('101', '1')]),
+      delta(2, [level('101', '1')], []),
+    ]);
+    const subscription = new OrderbookSubscription(connection, 'BTC-USD');
+    const resync = jest.fn();
+    subscription.on('resync', resync);
+
+    await collect(subscription);
+
+    expect(resync.mock.calls[0][0].reason).toBe(OrderbookResyncReason.CROSSED_BOOK);
+    expect(connection.restart).toHaveBeenCalledTimes(1);
+  });
+
+  it('rebuilds from the snapshot source instead of reconnecting', async () => {
+    const restBook = new OrderbookUpdateModel(
+      'BTC-USD',
+      [new OrderbookQuantityModel(new Decimal('4'), new Decimal('97'))],
+      [new OrderbookQuantityModel(new Decimal('6'), new Decimal('103'))]
+    );
+    const snapshotSource = { getOrderbookSnapshot: jest.fn(async () => ({ status: 'OK', data: restBook })) };
+
+    let release;
+    const gate = new Promise((resolve) => (release = resolve));
+    const connection = new FakeConnection([
+      snapshot(1, [level('100', '1')], [level('101', '1')]),
+      delta(3, [level('99', '1')], []),
+    ]);
+    const recv = connection.recv.bind(connection);
+    // Hold the stream after the gap until the REST snapshot has been applied
+    connection.recv = async () => {
+      if (connection.messages.length === 0) {
+        await gate;
+        connection.messages.push(delta(4, [level('97', '1')], []));
+        connection.recv = recv;
+      }
+      return recv();
+    };
+
+    const subscription = new OrderbookSubscription(connection, 'BTC-USD', { snapshotSource });
+    subscription.on('resync', () => setImmediate(release));
+
+    const snapshots = await collect(subscription);
+
+    expect(snapshotSource.getOrderbookSnapshot).toHaveBeenCalledWith('BTC-USD');
+    expect(connection.restart).not.toHaveBeenCalled();
+    expect(subscription.isStale()).toBe(false);
+    const last = snapshots[snapshots.length - 1];
+    expect(last.bids.map((entry) => [entry.price.toString(), entry.qty.toString()])).toEqual([['97', '5']]);
+    expect(last.asks.map((entry) => entry.price.toString())).toEqual(['103']);
+  });
+});
@@ -0,0 +1,92 @@
+/* Cursor pagination of history endpoints */
+
+// Import from built dist (the test script runs build first)
+const { paginate } = require('../dist/utils/pagination');
+
+// Three pages of two items, newest first
+const ITEMS = [
+  { id: 6, createdTime: 6000 },
+  { id: 5, createdTime: 5000 },
+  { id: 4, createdTime: 4000 },
+  { id: 3, createdTime: 3000 },
+  { id: 2, createdTime: 2000 },
+  { id: 1, createdTime: 1000 },
+];
+
+function createFetcher(pageSize = 2) {
+  const calls = [];
+  const fetchPage = async (cursor, limit) => {
+    calls.push({ cursor, limit });
+    const start = cursor === undefined ? 0 : ITEMS.findIndex((item) => item.id === cursor);
+    const page = ITEMS.slice(start, start + pageSize);
+    const next = ITEMS[start + pageSize];
+    return {
+      status: 'OK',
+      data: page,
+      pagination: { cursor: next ? next.id : undefined, count: page.length },
+    };
+  };
+  return { fetchPage, calls };
+}
+
+async function collect(iterator) {
+  const items = [];
+  for await (const item of iterator) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('paginate', () => {
+  it('follows cursors until the last page', async () => {
+    const { fetchPage, calls } = createFetcher();
+    const items = await collect(paginate(fetchPage, { limit: 2 }));
+
+    expect(items.map((item) => item.id)).toEqual([6, 5, 4, 3, 2, 1]);
+    expect(calls).toEqual([
+      { cursor: undefined, limit: 2 },
+      { cursor: 4, limit: 2 },
+      { cursor: 2, limit: 2 },
+    ]);
+  });
+
+  it('starts from the given cursor', async () => {
+    const { fetchPage } = createFetcher();
+    const items = await collect(paginate(fetchPage, { cursor: 3 }));
+    expect(items.map((item) => item.id)).toEqual([3, 2, 1]);
+  });
+
+  it('stops at maxCount without fetching further pages', async () => {
+    const { fetchPage, calls } = createFetcher();
+    const items = await collect(paginate(fetchPage, { maxCount: 3 }));
+
+    expect(items.map((item) => item.id)).toEqual([6, 5, 4]);
+    expect(calls).toHaveLength(2);
+  });
+
+  it('filters by time range on the client and stops past the start time', async () => {
+    const { fetchPage, calls } = createFetcher();
+    const items = await collect(
+      paginate(fetchPage, {
+        startTime: 3000,
+        endTime: new Date(5000),
+        getTime: (item) => item.createdTime,
+      })
+    );
+
+    expect(items.map((item) => item.id)).toEqual([5, 4, 3]);
+    expect(calls).toHaveLength(3);
+  });
+
+  it('stops on an empty page or a repeated cursor', async () => {
+    const fetchPage = jest.fn(async () => ({ status: 'OK', data: [{ id: 1 }], pagination: { cursor: 7, count: 1 } }));
+    const items = await collect(paginate(fetchPage, { cursor: 7 }));
+
+    expect(items).toHaveLength(1);
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+
+    const empty = jest.fn(async () => ({ status: 'OK', data: [], pagination: { cursor: 9, count: 0 } }));
+    expect(await collect(paginate(empty))).toEqual([]);
+    expect(empty).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,187 @@
+/* Position tracker metrics and thresholds */
+
+// Import from built dist (the test script runs build first)
+const { EventEmitter } = require('events');
+const Decimal = require('decimal.js').default;
+const { PositionTracker, PositionThresholdType } = require('../dist/perpetual/trading-client/position-tracker');
+
+/**
+ * Account subscription with scripted positions and balance
+ */
+class FakeAccount extends EventEmitter {
+  constructor(positions = [], balance = null) {
+    super();
+    this.positions = positions;
+    this.balance = balance;
+  }
+
+  getPositions() {
+    return this.positions;
+  }
+
+  getBalance() {
+    return this.balance;
+  }
+}
+
+const position = (market, side, size, openPrice, extra = {}) => ({
+  id: 1,
+  market,
+  status: 'OPENED',
+  side,
+  size,
+  openPrice,
+  markPrice: openPrice,
+  leverage: '10',
+  liquidationPrice: '0',
+  ...extra,
+});
+
+describe('PositionTracker', () => {
+  let tracker;
+
+  afterEach(() => {
+    tracker?.close();
+  });
+
+  it('computes position and account metrics from live mark prices', () => {
+    const account = new FakeAccount(
+      [
+        position('BTC-USD', 'LONG', '2', '100', { liquidationPrice: '91' }),
+        position('ETH-USD', 'SHORT', '-10', '10', { leverage: '5' }),
+      ],
+      { balance: '1000' }
+    );
+    tracker = new PositionTracker(account);
+
+    tracker.updateMarkPrice('BTC-USD', new Decimal(110));
+    tracker.updateMarkPrice('ETH-USD', new Decimal(12));
+
+    const btc = tracker.getPositionMetrics('BTC-USD');
+    expect(btc.unrealisedPnl.toString()).toBe('20');
+    expect(btc.notional.toString()).toBe('220');
+    expect(btc.margin.toString()).toBe('22');
+    // 20 over an initial margin of 2 * 100 / 10
+    expect(btc.roe.toString()).toBe('1');
+    expect(btc.liquidationDistance.toString()).toBe('0.17272727272727272727');
+
+    const eth = tracker.getPositionMetrics('ETH-USD');
+    expect(eth.size.toString()).toBe('10');
+    expect(eth.unrealisedPnl.toString()).toBe('-20');
+    expect(eth.roe.toString()).toBe('-1');
+    expect(eth.liquidationPrice).toBeNull();
+
+    const metrics = tracker.getAccountMetrics();
+    expect(metrics.unrealisedPnl.toString()).toBe('0');
+    expect(metrics.equity.toString()).toBe('1000');
+    expect(metrics.margin.toString()).toBe('46');
+    expect(metrics.marginUsage.toString()).toBe('0.046');
+  });
+
+  it('follows position and balance events from the subscription', () => {
+    const account = new FakeAccount();
+    tracker = new PositionTracker(account);
+    const updates = [];
+    tracker.on('positionUpdated', (metrics) => updates.push(metrics.unrealisedPnl.toString()));
+
+    account.emit('positionOpened', { position: position('BTC-USD', 'LONG', '1', '100', { markPrice: '105' }) });
+    expect(updates).toEqual(['5']);
+    expect(tracker.getAccountMetrics().equity).toBeNull();
+
+    account.emit('balanceChanged', { balance: { balance: '500' } });
+    expect(tracker.getAccountMetrics().equity.toString()).toBe('505');
+
+    account.emit('positionClosed', { position: position('BTC-USD', 'LONG', '0', '100', { status: 'CLOSED' }) });
+    expect(tracker.getPositionMetrics('BTC-USD')).toBeUndefined();
+    expect(tracker.getAccountMetrics().positions).toEqual([]);
+  });
+
+  it('emits threshold events when breached and recovered', () => {
+    const account = new FakeAccount([position('BTC-USD', 'LONG', '1', '100', { liquidationPrice: '90' })], {
+      balance: '15',
+    });
+    tracker = new PositionTracker(account, {
+      thresholds: {
+        maxUnrealisedLoss: new Decimal(5),
+        minLiquidationDistance: new Decimal(0.05),
+        maxMarginUsage: new Decimal(0.8),
+      },
+    });
+    const events = [];
+    tracker.on('threshold', (event) => events.push(`${event.market ?? 'account'}:${event.type}:${event.breached}`));
+
+    tracker.updateMarkPrice('BTC-USD', new Decimal(96));
+    tracker.updateMarkPrice('BTC-USD', new Decimal(94));
+    tracker.updateMarkPrice('BTC-USD', new Decimal(93));
+    tracker.updateMarkPrice('BTC-USD', new Decimal(100));
+
+    expect(events).toEqual([
+      `account:${PositionThresholdType.MARGIN_USAGE}:true`,
+      `BTC-USD:${PositionThresholdType.UNREALISED_LOSS}:true`,
+      `BTC-USD:${PositionThresholdType.LIQUIDATION_DISTANCE}:true`,
+      `BTC-USD:${PositionThresholdType.UNREALISED_LOSS}:false`,
+      `BTC-USD:${PositionThresholdType.LIQUIDATION_DISTANCE}:false`,
+      `account:${PositionThresholdType.MARGIN_USAGE}:false`,
+    ]);
+  });
+
+  it('takes newer mark prices from position updates and forgets them on close', () => {
+    const account = new FakeAccount([position('BTC-USD', 'LONG', '1', '100')]);
+    tracker = new PositionTracker(account);
+
+    tracker.updateMarkPrice('BTC-USD', new Decimal(110));
+    account.emit('positionChanged', { position: position('BTC-USD', 'LONG', '1', '100', { markPrice: '120' }) });
+    expect(tracker.getPositionMetrics('BTC-USD').markPrice.toString()).toBe('120');
+
+    tracker.updateMarkPrice('BTC-USD', new Decimal(115));
+    expect(tracker.getPositionMetrics('BTC-USD').unrealisedPnl.toString()).toBe('15');
+
+    account.emit('positionClosed', { position: position('BTC-USD', 'LONG', '0', '100', { status: 'CLOSED' }) });
+    account.emit('positionOpened', { position: position('BTC-USD', 'LONG', '1', '200') });
+    expect(tracker.getPositionMetrics('BTC-USD').markPrice.toString()).toBe('200');
+  });
+
+  it('recovers thresholds whose metric becomes unavailable', () => {
+    const account = new FakeAccount([position('BTC-USD', 'LONG', '1', '100', { liquidationPrice: '90' })]);
+    tracker = new PositionTracker(account, {
+      thresholds: { minRoe: new Decimal(-0.5), minLiquidationDistance: new Decimal(0.05) },
+    });
+    const events = [];
+    tracker.on('threshold', (event) => events.push([event.type, event.breached, event.value?.toString() ?? null]));
+
+    tracker.updateMarkPrice('BTC-USD', new Decimal(94));
+    // Without leverage or liquidation price, ROE and liquidation distance are unknown
+    account.emit('positionChanged', {
+      position: position('BTC-USD', 'LONG', '1', '100', { markPrice: '94', leverage: '0', liquidationPrice: '0' }),
+    });
+
+    expect(events).toEqual([
+      [PositionThresholdType.ROE, true, '-0.6'],
+      [PositionThresholdType.LIQUIDATION_DISTANCE, true, '0.042553191489361702128'],
+      [PositionThresholdType.ROE, false, null],
+      [PositionThresholdType.LIQUIDATION_DISTANCE, false, null],
+    ]);
+  });
+
+  it('takes mark prices from market statistics and candle streams', async () => {
+    const account = new FakeAccount([position('BTC-USD', 'LONG', '1', '100'), position('ETH-USD', 'LONG', '1', '10')]);
+    tracker = new PositionTracker(account);
+    const source = {
+      getMarketStatistics: jest.fn(async (market) => ({
+        data: { markPrice: new Decimal(market === 'BTC-USD' ? 101 : 11) },
+      })),
+    };
+
+    tracker.pollMarketStats(source, 60_000);
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(source.getMarketStatistics.mock.calls.map(([market]) => market)).toEqual(['BTC-USD', 'ETH-USD']);
+    expect(tracker.getPositionMetrics('BTC-USD').markPrice.toString()).toBe('101');
+
+    async function* candles() {
+      yield { candle: { close: new Decimal(12) }, closedCandle: null };
+      yield { candle: { close: new Decimal(13) }, closedCandle: null };
+    }
+    await tracker.followMarkPriceCandles('ETH-USD', candles());
+    expect(tracker.getPositionMetrics('ETH-USD').unrealisedPnl.toString()).toBe('3');
+  });
+});
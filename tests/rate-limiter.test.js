@@ -0,0 +1,49 @@
+/* Client-side token-bucket rate limiter */
+
+// Import from built dist (the test script runs build first)
+const { RateLimiter, EndpointGroup } = require('../dist/utils/rate-limiter');
+
+describe('RateLimiter', () => {
+  it('lets bursts up to capacity through without waiting', async () => {
+    const limiter = new RateLimiter({ [EndpointGroup.ORDERS]: { capacity: 3, refillPerSecond: 1 } });
+    for (let i = 0; i < 3; i++) {
+      await limiter.acquire(EndpointGroup.ORDERS);
+    }
+
+    const metrics = limiter.getMetrics(EndpointGroup.ORDERS);
+    expect(metrics.requests).toBe(3);
+    expect(metrics.throttled).toBe(0);
+    expect(metrics.totalWaitMs).toBe(0);
+  });
+
+  it('queues requests beyond capacity in order and records wait time', async () => {
+    const limiter = new RateLimiter({ [EndpointGroup.PUBLIC]: { capacity: 1, refillPerSecond: 50 } });
+    const order = [];
+    const started = Date.now();
+
+    const pending = [1, 2, 3].map((i) => limiter.acquire(EndpointGroup.PUBLIC).then(() => order.push(i)));
+    expect(limiter.getMetrics(EndpointGroup.PUBLIC).queued).toBe(2);
+    await Promise.all(pending);
+
+    expect(order).toEqual([1, 2, 3]);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(35);
+
+    const metrics = limiter.getMetrics(EndpointGroup.PUBLIC);
+    expect(metrics.queued).toBe(0);
+    expect(metrics.throttled).toBe(2);
+    expect(metrics.maxWaitMs).toBeGreaterThanOrEqual(35);
+    expect(metrics.totalWaitMs).toBeGreaterThanOrEqual(metrics.maxWaitMs);
+  });
+
+  it('limits endpoint groups independently', async () => {
+    const limiter = new RateLimiter({
+      [EndpointGroup.ORDERS]: { capacity: 1, refillPerSecond: 0.001 },
+      [EndpointGroup.PRIVATE]: { capacity: 1, refillPerSecond: 10 },
+    });
+    await limiter.acquire(EndpointGroup.ORDERS);
+    await limiter.acquire(EndpointGroup.PRIVATE);
+
+    expect(limiter.getMetrics(EndpointGroup.PRIVATE).throttled).toBe(0);
+    expect(limiter.getMetrics(EndpointGroup.ORDERS).requests).toBe(1);
+  });
+});
@@ -0,0 +1,107 @@
+/* Retry and backoff policy for HTTP requests */
+
+// Import from built dist (the test script runs build first)
+const { withRetry, getRetryDelay, parseRetryAfter, DEFAULT_RETRY_POLICY } = require('../dist/utils/retry');
+const { sendGetRequest, sendPostRequest } = require('../dist/utils/http');
+const { RateLimitException, ServerException } = require('../dist/errors');
+const { FetchTransport, setDefaultHttpTransport } = require('../dist/utils/http-transport');
+
+// Route requests through the mocked global fetch
+setDefaultHttpTransport(new FetchTransport());
+
+const FAST_POLICY = { ...DEFAULT_RETRY_POLICY, initialDelayMs: 1, maxDelayMs: 5, jitter: false };
+
+function mockFetch(responses) {
+  global.fetch = jest.fn(async () => {
+    const { status, body, headers = {} } = responses.shift();
+    return {
+      status,
+      headers: { get: (name) => headers[name] ?? null },
+      text: async () => JSON.stringify(body),
+    };
+  });
+}
+
+const OK = { status: 200, body: { status: 'OK', data: 'done' } };
+const UNAVAILABLE = { status: 503, body: { status: 'ERROR', error: { code: 503, message: 'unavailable' } } };
+const RATE_LIMITED = { status: 429, body: { status: 'ERROR', error: { code: 429, message: 'slow down' } } };
+
+describe('withRetry', () => {
+  const originalFetch = global.fetch;
+  const url = 'https://api.example.com/api/v1/user/order';
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('retries idempotent requests after server errors', async () => {
+    mockFetch([UNAVAILABLE, UNAVAILABLE, OK]);
+    const response = await withRetry(() => sendGetRequest(url), FAST_POLICY, { idempotent: true });
+    expect(response.data).toBe('done');
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after maxRetries', async () => {
+    mockFetch([UNAVAILABLE, UNAVAILABLE]);
+    const policy = { ...FAST_POLICY, maxRetries: 1 };
+    await expect(withRetry(() => sendGetRequest(url), policy, { idempotent: true })).rejects.toBeInstanceOf(
+      ServerException
+    );
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry non-idempotent requests after server errors without recovery', async () => {
+    mockFetch([UNAVAILABLE, OK]);
+    await expect(withRetry(() => sendPostRequest(url, {}), FAST_POLICY)).rejects.toBeInstanceOf(ServerException);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns the recovered result instead of resending', async () => {
+    mockFetch([UNAVAILABLE, OK]);
+    const recover = jest.fn(async () => ({ status: 'OK', data: 'found' }));
+    const response = await withRetry(() => sendPostRequest(url, {}), FAST_POLICY, { recover });
+    expect(response.data).toBe('found');
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+
+    mockFetch([UNAVAILABLE, OK]);
+    const notFound = await withRetry(() => sendPostRequest(url, {}), FAST_POLICY, { recover: async () => undefined });
+    expect(notFound.data).toBe('done');
+  });
+
+  it('retries rate limited requests and honours Retry-After', async () => {
+    mockFetch([{ ...RATE_LIMITED, headers: { 'Retry-After': '0.02' } }, OK]);
+    const started = Date.now();
+    const response = await withRetry(() => sendPostRequest(url, {}), FAST_POLICY);
+    expect(response.data).toBe('done');
+    expect(Date.now() - started).toBeGreaterThanOrEqual(15);
+  });
+
+  it('exposes Retry-After on RateLimitException', async () => {
+    mockFetch([{ ...RATE_LIMITED, headers: { 'Retry-After': '2' } }]);
+    const error = await sendGetRequest(url).catch((e) => e);
+    expect(error).toBeInstanceOf(RateLimitException);
+    expect(error.retryAfterMs).toBe(2000);
+  });
+});
+
+describe('backoff', () => {
+  it('grows exponentially up to maxDelayMs', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, initialDelayMs: 100, maxDelayMs: 1000, jitter: false };
+    expect([0, 1, 2, 3, 4].map((retry) => getRetryDelay(policy, retry))).toEqual([100, 200, 400, 800, 1000]);
+  });
+
+  it('keeps jittered delays within the backoff', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, initialDelayMs: 100, jitter: true };
+    for (let i = 0; i < 20; i++) {
+      const delay = getRetryDelay(policy, 1);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(200);
+    }
+  });
+
+  it('parses Retry-After seconds and dates', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter(new Date(Date.now() + 60_000).toUTCString())).toBeGreaterThan(50_000);
+  });
+});
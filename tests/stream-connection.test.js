@@ -0,0 +1,198 @@
+/* Stream connection reconnects and subscription state rebuilds */
+
+// Import from built dist (the test script runs build first)
+const { WebSocketServer } = require('ws');
+const {
+  PerpetualStreamConnection,
+  ConnectionState,
+} = require('../dist/perpetual/stream-client/perpetual-stream-connection');
+const { OrderbookSubscription } = require('../dist/perpetual/stream-client/orderbook-subscription');
+
+const FAST_RECONNECT = { initialDelayMs: 10, maxDelayMs: 50, jitter: false };
+
+function startServer(onConnection) {
+  return new Promise((resolve) => {
+    const server = new WebSocketServer({ port: 0 }, () => resolve(server));
+    let connections = 0;
+    server.on('connection', (socket) => {
+      connections += 1;
+      onConnection(socket, connections);
+    });
+  });
+}
+
+function urlOf(server) {
+  return `ws://127.0.0.1:${server.address().port}`;
+}
+
+function closeServer(server) {
+  for (const client of server.clients) {
+    client.terminate();
+  }
+  return new Promise((resolve) => server.close(resolve));
+}
+
+function send(socket, message) {
+  socket.send(JSON.stringify(message));
+}
+
+describe('PerpetualStreamConnection', () => {
+  let server;
+
+  afterEach(async () => {
+    if (server) {
+      await closeServer(server);
+      server = undefined;
+    }
+  });
+
+  it('buffers messages until they are received', async () => {
+    server = await startServer((socket) => {
+      for (let seq = 1; seq <= 3; seq++) {
+        send(socket, { type: 'TRADE', data: {}, ts: seq, seq });
+      }
+    });
+    const connection = new PerpetualStreamConnection(urlOf(server));
+    await connection.connect();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const received = [await connection.recv(), await connection.recv(), await connection.recv()];
+    expect(received.map((message) => message.seq)).toEqual([1, 2, 3]);
+    await connection.close();
+  });
+
+  it('reconnects after a drop and reports state changes', async () => {
+    server = await startServer((socket, connections) => {
+      send(socket, { type: 'TRADE', data: {}, ts: connections, seq: 1 });
+      if (connections === 1) {
+        setTimeout(() => socket.terminate(), 20);
+      }
+    });
+    const connection = new PerpetualStreamConnection(urlOf(server), undefined, { reconnect: FAST_RECONNECT });
+    const states = [];
+    const reconnected = jest.fn();
+    connection.on('stateChange', (state) => states.push(state));
+    connection.on('reconnected', reconnected);
+
+    await connection.connect();
+    const first = await connection.recv();
+    const second = await connection.recv();
+
+    expect(first.ts).toBe(1);
+    expect(second.ts).toBe(2);
+    expect(reconnected).toHaveBeenCalledTimes(1);
+    expect(states).toEqual([ConnectionState.CONNECTING, ConnectionState.OPEN, ConnectionState.RECONNECTING, ConnectionState.OPEN]);
+
+    await connection.close();
+    expect(connection.getState()).toBe(ConnectionState.CLOSED);
+    await expect(connection.recv()).rejects.toThrow('WebSocket is closed');
+  });
+
+  it('ends the stream on a drop when reconnecting is disabled', async () => {
+    server = await startServer((socket) => {
+      send(socket, { type: 'TRADE', data: {}, ts: 1, seq: 1 });
+      setTimeout(() => socket.terminate(), 20);
+    });
+    const connection = new PerpetualStreamConnection(urlOf(server), undefined, { reconnect: false });
+    await connection.connect();
+
+    const received = [];
+    for await (const message of connection) {
+      received.push(message);
+    }
+    expect(received).toHaveLength(1);
+    expect(connection.isClosed()).toBe(true);
+  });
+
+  it('restarts the connection on request', async () => {
+    server = await startServer((socket, connections) => {
+      send(socket, { type: 'SNAPSHOT', data: {}, ts: connections, seq: 1 });
+    });
+    const connection = new PerpetualStreamConnection(urlOf(server), undefined, { reconnect: FAST_RECONNECT });
+    const reconnected = jest.fn();
+    connection.on('reconnected', reconnected);
+    await connection.connect();
+
+    expect((await connection.recv()).ts).toBe(1);
+    connection.restart();
+    expect(connection.getState()).toBe(ConnectionState.RECONNECTING);
+    expect((await connection.recv()).ts).toBe(2);
+    expect(reconnected).toHaveBeenCalledTimes(1);
+
+    await connection.close();
+  });
+
+  it('gives up after maxAttempts failed reconnects', async () => {
+    server = await startServer((socket) => setTimeout(() => socket.terminate(), 10));
+    const connection = new PerpetualStreamConnection(urlOf(server), undefined, {
+      reconnect: { ...FAST_RECONNECT, maxAttempts: 2 },
+    });
+    await connection.connect();
+
+    // Refuse new connections
+    await closeServer(server);
+    server = undefined;
+
+    const states = [];
+    const closed = new Promise((resolve) =>
+      connection.on('stateChange', (state, error) => {
+        states.push(state);
+        if (state === ConnectionState.CLOSED) {
+          resolve(error);
+        }
+      })
+    );
+
+    const error = await closed;
+    expect(error.message).toBeTruthy();
+    expect(states).toEqual([ConnectionState.RECONNECTING, ConnectionState.CLOSED]);
+  });
+});
+
+describe('OrderbookSubscription reconnect', () => {
+  let server;
+
+  afterEach(async () => {
+    if (server) {
+      await closeServer(server);
+      server = undefined;
+    }
+  });
+
+  it('rebuilds the book from the snapshot of the new connection', async () => {
+    server = await startServer((socket, connections) => {
+      if (connections === 1) {
+        send(socket, {
+          type: 'SNAPSHOT',
+          data: { m: 'BTC-USD', b: [{ p: '100', q: '1' }, { p: '99', q: '2' }], a: [{ p: '101', q: '1' }] },
+          ts: 1,
+          seq: 1,
+        });
+        setTimeout(() => socket.terminate(), 20);
+      } else {
+        send(socket, {
+          type: 'SNAPSHOT',
+          data: { m: 'BTC-USD', b: [{ p: '98', q: '3' }], a: [{ p: '102', q: '4' }] },
+          ts: 2,
+          seq: 1,
+        });
+      }
+    });
+    const connection = new PerpetualStreamConnection(urlOf(server), undefined, { reconnect: FAST_RECONNECT });
+    const subscription = new OrderbookSubscription(connection, 'BTC-USD');
+    await subscription.connect();
+
+    const snapshots = [];
+    for await (const snapshot of subscription) {
+      snapshots.push(snapshot);
+      if (snapshots.length === 2) {
+        break;
+      }
+    }
+    await subscription.close();
+
+    expect(snapshots[0].bids.map((level) => level.price.toString())).toEqual(['100', '99']);
+    expect(snapshots[1].bids.map((level) => level.price.toString())).toEqual(['98']);
+    expect(snapshots[1].asks.map((level) => level.price.toString())).toEqual(['102']);
+  });
+});
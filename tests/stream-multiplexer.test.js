@@ -0,0 +1,201 @@
+/* Multiplexed per-market streams over shared channel connections */
+
+// Import from built dist (the test script runs build first)
+const { WebSocketServer } = require('ws');
+const { StreamMultiplexer, StreamChannel, OverflowPolicy } = require('../dist/perpetual/stream-client/stream-multiplexer');
+const { StreamOverflowException } = require('../dist/errors');
+
+function startServer(onConnection) {
+  return new Promise((resolve) => {
+    const server = new WebSocketServer({ port: 0 }, () => resolve(server));
+    server.paths = [];
+    server.on('connection', (socket, request) => {
+      server.paths.push(request.url);
+      onConnection(socket, request.url);
+    });
+  });
+}
+
+function closeServer(server) {
+  for (const client of server.clients) {
+    client.terminate();
+  }
+  return new Promise((resolve) => server.close(resolve));
+}
+
+const send = (socket, message) => socket.send(JSON.stringify(message));
+const delay = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('StreamMultiplexer', () => {
+  let server;
+  let multiplexer;
+
+  afterEach(async () => {
+    await multiplexer?.close();
+    if (server) {
+      await closeServer(server);
+    }
+    server = undefined;
+    multiplexer = undefined;
+  });
+
+  it('shares one orderbooks connection between markets', async () => {
+    server = await startServer((socket) => {
+      send(socket, { type: 'SNAPSHOT', data: { m: 'BTC-USD', b: [{ p: '100', q: '1' }], a: [{ p: '101', q: '1' }] }, ts: 1, seq: 1 });
+      send(socket, { type: 'SNAPSHOT', data: { m: 'ETH-USD', b: [{ p: '10', q: '1' }], a: [{ p: '11', q: '1' }] }, ts: 2, seq: 2 });
+      send(socket, { type: 'DELTA', data: { m: 'BTC-USD', b: [{ p: '100', q: '2' }], a: [] }, ts: 3, seq: 3 });
+    });
+    multiplexer = new StreamMultiplexer({ apiUrl: `ws://127.0.0.1:${server.address().port}` });
+
+    const btc = multiplexer.subscribeToOrderbooks('BTC-USD');
+    const eth = multiplexer.subscribeToOrderbooks('ETH-USD');
+    await Promise.all([btc.connect(), eth.connect()]);
+
+    const btcIterator = btc[Symbol.asyncIterator]();
+    const ethIterator = eth[Symbol.asyncIterator]();
+    await btcIterator.next();
+    const btcBook = (await btcIterator.next()).value;
+    const ethBook = (await ethIterator.next()).value;
+
+    expect(server.paths).toEqual(['/orderbooks']);
+    expect(btcBook.bids[0].qty.toString()).toBe('3');
+    expect(ethBook.market).toBe('ETH-USD');
+    expect(btc.isStale()).toBe(false);
+  });
+
+  it('restarts the orderbooks connection for a snapshot of a market attaching late', async () => {
+    server = await startServer((socket) => {
+      const n = server.paths.length;
+      send(socket, { type: 'SNAPSHOT', data: { m: 'BTC-USD', b: [{ p: String(100 + n), q: '1' }], a: [] }, ts: 1, seq: 1 });
+      send(socket, { type: 'SNAPSHOT', data: { m: 'ETH-USD', b: [{ p: String(10 + n), q: '1' }], a: [] }, ts: 2, seq: 2 });
+    });
+    const apiUrl = `ws://127.0.0.1:${server.address().port}`;
+    multiplexer = new StreamMultiplexer({ apiUrl, reconnect: { initialDelayMs: 10, maxDelayMs: 50, jitter: false } });
+
+    const btc = multiplexer.subscribeToOrderbooks('BTC-USD');
+    await btc.connect();
+    const btcIterator = btc[Symbol.asyncIterator]();
+    expect((await btcIterator.next()).value.bids[0].price.toString()).toBe('101');
+
+    const eth = multiplexer.subscribeToOrderbooks('ETH-USD');
+    await eth.connect();
+    const ethBook = (await eth[Symbol.asyncIterator]().next()).value;
+
+    expect(server.paths).toEqual(['/orderbooks', '/orderbooks']);
+    expect(ethBook.bids[0].price.toString()).toBe('12');
+    // Markets already attached are reset and take the fresh snapshot too
+    expect((await btcIterator.next()).value.bids[0].price.toString()).toBe('102');
+  });
+
+  it('shares one restart between markets attaching late in quick succession', async () => {
+    const markets = ['BTC-USD', 'ETH-USD', 'SOL-USD', 'XRP-USD'];
+    server = await startServer((socket) => {
+      const n = server.paths.length;
+      markets.forEach((m, i) => send(socket, { type: 'SNAPSHOT', data: { m, b: [{ p: String(100 + n), q: '1' }], a: [] }, ts: i + 1, seq: i + 1 }));
+    });
+    const apiUrl = `ws://127.0.0.1:${server.address().port}`;
+    multiplexer = new StreamMultiplexer({ apiUrl, reconnect: { initialDelayMs: 10, maxDelayMs: 50, jitter: false } });
+
+    const btc = multiplexer.subscribeToOrderbooks('BTC-USD');
+    await btc.connect();
+    const btcIterator = btc[Symbol.asyncIterator]();
+    expect((await btcIterator.next()).value.bids[0].price.toString()).toBe('101');
+
+    const late = [];
+    for (const market of markets.slice(1)) {
+      const subscription = multiplexer.subscribeToOrderbooks(market);
+      await subscription.connect();
+      late.push(subscription);
+    }
+    const books = await Promise.all(late.map((subscription) => subscription[Symbol.asyncIterator]().next()));
+    expect((await btcIterator.next()).value.bids[0].price.toString()).toBe('102');
+    await delay(100);
+
+    // One restart for all of them: markets already attached are reset only once
+    expect(server.paths).toEqual(['/orderbooks', '/orderbooks']);
+    expect(books.map(({ value }) => value.bids[0].price.toString())).toEqual(['102', '102', '102']);
+  });
+
+  it('splits trade batches by market', async () => {
+    server = await startServer((socket) => {
+      send(socket, {
+        type: 'TRADE',
+        data: [
+          { i: 1, m: 'BTC-USD', S: 'BUY', T: 1, p: '100', q: '1' },
+          { i: 2, m: 'ETH-USD', S: 'SELL', T: 1, p: '10', q: '5' },
+          { i: 3, m: 'BTC-USD', S: 'BUY', T: 1, p: '101', q: '2' },
+        ],
+        ts: 1,
+        seq: 1,
+      });
+    });
+    multiplexer = new StreamMultiplexer({ apiUrl: `ws://127.0.0.1:${server.address().port}` });
+
+    const [btc, eth] = await Promise.all([
+      multiplexer.subscribeToPublicTrades('BTC-USD').connect(),
+      multiplexer.subscribeToPublicTrades('ETH-USD').connect(),
+    ]);
+
+    const btcTrades = btc[Symbol.asyncIterator]();
+    expect((await btcTrades.next()).value.id).toBe(1);
+    const third = (await btcTrades.next()).value;
+    expect(third.id).toBe(3);
+    expect(third.price.toString()).toBe('101');
+    expect((await eth[Symbol.asyncIterator]().next()).value.qty.toString()).toBe('5');
+    expect(server.paths).toEqual(['/publicTrades']);
+  });
+
+  it('applies the overflow policy per consumer', async () => {
+    server = await startServer((socket) => {
+      for (let seq = 1; seq <= 5; seq++) {
+        send(socket, { type: 'FUNDING', data: { m: 'BTC-USD', f: String(seq), T: seq }, ts: seq, seq });
+      }
+    });
+    const apiUrl = `ws://127.0.0.1:${server.address().port}`;
+    multiplexer = new StreamMultiplexer({ apiUrl, bufferSize: 2, overflow: OverflowPolicy.DROP_OLDEST });
+
+    const slow = await multiplexer.subscribeRaw(StreamChannel.FUNDING, 'BTC-USD').connect();
+    await delay(50);
+
+    const first = await slow.recv();
+    const second = await slow.recv();
+    expect([first.data.f, second.data.f]).toEqual(['4', '5']);
+    // Renumbered per market, so drops are visible as gaps
+    expect([first.seq, second.seq]).toEqual([4, 5]);
+    expect(slow.getDroppedCount()).toBe(3);
+  });
+
+  it('ends a consumer that overflows under the CLOSE policy', async () => {
+    server = await startServer((socket) => {
+      for (let seq = 1; seq <= 3; seq++) {
+        send(socket, { type: 'FUNDING', data: { m: 'BTC-USD', f: '0', T: seq }, ts: seq, seq });
+      }
+    });
+    const apiUrl = `ws://127.0.0.1:${server.address().port}`;
+    multiplexer = new StreamMultiplexer({ apiUrl, bufferSize: 1, overflow: OverflowPolicy.CLOSE });
+
+    const stream = await multiplexer.subscribeRaw(StreamChannel.FUNDING, 'BTC-USD').connect();
+    await delay(50);
+
+    expect(stream.isClosed()).toBe(true);
+    await stream.recv();
+    await expect(stream.recv()).rejects.toBeInstanceOf(StreamOverflowException);
+  });
+
+  it('closes the channel connection with its last consumer', async () => {
+    server = await startServer(() => {});
+    multiplexer = new StreamMultiplexer({ apiUrl: `ws://127.0.0.1:${server.address().port}` });
+
+    const btc = await multiplexer.subscribeToFundingRates('BTC-USD').connect();
+    const eth = await multiplexer.subscribeToFundingRates('ETH-USD').connect();
+    expect(server.clients.size).toBe(1);
+
+    await btc.close();
+    await delay(20);
+    expect(server.clients.size).toBe(1);
+
+    await eth.close();
+    await delay(20);
+    expect(server.clients.size).toBe(0);
+  });
+});
@@ -0,0 +1,129 @@
+/* Typed public trades, funding rate and candle subscriptions */
+
+// Import from built dist (the test script runs build first)
+const { EventEmitter } = require('events');
+const { PublicTradesSubscription } = require('../dist/perpetual/stream-client/public-trades-subscription');
+const { FundingRateSubscription } = require('../dist/perpetual/stream-client/funding-rate-subscription');
+const { CandleSubscription } = require('../dist/perpetual/stream-client/candle-subscription');
+const { PublicTradeModel } = require('../dist/perpetual/trades');
+const { DeserializationException } = require('../dist/errors');
+
+/**
+ * Connection replaying scripted messages
+ */
+class FakeConnection extends EventEmitter {
+  constructor(messages) {
+    super();
+    this.messages = messages;
+  }
+
+  async recv() {
+    if (this.messages.length === 0) {
+      throw new Error('WebSocket is closed');
+    }
+    return this.messages.shift();
+  }
+
+  isClosed() {
+    return false;
+  }
+}
+
+async function collect(subscription) {
+  const items = [];
+  for await (const item of subscription) {
+    items.push(item);
+  }
+  return items;
+}
+
+const candle = (T, o, h, l, c, v) => ({ T, o, h, l, c, v });
+const candleMessage = (data) => ({ type: 'SNAPSHOT', data, ts: 0 });
+
+describe('PublicTradesSubscription', () => {
+  it('parses each trade of a batch into a model', async () => {
+    const subscription = new PublicTradesSubscription(
+      new FakeConnection([
+        {
+          type: 'TRADE',
+          data: [
+            { i: 1, m: 'BTC-USD', S: 'BUY', tT: 'TRADE', T: 1000, p: '100.5', q: '0.1' },
+            { i: 2, m: 'BTC-USD', S: 'SELL', tT: 'LIQUIDATION', T: 1001, p: '100', q: '2' },
+          ],
+          ts: 1001,
+          seq: 1,
+        },
+      ])
+    );
+
+    const trades = await collect(subscription);
+
+    expect(trades).toHaveLength(2);
+    expect(trades[0]).toBeInstanceOf(PublicTradeModel);
+    expect(trades[0].price.toString()).toBe('100.5');
+    expect(trades[1].side).toBe('SELL');
+    expect(trades[1].tradeType).toBe('LIQUIDATION');
+    expect(trades[1].qty.plus(1).toString()).toBe('3');
+  });
+
+  it('throws on malformed trades', async () => {
+    const subscription = new PublicTradesSubscription(
+      new FakeConnection([{ type: 'TRADE', data: [{ i: 1, m: 'BTC-USD', S: 'BUY', T: 1, p: 'x', q: '1' }] }])
+    );
+
+    await expect(collect(subscription)).rejects.toThrow(DeserializationException);
+  });
+});
+
+describe('FundingRateSubscription', () => {
+  it('parses funding rates', async () => {
+    const subscription = new FundingRateSubscription(
+      new FakeConnection([{ type: 'FUNDING', data: { m: 'ETH-USD', f: '0.0001', T: 3600000 }, ts: 1, seq: 1 }])
+    );
+
+    const [rate] = await collect(subscription);
+
+    expect(rate.market).toBe('ETH-USD');
+    expect(rate.fundingRate.toString()).toBe('0.0001');
+    expect(rate.timestamp).toBe(3600000);
+  });
+});
+
+describe('CandleSubscription', () => {
+  it('merges in-progress updates and closes bars on a new interval', async () => {
+    const subscription = new CandleSubscription(
+      new FakeConnection([
+        candleMessage([candle(60000, '100', '101', '99', '100', '1')]),
+        candleMessage([candle(60000, '100', '103', '99', '102', '3')]),
+        candleMessage(candle(120000, '102', '102', '102', '102', '0.5')),
+      ])
+    );
+
+    const updates = await collect(subscription);
+
+    expect(updates.map((update) => update.closedCandle)).toEqual([null, null, expect.anything()]);
+    expect(updates[2].closedCandle.high.toString()).toBe('103');
+    expect(updates[2].closedCandle.volume.toString()).toBe('3');
+    expect(subscription.getCandles().map((c) => c.timestamp)).toEqual([60000, 120000]);
+    expect(subscription.getClosedCandles().map((c) => c.close.toString())).toEqual(['102']);
+    expect(subscription.getCurrentCandle().timestamp).toBe(120000);
+  });
+
+  it('applies late updates in place and keeps the series bounded', async () => {
+    const subscription = new CandleSubscription(
+      new FakeConnection([
+        candleMessage([candle(3, '1', '1', '1', '1'), candle(1, '1', '1', '1', '1'), candle(4, '1', '1', '1', '1')]),
+        candleMessage([candle(3, '1', '5', '1', '4')]),
+        candleMessage([candle(2, '1', '1', '1', '1')]),
+      ]),
+      { maxCandles: 3 }
+    );
+
+    const updates = await collect(subscription);
+
+    expect(updates.map((update) => update.candle.timestamp)).toEqual([1, 3, 4, 3, 2]);
+    expect(subscription.getCandles().map((c) => c.timestamp)).toEqual([2, 3, 4]);
+    expect(subscription.getCandles()[1].close.toString()).toBe('4');
+    expect(updates[3].closedCandle).toBeNull();
+  });
+});
@@ -0,0 +1,147 @@
+/* Trading client fee caching and fee rate selection */
+
+// Signing is not under test: replace the signer, whose dependencies are ES modules Jest cannot load
+jest.mock('../dist/perpetual/crypto/signer', () => ({
+  sign: () => [BigInt(1), BigInt(2)],
+  getOrderMsgHash: () => BigInt(3),
+}));
+
+// Import from built dist (the test script runs build first)
+const Decimal = require('decimal.js').default;
+const { PerpetualTradingClient } = require('../dist/perpetual/trading-client/trading-client');
+const { StarkPerpetualAccount } = require('../dist/perpetual/accounts');
+const { TESTNET_CONFIG } = require('../dist/perpetual/configuration');
+const { FetchTransport } = require('../dist/utils/http-transport');
+const { OrderSide } = require('../dist/perpetual/orders');
+
+const marketJson = {
+  name: 'BTC-USD',
+  assetName: 'BTC',
+  assetPrecision: 5,
+  collateralAssetName: 'USD',
+  collateralAssetPrecision: 6,
+  active: true,
+  tradingConfig: {
+    minOrderSize: '0.0001',
+    minOrderSizeChange: '0.00001',
+    minPriceChange: '0.1',
+  },
+  l2Config: {
+    type: 'STARKX',
+    collateralId: '0x31857064564ed0ff978e687456963cba09c2c6985d8f9300a1de4962fafa054',
+    collateralResolution: 1000000,
+    syntheticId: '0x4254432d3600000000000000000000',
+    syntheticResolution: 1000000,
+  },
+};
+
+function jsonResponse(body, status = 200) {
+  return { status, headers: { get: () => null }, text: async () => JSON.stringify(body) };
+}
+
+/**
+ * Exchange API answering markets, stats, fees and order placement
+ */
+class FakeExchange {
+  constructor() {
+    this.fees = { market: 'BTC-USD', makerFeeRate: '0.0001', takerFeeRate: '0.0004' };
+    this.feesStatus = 200;
+    this.feeRequests = 0;
+    this.orders = [];
+    this.fetch = jest.fn(async (url, init) => {
+      const path = new URL(url).pathname;
+      if (path.endsWith('/user/fees')) {
+        this.feeRequests++;
+        return this.feesStatus === 200
+          ? jsonResponse({ status: 'OK', data: [this.fees] })
+          : jsonResponse({ status: 'ERROR', error: { code: 500, message: 'Internal error' } }, this.feesStatus);
+      }
+      if (path.endsWith('/user/order')) {
+        const order = JSON.parse(init.body);
+        this.orders.push(order);
+        return jsonResponse({ status: 'OK', data: { id: this.orders.length, externalId: order.id } });
+      }
+      if (path.endsWith('/stats')) {
+        return jsonResponse({ status: 'OK', data: { markPrice: '65000' } });
+      }
+      if (path.endsWith('/info/markets')) {
+        return jsonResponse({ status: 'OK', data: [marketJson] });
+      }
+      return jsonResponse({ status: 'ERROR', error: { code: 404, message: 'Not found' } }, 404);
+    });
+  }
+}
+
+const order = (extra = {}) => ({
+  marketName: 'BTC-USD',
+  amountOfSynthetic: new Decimal('0.001'),
+  price: new Decimal('65000'),
+  side: OrderSide.BUY,
+  ...extra,
+});
+
+function createClient(exchange, options = {}) {
+  const account = new StarkPerpetualAccount(1, '0x1', '0x2', 'api-key');
+  const client = new PerpetualTradingClient(TESTNET_CONFIG, account, {
+    httpTransport: new FetchTransport({ fetch: exchange.fetch }),
+    rateLimiter: false,
+    retryPolicy: { maxRetries: 0 },
+    ...options,
+  });
+  return { client, account };
+}
+
+describe('PerpetualTradingClient fees', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('fetches fees once and reuses them while fresh', async () => {
+    const exchange = new FakeExchange();
+    const { client, account } = createClient(exchange);
+
+    await client.placeOrder(order());
+    await client.placeOrder(order());
+
+    expect(exchange.feeRequests).toBe(1);
+    expect(exchange.orders).toHaveLength(2);
+    expect(account.getTradingFeeForMarket('BTC-USD').takerFeeRate.toString()).toBe('0.0004');
+  });
+
+  it('refetches fees after the refresh interval and keeps cached fees when that fails', async () => {
+    const exchange = new FakeExchange();
+    const { client, account } = createClient(exchange, { feeRefreshIntervalMs: 1000 });
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+
+    await client.placeOrder(order());
+    now.mockReturnValue(1_000_999);
+    await client.placeOrder(order());
+    expect(exchange.feeRequests).toBe(1);
+
+    exchange.fees = { ...exchange.fees, takerFeeRate: '0.0003' };
+    now.mockReturnValue(1_001_000);
+    await client.placeOrder(order());
+    expect(exchange.feeRequests).toBe(2);
+    expect(exchange.orders[2].fee).toBe('0.0003');
+
+    exchange.feesStatus = 500;
+    now.mockReturnValue(1_002_000);
+    await client.placeOrder(order());
+    expect(exchange.feeRequests).toBe(3);
+    expect(exchange.orders).toHaveLength(4);
+    expect(account.getTradingFeeForMarket('BTC-USD').takerFeeRate.toString()).toBe('0.0003');
+  });
+
+  it('signs post-only orders with the maker fee and others with the taker fee', async () => {
+    const exchange = new FakeExchange();
+    const { client } = createClient(exchange);
+
+    await client.placeOrder(order({ postOnly: true }));
+    await client.placeOrder(order());
+
+    expect(exchange.orders.map((o) => [o.postOnly, o.fee])).toEqual([
+      [true, '0.0001'],
+      [false, '0.0004'],
+    ]);
+  });
+});
@@ -0,0 +1,504 @@
+/* Trading client order helpers: limit, market, replace, position TP/SL, conditional and batch orders */
+
+// Signing is not under test: replace the signer, whose dependencies are ES modules Jest cannot load
+jest.mock('../dist/perpetual/crypto/signer', () => ({
+  sign: () => [BigInt(1), BigInt(2)],
+  getOrderMsgHash: () => BigInt(3),
+}));
+
+// Import from built dist (the test script runs build first)
+const Decimal = require('decimal.js').default;
+const { PerpetualTradingClient } = require('../dist/perpetual/trading-client/trading-client');
+const { StarkPerpetualAccount } = require('../dist/perpetual/accounts');
+const { TESTNET_CONFIG } = require('../dist/perpetual/configuration');
+const { FetchTransport } = require('../dist/utils/http-transport');
+const {
+  OrderSide,
+  OrderPriceType,
+  OrderTriggerDirection,
+  OrderTriggerPriceType,
+  OrderTpslType,
+  PlacedOrderModel,
+} = require('../dist/perpetual/orders');
+const { OrderTpslTriggerParam } = require('../dist/perpetual/order-object');
+const {
+  InsufficientFundsException,
+  OrderValidationException,
+  PreviousOrderNotFoundException,
+  ServerException,
+} = require('../dist/errors');
+
+const market = (name, syntheticId) => ({
+  name,
+  assetName: name.split('-')[0],
+  assetPrecision: 5,
+  collateralAssetName: 'USD',
+  collateralAssetPrecision: 6,
+  active: true,
+  tradingConfig: {
+    minOrderSize: '0.0001',
+    minOrderSizeChange: '0.00001',
+    minPriceChange: '0.1',
+    maxLimitOrderValue: '100000',
+    limitPriceCap: '0.05',
+    limitPriceFloor: '0.05',
+  },
+  l2Config: {
+    type: 'STARKX',
+    collateralId: '0x31857064564ed0ff978e687456963cba09c2c6985d8f9300a1de4962fafa054',
+    collateralResolution: 1000000,
+    syntheticId,
+    syntheticResolution: 1000000,
+  },
+});
+
+const MARKETS = [market('BTC-USD', '0x4254432d3600000000000000000000'), market('ETH-USD', '0x4554482d3600000000000000000000')];
+
+function jsonResponse(body, status = 200) {
+  return { status, headers: { get: () => null }, text: async () => JSON.stringify(body) };
+}
+
+const errorResponse = (code, message, status = 400) => jsonResponse({ status: 'ERROR', error: { code, message } }, status);
+
+/**
+ * Exchange API answering markets, statistics, fees, positions, order lookups and order placement
+ */
+class FakeExchange {
+  constructor() {
+    this.stats = { askPrice: '65000', bidPrice: '64900', markPrice: '64950', indexPrice: '64960', lastPrice: '64940' };
+    this.feesStatus = 200;
+    this.ordersByExternalId = {};
+    this.positions = [];
+    this.rejectOrder = () => null;
+    this.orders = [];
+    this.paths = [];
+    this.inFlight = 0;
+    this.maxInFlight = 0;
+    this.fetch = jest.fn(async (url, init) => {
+      const path = new URL(url).pathname;
+      this.paths.push(path);
+      if (path.endsWith('/user/fees')) {
+        return this.feesStatus === 200
+          ? jsonResponse({
+              status: 'OK',
+              data: MARKETS.map(({ name }) => ({ market: name, makerFeeRate: '0.0001', takerFeeRate: '0.0004' })),
+            })
+          : errorResponse(500, 'Internal error', this.feesStatus);
+      }
+      if (path.endsWith('/user/order')) {
+        return await this.placeOrder(JSON.parse(init.body));
+      }
+      if (path.includes('/user/orders/external/')) {
+        const externalId = decodeURIComponent(path.split('/').pop());
+        return jsonResponse({ status: 'OK', data: this.ordersByExternalId[externalId] ?? [] });
+      }
+      if (path.endsWith('/user/positions')) {
+        return jsonResponse({ status: 'OK', data: this.positions });
+      }
+      if (path.endsWith('/stats')) {
+        return jsonResponse({ status: 'OK', data: this.stats });
+      }
+      if (path.endsWith('/info/markets')) {
+        return jsonResponse({ status: 'OK', data: MARKETS });
+      }
+      return errorResponse(404, 'Not found', 404);
+    });
+  }
+
+  async placeOrder(order) {
+    this.inFlight++;
+    this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    this.inFlight--;
+    const rejection = this.rejectOrder(order);
+    if (rejection) {
+      return errorResponse(rejection.code, rejection.message);
+    }
+    this.orders.push(order);
+    return jsonResponse({ status: 'OK', data: { id: this.orders.length, externalId: order.id } });
+  }
+}
+
+function createClient(exchange, options = {}) {
+  const account = new StarkPerpetualAccount(1, '0x1', '0x2', 'api-key');
+  return new PerpetualTradingClient(TESTNET_CONFIG, account, {
+    httpTransport: new FetchTransport({ fetch: exchange.fetch }),
+    rateLimiter: false,
+    retryPolicy: { maxRetries: 0 },
+    ...options,
+  });
+}
+
+describe('PerpetualTradingClient.placeOrder', () => {
+  // Beyond the 5% limit price cap above the 64950 mark price
+  const aboveCap = { marketName: 'BTC-USD', side: OrderSide.BUY, amountOfSynthetic: new Decimal('0.001'), price: new Decimal('70000') };
+
+  it('does not fetch market statistics for the limit price check by default', async () => {
+    const exchange = new FakeExchange();
+    const client = createClient(exchange);
+
+    await client.placeOrder(aboveCap);
+
+    expect(exchange.orders).toHaveLength(1);
+    expect(exchange.paths.some((path) => path.endsWith('/stats'))).toBe(false);
+  });
+
+  it('checks the limit price cap against a given mark price', async () => {
+    const exchange = new FakeExchange();
+    const client = createClient(exchange);
+
+    await expect(client.placeOrder({ ...aboveCap, markPrice: new Decimal('64950') })).rejects.toThrow(OrderValidationException);
+    expect(exchange.orders).toHaveLength(0);
+    expect(exchange.paths.some((path) => path.endsWith('/stats'))).toBe(false);
+  });
+
+  it('looks up a placement that failed ambiguously instead of sending it again', async () => {
+    const exchange = new FakeExchange();
+    const placeOrder = exchange.placeOrder.bind(exchange);
+    exchange.placeOrder = async (order) => {
+      await placeOrder(order);
+      exchange.ordersByExternalId[order.id] = [
+        { id: 7, externalId: order.id, market: order.market, type: order.type, side: order.side, status: 'NEW', price: order.price, qty: order.qty },
+      ];
+      return errorResponse(503, 'Service unavailable', 503);
+    };
+    const client = createClient(exchange, { retryPolicy: { maxRetries: 1, initialDelayMs: 0 } });
+
+    const response = await client.placeOrder({ ...aboveCap, externalId: 'ext-1' });
+
+    expect(response.data).toBeInstanceOf(PlacedOrderModel);
+    expect([response.data.id, response.data.externalId, response.data.market]).toEqual(['7', 'ext-1', 'BTC-USD']);
+    expect(exchange.orders).toHaveLength(1);
+  });
+
+  it('fetches the mark price with the fetchMarkPrice option', async () => {
+    const exchange = new FakeExchange();
+    const client = createClient(exchange, { fetchMarkPrice: true });
+
+    await expect(client.placeOrder(aboveCap)).rejects.toThrow(OrderValidationException);
+    expect(exchange.paths.filter((path) => path.endsWith('/stats'))).toHaveLength(1);
+
+    await client.placeOrders([{ ...aboveCap, price: new Decimal('65000') }, { ...aboveCap, price: new Decimal('65100') }]);
+    expect(exchange.orders).toHaveLength(2);
+    expect(exchange.paths.filter((path) => path.endsWith('/stats'))).toHaveLength(2);
+  });
+});
+
+describe('PerpetualTradingClient.placeMarketOrder', () => {
+  it('caps a buy at the slippage from the best ask and sends it as IOC market order', async () => {
+    const exchange = new FakeExchange();
+    const client = createClient(exchange);
+
+    await client.placeMarketOrder({ marketName: 'BTC-USD', side: OrderSide.BUY, qty: new Decimal('0.01') });
+
+    const [order] = exchange.orders;
+    expect([order.type, order.timeInForce, order.side, order.qty]).toEqual(['MARKET', 'IOC', 'BUY', '0.01']);
+    // 65000 plus the default 50 bps
+    expect(order.price).toBe('65325');
+  });
+
+  it('floors a sell at the slippage from the best bid, within the worst price', async () => {
+    const exchange = new FakeExchange();
+    const client = createClient(exchange);
+
+    await client.placeMarketOrder({
+      marketName: 'BTC-USD',
+      side: OrderSide.SELL,
+      qty: new Decimal('0.01'),
+      maxSlippageBps: 100,
+    });
+    await client.placeMarketOrder({
+      marketName: 'BTC-USD',
+      side: OrderSide.SELL,
+      qty: new Decimal('0.01'),
+      maxSlippageBps: 100,
+      worstPrice: new Decimal('64500'),
+    });
+
+    // 64900 minus 100 bps, then raised to the tighter worst price
+    expect(exchange.orders.map((order) => order.price)).toEqual(['64251', '64500']);
+  });
+
+  it('sizes the order from a notional at the best price', async () => {
+    const exchange = new FakeExchange();
+    const client = createClient(exchange);
+
+    await client.placeMarketOrder({ marketName: 'BTC-USD', side: OrderSide.BUY, notional: new Decimal('1000') });
+
+    // 1000 / 65000, rounded down to the size increment
+    expect(exchange.orders[0].qty).toBe('0.01538');
+  });
+
+  it('rejects when the book has no price on the taking side', async () => {
+    const exchange = new FakeExchange();
+    exchange.stats = { ...exchange.stats, askPrice: undefined };
+    const client = createClient(exchange);
+
+    await expect(
+      client.placeMarketOrder({ marketName: 'BTC-USD', side: OrderSide.BUY, qty: new Decimal('0.01') })
+    ).rejects.toThrow('No ask price available for market BTC-USD');
+    await expect(
+      client.placeMarketOrder({ marketName: 'BTC-USD', side: OrderSide.BUY, qty: new Decimal('0.01'), notional: new Decimal(1) })
+    ).rejects.toThrow('Exactly one of `qty` or `notional`');
+    expect(exchange.orders).toEqual([]);
+  });
+});
+
+describe('PerpetualTradingClient.replaceOrder', () => {
+  const openOrder = (extra = {}) => ({
+    id: 10,
+    externalId: 'ord-1',
+    market: 'BTC-USD',
+    type: 'LIMIT',
+    side: 'BUY',
+    status: 'PARTIALLY_FILLED',
+    price: '64000',
+    qty: '0.05',
+    filledQty: '0.02',
+    reduceOnly: false,
+    postOnly: true,
+    timeInForce: 'IOC',
+    selfTradeProtectionLevel: 'MARKET',
+    builderFee: '0.0002',
+    builderId: 7,
+    createdTime: 1,
+    updatedTime: 2,
+    ...extra,
+  });
+
+  it('replaces the unfilled remainder and keeps the attributes of the existing order', async () => {
+    const exchange = new FakeExchange();
+    exchange.ordersByExternalId['ord-1'] = [openOrder()];
+    const client = createClient(exchange);
+
+    await client.replaceOrder('ord-1', { price: new Decimal('64100') });
+
+    const [order] = exchange.orders;
+    expect(order.cancelId).toBe('ord-1');
+    expect([order.qty, order.price, order.side]).toEqual(['0.03', '64100', 'BUY']);
+    expect([order.postOnly, order.reduceOnly, order.timeInForce, order.selfTradeProtectionLevel]).toEqual([
+      true,
+      false,
+      'IOC',
+      'MARKET',
+    ]);
+    expect([order.builderFee, order.builderId]).toEqual(['0.0002', 7]);
+  });
+
+  it('applies the changes given over the existing order', async () => {
+    const exchange = new FakeExchange();
+    exchange.ordersByExternalId['ord-1'] = [openOrder()];
+    const client = createClient(exchange);
+
+    await client.replaceOrder('ord-1', {
+      qty: new Decimal('0.04'),
+      timeInForce: 'GTT',
+      builderFee: new Decimal('0.0001'),
+      builderId: 8,
+      externalId: 'ord-2',
+    });
+
+    const [order] = exchange.orders;
+    expect([order.id, order.qty, order.price, order.timeInForce]).toEqual(['ord-2', '0.04', '64000', 'GTT']);
+    expect([order.builderFee, order.builderId]).toEqual(['0.0001', 8]);
+  });
+
+  it('only replaces open LIMIT orders with unfilled quantity', async () => {
+    const exchange = new FakeExchange();
+    exchange.ordersByExternalId['conditional'] = [openOrder({ externalId: 'conditional', type: 'CONDITIONAL' })];
+    exchange.ordersByExternalId['filled'] = [openOrder({ externalId: 'filled', status: 'FILLED', filledQty: '0.05' })];
+    exchange.ordersByExternalId['done'] = [openOrder({ externalId: 'done', filledQty: '0.05' })];
+    const client = createClient(exchange);
+
+    await expect(client.replaceOrder('conditional')).rejects.toThrow('Only LIMIT orders can be replaced');
+    await expect(client.replaceOrder('filled')).rejects.toBeInstanceOf(PreviousOrderNotFoundException);
+    await expect(client.replaceOrder('missing')).rejects.toBeInstanceOf(PreviousOrderNotFoundException);
+    await expect(client.replaceOrder('done')).rejects.toThrow('has no unfilled quantity');
+    expect(exchange.orders).toEqual([]);
+  });
+});
+
+describe('PerpetualTradingClient.setPositionTpSl', () => {
+  const trigger = (price) =>
+    new OrderTpslTriggerParam(new Decimal(price), OrderTriggerPriceType.MARK, new Decimal(price), OrderPriceType.MARKET);
+  const openPosition = (side, size) => ({ id: 1, market: 'BTC-USD', status: 'OPENED', side, size });
+
+  it('closes a long position on the sell side for its full size', async () => {
+    const exchange = new FakeExchange();
+    exchange.positions = [openPosition('LONG', '3')];
+    const client = createClient(exchange);
+
+    // 3 BTC at 70000 is above the max limit order value, which does not apply to position TP/SL
+    await client.setPositionTpSl('BTC-USD', { takeProfit: trigger('70000'), stopLoss: trigger('60000') });
+
+    const [order] = exchange.orders;
+    expect([order.type, order.tpSlType, order.side, order.qty, order.reduceOnly]).toEqual([
+      'TPSL',
+      'POSITION',
+      'SELL',
+      '3',
+      true,
+    ]);
+    expect([order.takeProfit.triggerPrice, order.stopLoss.triggerPrice]).toEqual(['70000', '60000']);
+  });
+
+  it('closes a short position on the buy side', async () => {
+    const exchange = new FakeExchange();
+    exchange.positions = [openPosition('SHORT', '-0.5')];
+    const client = createClient(exchange);
+
+    await client.setPositionTpSl('BTC-USD', { stopLoss: trigger('70000') });
+
+    expect([exchange.orders[0].side, exchange.orders[0].qty]).toEqual(['BUY', '0.5']);
+  });
+
+  it('keeps the value check for order TP/SL and requires an open position', async () => {
+    const exchange = new FakeExchange();
+    const client = createClient(exchange);
+
+    const error = await client
+      .placeOrder({
+        marketName: 'BTC-USD',
+        amountOfSynthetic: new Decimal('3'),
+        price: new Decimal('65000'),
+        side: OrderSide.BUY,
+        tpSlType: OrderTpslType.ORDER,
+        takeProfit: trigger('70000'),
+      })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(OrderValidationException);
+    expect(error.violations.map((violation) => violation.field)).toEqual(['value']);
+    await expect(client.setPositionTpSl('BTC-USD', { takeProfit: trigger('70000') })).rejects.toThrow(
+      'No open position found for market BTC-USD'
+    );
+    expect(exchange.orders).toEqual([]);
+  });
+});
+
+describe('PerpetualTradingClient.placeConditionalOrder', () => {
+  it('infers a DOWN trigger for a stop below the mark price and caps its market execution', async () => {
+    const exchange = new FakeExchange();
+    const client = createClient(exchange);
+
+    await client.placeConditionalOrder({
+      marketName: 'BTC-USD',
+      side: OrderSide.SELL,
+      qty: new Decimal('0.01'),
+      triggerPrice: new Decimal('60000'),
+    });
+
+    const [order] = exchange.orders;
+    expect(order.type).toBe('CONDITIONAL');
+    expect(order.trigger).toEqual({
+      triggerPrice: '60000',
+      triggerPriceType: 'MARK',
+      direction: 'DOWN',
+      executionPriceType: 'MARKET',
+    });
+    // 60000 minus the default 50 bps
+    expect(order.price).toBe('59700');
+  });
+
+  it('places a stop-limit at its limit price against the chosen trigger price', async () => {
+    const exchange = new FakeExchange();
+    const client = createClient(exchange);
+
+    await client.placeConditionalOrder({
+      marketName: 'BTC-USD',
+      side: OrderSide.BUY,
+      qty: new Decimal('0.01'),
+      triggerPrice: new Decimal('66000'),
+      triggerPriceType: OrderTriggerPriceType.INDEX,
+      executionPriceType: OrderPriceType.LIMIT,
+      price: new Decimal('66100'),
+    });
+
+    const [order] = exchange.orders;
+    expect(order.price).toBe('66100');
+    expect([order.trigger.triggerPriceType, order.trigger.direction, order.trigger.executionPriceType]).toEqual([
+      'INDEX',
+      'UP',
+      'LIMIT',
+    ]);
+  });
+
+  it('rejects a trigger on the wrong side of the current price and a stop-limit without price', async () => {
+    const exchange = new FakeExchange();
+    const client = createClient(exchange);
+    const options = { marketName: 'BTC-USD', side: OrderSide.BUY, qty: new Decimal('0.01') };
+
+    await expect(
+      client.placeConditionalOrder({
+        ...options,
+        triggerPrice: new Decimal('64000'),
+        triggerPriceType: OrderTriggerPriceType.LAST,
+        direction: OrderTriggerDirection.UP,
+      })
+    ).rejects.toThrow('must be above current LAST price 64940 for UP direction');
+    await expect(
+      client.placeConditionalOrder({
+        ...options,
+        triggerPrice: new Decimal('66000'),
+        executionPriceType: OrderPriceType.LIMIT,
+      })
+    ).rejects.toThrow('`price` is required');
+    expect(exchange.orders).toEqual([]);
+  });
+});
+
+describe('PerpetualTradingClient.placeOrders', () => {
+  const limitOrder = (qty, extra = {}) => ({
+    marketName: 'BTC-USD',
+    amountOfSynthetic: new Decimal(qty),
+    price: new Decimal('65000'),
+    side: OrderSide.BUY,
+    ...extra,
+  });
+
+  it('reports the outcome of each order in input order', async () => {
+    const exchange = new FakeExchange();
+    exchange.rejectOrder = (order) => (order.qty === '0.02' ? { code: 1140, message: 'Not enough funds' } : null);
+    const client = createClient(exchange);
+
+    const results = await client.placeOrders([
+      limitOrder('0.01'),
+      limitOrder('0.02'),
+      limitOrder('0.000001'),
+      limitOrder('0.03', { marketName: 'ETH-USD', price: new Decimal('3000') }),
+    ]);
+
+    expect(results.map((result) => result.success)).toEqual([true, false, false, true]);
+    expect(results[0].placedOrder.externalId).toBe(results[0].order.id);
+    expect(results[1].error).toBeInstanceOf(InsufficientFundsException);
+    expect(results[1].order.qty.toString()).toBe('0.02');
+    // Rejected by validation before signing
+    expect(results[2].error).toBeInstanceOf(OrderValidationException);
+    expect(results[2].order).toBeUndefined();
+    expect(exchange.orders.map((order) => order.market)).toEqual(['BTC-USD', 'ETH-USD']);
+  });
+
+  it('keeps at most `concurrency` placements in flight', async () => {
+    const exchange = new FakeExchange();
+    const client = createClient(exchange);
+
+    const results = await client.placeOrders(
+      Array.from({ length: 6 }, () => limitOrder('0.01')),
+      { concurrency: 2 }
+    );
+
+    expect(results.every((result) => result.success)).toBe(true);
+    expect(exchange.maxInFlight).toBe(2);
+  });
+
+  it('fails the orders of markets without fees once the batch fee request fails', async () => {
+    const exchange = new FakeExchange();
+    exchange.feesStatus = 500;
+    const client = createClient(exchange);
+
+    const results = await client.placeOrders(Array.from({ length: 4 }, () => limitOrder('0.01')));
+
+    expect(results.every((result) => !result.success && result.error instanceof ServerException)).toBe(true);
+    expect(exchange.paths.filter((path) => path.endsWith('/user/fees'))).toHaveLength(1);
+    expect(exchange.orders).toEqual([]);
+  });
+});
@@ -0,0 +1,163 @@
+/* TWAP slice scheduling, fill accounting and cancellation */
+
+// Import from built dist (the test script runs build first)
+const { EventEmitter } = require('events');
+const Decimal = require('decimal.js').default;
+const { TwapExecutor, TwapStatus } = require('../dist/perpetual/trading-client/twap-executor');
+const { MarketModel, TradingConfigModel } = require('../dist/perpetual/markets');
+
+function createMarket() {
+  const tradingConfig = Object.assign(new TradingConfigModel(), {
+    minOrderSize: new Decimal('0.01'),
+    minOrderSizeChange: new Decimal('0.01'),
+    minPriceChange: new Decimal('1'),
+  });
+  return Object.assign(new MarketModel(), { name: 'BTC-USD', tradingConfig });
+}
+
+/**
+ * Trading client recording market orders, with a scripted result per call
+ */
+class FakeClient {
+  constructor(onOrder = () => undefined) {
+    this.placedAt = [];
+    this.getMarket = jest.fn(async () => createMarket());
+    this.placeMarketOrder = jest.fn(async (options) => {
+      this.placedAt.push(Date.now());
+      await onOrder(options, this.placeMarketOrder.mock.calls.length - 1);
+      return { status: 'OK', data: { id: 1, externalId: options.externalId } };
+    });
+  }
+}
+
+const accountOrder = (externalId, status, filledQty, averagePrice) => ({
+  id: 1,
+  externalId,
+  market: 'BTC-USD',
+  status,
+  qty: '1',
+  filledQty,
+  averagePrice,
+});
+
+const baseOptions = {
+  marketName: 'BTC-USD',
+  side: 'BUY',
+  totalQty: new Decimal(1),
+  durationMs: 0,
+  slices: 4,
+  externalIdPrefix: 'twap',
+};
+
+describe('TwapExecutor', () => {
+  it('splits the quantity into equal slices', async () => {
+    const client = new FakeClient();
+    const twap = new TwapExecutor(client, baseOptions);
+    const statuses = [];
+    twap.on('progress', (progress) => statuses.push(progress.status));
+
+    const progress = await twap.start();
+
+    expect(client.placeMarketOrder.mock.calls.map(([order]) => [order.externalId, order.qty.toString()])).toEqual([
+      ['twap-0', '0.25'],
+      ['twap-1', '0.25'],
+      ['twap-2', '0.25'],
+      ['twap-3', '0.25'],
+    ]);
+    expect(progress.status).toBe(TwapStatus.COMPLETED);
+    expect(progress.slicesPlaced).toBe(4);
+    // Without fill tracking, placed slices count as filled
+    expect(progress.filledQty.toString()).toBe('1');
+    expect(statuses[0]).toBe(TwapStatus.RUNNING);
+    expect(statuses[statuses.length - 1]).toBe(TwapStatus.COMPLETED);
+  });
+
+  it('spaces slices over the duration', async () => {
+    const client = new FakeClient();
+    const twap = new TwapExecutor(client, { ...baseOptions, slices: 2, durationMs: 60 });
+
+    await twap.start();
+
+    expect(client.placedAt[1] - client.placedAt[0]).toBeGreaterThanOrEqual(25);
+  });
+
+  it('accounts fills from order updates and re-slices unfilled quantity', async () => {
+    const account = new EventEmitter();
+    const client = new FakeClient(({ externalId }, index) => {
+      if (index === 0) {
+        // IOC slice partially filled, rest cancelled
+        account.emit('orderUpdated', { order: accountOrder(externalId, 'CANCELLED', '0.3', '100') });
+      } else {
+        account.emit('orderUpdated', { order: accountOrder(externalId, 'FILLED', '0.7', '110') });
+      }
+    });
+    const twap = new TwapExecutor(client, { ...baseOptions, slices: 2, accountSubscription: account });
+
+    const progress = await twap.start();
+
+    expect(client.placeMarketOrder.mock.calls.map(([order]) => order.qty.toString())).toEqual(['0.5', '0.7']);
+    expect(progress.filledQty.toString()).toBe('1');
+    expect(progress.remainingQty.toString()).toBe('0');
+    expect(progress.averageFillPrice.toString()).toBe('107');
+    expect(account.listenerCount('orderUpdated')).toBe(0);
+  });
+
+  it('records rejected slices and keeps going', async () => {
+    const client = new FakeClient((options, index) => {
+      if (index === 0) {
+        throw new Error('Insufficient funds');
+      }
+    });
+    const twap = new TwapExecutor(client, { ...baseOptions, slices: 2 });
+
+    const progress = await twap.start();
+
+    const [rejected, placed] = twap.getSlices();
+    expect(rejected.status).toBe('REJECTED');
+    expect(rejected.error.message).toBe('Insufficient funds');
+    // The last slice picks up the quantity of the rejected one
+    expect(placed.qty.toString()).toBe('1');
+    expect(progress.status).toBe(TwapStatus.COMPLETED);
+    expect(progress.submittedQty.toString()).toBe('1');
+  });
+
+  it('fails when the market cannot be loaded', async () => {
+    const client = new FakeClient();
+    client.getMarket.mockRejectedValue(new Error('Market BTC-USD not found'));
+    const twap = new TwapExecutor(client, baseOptions);
+    const done = jest.fn();
+    twap.on('done', done);
+
+    await expect(twap.start()).rejects.toThrow('Market BTC-USD not found');
+    expect(twap.getStatus()).toBe(TwapStatus.FAILED);
+    expect(done).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops placing slices when cancelled', async () => {
+    const client = new FakeClient();
+    const twap = new TwapExecutor(client, { ...baseOptions, slices: 3, durationMs: 60_000 });
+    twap.once('slice', () => twap.cancel());
+
+    const progress = await twap.start();
+
+    expect(client.placeMarketOrder).toHaveBeenCalledTimes(1);
+    expect(progress.status).toBe(TwapStatus.CANCELLED);
+    expect(progress.slicesPlaced).toBe(1);
+  });
+
+  it('cancels before start without placing orders', async () => {
+    const client = new FakeClient();
+    const twap = new TwapExecutor(client, baseOptions);
+
+    twap.cancel();
+
+    expect(twap.getStatus()).toBe(TwapStatus.CANCELLED);
+    await expect(twap.start()).rejects.toThrow('cannot be started in CANCELLED status');
+    expect(client.placeMarketOrder).not.toHaveBeenCalled();
+  });
+
+  it('rejects invalid options', () => {
+    expect(() => new TwapExecutor(new FakeClient(), { ...baseOptions, slices: 0 })).toThrow('Slice count');
+    expect(() => new TwapExecutor(new FakeClient(), { ...baseOptions, randomization: 2 })).toThrow('Randomization');
+  });
+});